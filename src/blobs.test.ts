@@ -0,0 +1,54 @@
+/**
+ * Blob Store Tests for Ralph Wiggum MCP Server
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { existsSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BlobStore } from "./blobs.js";
+
+describe("BlobStore", () => {
+  let dir: string;
+  let blobs: BlobStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ralph-blobs-test-"));
+    blobs = new BlobStore(join(dir, "blobs"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should store content once under its hash", () => {
+    const hash = blobs.put("full test log");
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(blobs.put(Buffer.from("full test log"))).toBe(hash);
+    expect(blobs.list()).toEqual([hash]);
+    expect(blobs.get(hash)?.toString()).toBe("full test log");
+    expect(existsSync(join(dir, "blobs", hash.substring(0, 2), hash))).toBe(true);
+  });
+
+  it("should resolve unique hash prefixes", () => {
+    const hash = blobs.put("report");
+    expect(blobs.resolve(hash.substring(0, 8).toUpperCase())).toBe(hash);
+    expect(blobs.resolve(hash)).toBe(hash);
+    expect(blobs.resolve("00000000")).toBeNull();
+    expect(() => blobs.resolve("abc")).toThrow("Invalid artifact hash");
+    expect(() => blobs.resolve("../../etc/passwd")).toThrow("Invalid artifact hash");
+    expect(blobs.get("../state.json")).toBeNull();
+  });
+
+  it("should remove unreferenced blobs", () => {
+    const kept = blobs.put("kept");
+    const removed = blobs.put("removed");
+
+    const report = blobs.collectGarbage(new Set([kept]));
+
+    expect(report).toEqual({ removed: 1, freedBytes: "removed".length, kept: 1 });
+    expect(blobs.get(kept)).not.toBeNull();
+    expect(blobs.get(removed)).toBeNull();
+    expect(existsSync(join(dir, "blobs", removed.substring(0, 2)))).toBe(kept.substring(0, 2) === removed.substring(0, 2));
+  });
+});
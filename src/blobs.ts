@@ -0,0 +1,150 @@
+/**
+ * Content-Addressed Blob Store for Ralph Wiggum Loops
+ *
+ * Full iteration outputs, tool logs and attached artifacts, stored once per
+ * distinct content under its SHA-256 hash:
+ *
+ *   <root>/<first two hex digits>/<hash>
+ *
+ * Blobs are plain files, so they can be read with any tool. Writes happen
+ * under the storage lock, like every other change to loop state.
+ */
+
+import { createHash } from "crypto";
+import { existsSync, readdirSync, readFileSync, rmdirSync, statSync, unlinkSync } from "fs";
+import { join } from "path";
+import { writeFileAtomic } from "./locking.js";
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+const MIN_PREFIX_LENGTH = 8;
+
+export interface BlobGarbageReport {
+  removed: number;
+  freedBytes: number;
+  kept: number;
+}
+
+export class BlobStore {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = root;
+  }
+
+  /**
+   * Get the file path of a blob
+   */
+  private getBlobPath(hash: string): string {
+    return join(this.root, hash.substring(0, 2), hash);
+  }
+
+  /**
+   * Store content and return its hash (existing content is not rewritten)
+   */
+  put(data: string | Uint8Array): string {
+    const hash = createHash("sha256").update(data).digest("hex");
+    const path = this.getBlobPath(hash);
+    if (!existsSync(path)) {
+      writeFileAtomic(path, data);
+    }
+    return hash;
+  }
+
+  /**
+   * Read a blob (null if it does not exist)
+   */
+  get(hash: string): Buffer | null {
+    if (!HASH_PATTERN.test(hash)) {
+      return null;
+    }
+    const path = this.getBlobPath(hash);
+    return existsSync(path) ? readFileSync(path) : null;
+  }
+
+  /**
+   * Resolve a full hash or a unique prefix of at least 8 hex digits to a
+   * stored hash (SECURE: validates the prefix, as it becomes a path)
+   *
+   * @returns The full hash, or null if no blob matches
+   */
+  resolve(prefix: string): string | null {
+    const normalized = prefix.toLowerCase();
+    if (!/^[0-9a-f]+$/.test(normalized) || normalized.length < MIN_PREFIX_LENGTH || normalized.length > 64) {
+      throw new Error(`Invalid artifact hash: ${prefix} (use at least ${MIN_PREFIX_LENGTH} hex digits)`);
+    }
+    if (normalized.length === 64) {
+      return existsSync(this.getBlobPath(normalized)) ? normalized : null;
+    }
+
+    const shardDir = join(this.root, normalized.substring(0, 2));
+    if (!existsSync(shardDir)) {
+      return null;
+    }
+    const matches = readdirSync(shardDir).filter(
+      (file) => HASH_PATTERN.test(file) && file.startsWith(normalized)
+    );
+    if (matches.length > 1) {
+      throw new Error(`Artifact hash ${prefix} is ambiguous - give more digits`);
+    }
+    return matches[0] ?? null;
+  }
+
+  /**
+   * List the hashes of all stored blobs
+   */
+  list(): string[] {
+    if (!existsSync(this.root)) {
+      return [];
+    }
+
+    const hashes: string[] = [];
+    for (const shard of readdirSync(this.root)) {
+      if (!/^[0-9a-f]{2}$/.test(shard)) continue;
+      for (const file of readdirSync(join(this.root, shard))) {
+        if (HASH_PATTERN.test(file)) {
+          hashes.push(file);
+        }
+      }
+    }
+    return hashes;
+  }
+
+  /**
+   * Remove every blob that is not referenced
+   */
+  collectGarbage(referenced: Set<string>): BlobGarbageReport {
+    const report: BlobGarbageReport = { removed: 0, freedBytes: 0, kept: 0 };
+
+    for (const hash of this.list()) {
+      if (referenced.has(hash)) {
+        report.kept++;
+        continue;
+      }
+
+      const path = this.getBlobPath(hash);
+      try {
+        report.freedBytes += statSync(path).size;
+        unlinkSync(path);
+        report.removed++;
+      } catch (error) {
+        console.error(`Failed to remove blob ${hash}: ${error}`);
+      }
+    }
+
+    // Drop shard directories left empty
+    if (existsSync(this.root)) {
+      for (const shard of readdirSync(this.root)) {
+        const shardDir = join(this.root, shard);
+        try {
+          if (readdirSync(shardDir).length === 0) {
+            rmdirSync(shardDir);
+          }
+        } catch {
+          // Not a directory, or filled again in the meantime
+        }
+      }
+    }
+
+    return report;
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Completion Condition Tests for Ralph Wiggum MCP Server
+ *
+ * Tests for parsing and evaluating loop completion conditions.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  evaluateCompletionCondition,
+  extractPromises,
+  parseCompletionCondition,
+} from "./completion.js";
+import { RalphIterationHistoryEntry } from "./ralph.js";
+
+function entry(overrides: Partial<RalphIterationHistoryEntry> = {}): RalphIterationHistoryEntry {
+  return {
+    iteration: 1,
+    timestamp: new Date().toISOString(),
+    output: "",
+    completionDetected: false,
+    ...overrides,
+  };
+}
+
+const green = { name: "npm-test", command: "npm", exitCode: 0, output: "", duration: 1 };
+const red = { ...green, exitCode: 1 };
+
+describe("Completion Conditions", () => {
+  describe("extractPromises", () => {
+    it("should extract every promise tag, not just the first", () => {
+      expect(
+        extractPromises("<promise>A</promise> text <promise> B </promise>")
+      ).toEqual(["A", "B"]);
+    });
+  });
+
+  describe("parseCompletionCondition", () => {
+    it("should accept nested boolean conditions", () => {
+      const condition = parseCompletionCondition({
+        type: "and",
+        conditions: [
+          { type: "any_promise", values: ["DONE", "FIXED"] },
+          { type: "not", condition: { type: "no_changes", iterations: 1 } },
+        ],
+      });
+      expect(condition.type).toBe("and");
+    });
+
+    it("should reject invalid conditions with the offending path", () => {
+      expect(() => parseCompletionCondition({ type: "bogus" })).toThrow(/completion_condition.type/);
+      expect(() =>
+        parseCompletionCondition({ type: "or", conditions: [{ type: "tools_green", iterations: 0 }] })
+      ).toThrow(/conditions\[0\].iterations/);
+      expect(() => parseCompletionCondition({ type: "promise_regex", pattern: "(" })).toThrow(/not a valid regex/);
+      expect(() =>
+        parseCompletionCondition({ type: "promise_regex", pattern: "x", flags: "g" })
+      ).toThrow(/flags/);
+    });
+
+    it("should limit nesting depth", () => {
+      let condition: unknown = { type: "promise", value: "DONE" };
+      for (let i = 0; i < 10; i++) {
+        condition = { type: "not", condition };
+      }
+      expect(() => parseCompletionCondition(condition)).toThrow(/nested/);
+    });
+  });
+
+  describe("evaluateCompletionCondition", () => {
+    it("should match promises by regex, any-of and all-of", () => {
+      const history = [entry({ promises: ["DONE_API", "DOCS"] })];
+
+      expect(
+        evaluateCompletionCondition({ type: "promise_regex", pattern: "^done_", flags: "i" }, history).met
+      ).toBe(true);
+      expect(evaluateCompletionCondition({ type: "any_promise", values: ["X", "DOCS"] }, history).met).toBe(true);
+
+      const allOf = evaluateCompletionCondition({ type: "all_promises", values: ["DOCS", "TESTS"] }, history);
+      expect(allOf.met).toBe(false);
+      expect(allOf.description).toContain("missing TESTS");
+    });
+
+    it("should count consecutive green tool runs", () => {
+      const condition = { type: "tools_green" as const, iterations: 2 };
+
+      expect(
+        evaluateCompletionCondition(condition, [entry({ externalToolsRun: [green] }), entry({ externalToolsRun: [red] })]).met
+      ).toBe(false);
+      expect(
+        evaluateCompletionCondition(condition, [
+          entry({ externalToolsRun: [red] }),
+          entry({ externalToolsRun: [green] }),
+          entry({ externalToolsRun: [green] }),
+        ]).met
+      ).toBe(true);
+      expect(evaluateCompletionCondition(condition, [entry(), entry()]).met).toBe(false);
+    });
+
+    it("should count file changes measured with git over the client's report", () => {
+      const condition = { type: "no_changes" as const, iterations: 1 };
+
+      expect(evaluateCompletionCondition(condition, [entry({ filesChanged: ["a.ts"] })]).met).toBe(false);
+      expect(evaluateCompletionCondition(condition, [entry({ filesModified: ["a.ts"], filesChanged: [] })]).met).toBe(true);
+      expect(evaluateCompletionCondition(condition, [entry({ filesModified: ["a.ts"] })]).met).toBe(false);
+    });
+
+    it("should report which parts of a combination are met", () => {
+      const status = evaluateCompletionCondition(
+        {
+          type: "and",
+          conditions: [
+            { type: "promise", value: "DONE" },
+            { type: "no_changes", iterations: 2 },
+          ],
+        },
+        [entry({ filesModified: ["a.ts"] }), entry({ promises: ["DONE"] })]
+      );
+
+      expect(status.met).toBe(false);
+      expect(status.children?.map((c) => c.met)).toEqual([true, false]);
+      expect(status.children?.[1].description).toContain("(currently 1)");
+    });
+  });
+});
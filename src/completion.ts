@@ -0,0 +1,262 @@
+/**
+ * Completion Conditions for Ralph Wiggum Loops
+ *
+ * Declarative conditions that decide when a loop is done: promise matching
+ * (exact, regex, any-of, all-of), tool and file-change streaks, and boolean
+ * combinations of these.
+ */
+
+import { RalphIterationHistoryEntry } from "./ralph.js";
+
+export type RalphCompletionCondition =
+  | { type: "promise"; value: string }
+  | { type: "promise_regex"; pattern: string; flags?: string }
+  | { type: "any_promise"; values: string[] }
+  | { type: "all_promises"; values: string[] }
+  | { type: "tools_green"; iterations: number }
+  | { type: "no_changes"; iterations: number }
+  | { type: "and"; conditions: RalphCompletionCondition[] }
+  | { type: "or"; conditions: RalphCompletionCondition[] }
+  | { type: "not"; condition: RalphCompletionCondition };
+
+export interface CompletionConditionStatus {
+  met: boolean;
+  description: string;
+  children?: CompletionConditionStatus[];
+}
+
+const MAX_CONDITION_DEPTH = 5;
+const MAX_PATTERN_LENGTH = 500;
+
+/**
+ * Extract the text of every <promise> tag in an output
+ */
+export function extractPromises(output: string): string[] {
+  const promises: string[] = [];
+  for (const match of output.matchAll(/<promise>(.*?)<\/promise>/gs)) {
+    promises.push(match[1].trim());
+  }
+  return promises;
+}
+
+/**
+ * Validate a completion condition received from a client (SECURE: bounds
+ * nesting depth and regex size)
+ */
+export function parseCompletionCondition(
+  raw: unknown,
+  path: string = "completion_condition",
+  depth: number = 0
+): RalphCompletionCondition {
+  if (depth > MAX_CONDITION_DEPTH) {
+    throw new Error(`${path}: conditions may be nested at most ${MAX_CONDITION_DEPTH} levels deep`);
+  }
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${path} must be an object with a type`);
+  }
+
+  const condition = raw as Record<string, unknown>;
+  const requireStrings = (key: string): string[] => {
+    const values = condition[key];
+    if (
+      !Array.isArray(values) ||
+      values.length === 0 ||
+      !values.every((v) => typeof v === "string" && v.trim() !== "")
+    ) {
+      throw new Error(`${path}.${key} must be a non-empty array of strings`);
+    }
+    return values.map((v: string) => v.trim());
+  };
+  const requireIterations = (): number => {
+    const iterations = condition.iterations;
+    if (typeof iterations !== "number" || !Number.isInteger(iterations) || iterations < 1) {
+      throw new Error(`${path}.iterations must be a positive integer`);
+    }
+    return iterations;
+  };
+
+  switch (condition.type) {
+    case "promise": {
+      if (typeof condition.value !== "string" || condition.value.trim() === "") {
+        throw new Error(`${path}.value must be a non-empty string`);
+      }
+      return { type: "promise", value: condition.value.trim() };
+    }
+    case "promise_regex": {
+      const { pattern, flags = "" } = condition;
+      if (typeof pattern !== "string" || pattern === "" || pattern.length > MAX_PATTERN_LENGTH) {
+        throw new Error(`${path}.pattern must be a regex of 1-${MAX_PATTERN_LENGTH} characters`);
+      }
+      if (typeof flags !== "string" || !/^[imsu]*$/.test(flags)) {
+        throw new Error(`${path}.flags may only contain i, m, s and u`);
+      }
+      try {
+        new RegExp(pattern, flags);
+      } catch (error) {
+        throw new Error(`${path}.pattern is not a valid regex: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return flags ? { type: "promise_regex", pattern, flags } : { type: "promise_regex", pattern };
+    }
+    case "any_promise":
+      return { type: "any_promise", values: requireStrings("values") };
+    case "all_promises":
+      return { type: "all_promises", values: requireStrings("values") };
+    case "tools_green":
+      return { type: "tools_green", iterations: requireIterations() };
+    case "no_changes":
+      return { type: "no_changes", iterations: requireIterations() };
+    case "and":
+    case "or": {
+      const conditions = condition.conditions;
+      if (!Array.isArray(conditions) || conditions.length === 0) {
+        throw new Error(`${path}.conditions must be a non-empty array`);
+      }
+      return {
+        type: condition.type,
+        conditions: conditions.map((c, i) =>
+          parseCompletionCondition(c, `${path}.conditions[${i}]`, depth + 1)
+        ),
+      };
+    }
+    case "not":
+      return {
+        type: "not",
+        condition: parseCompletionCondition(condition.condition, `${path}.condition`, depth + 1),
+      };
+    default:
+      throw new Error(
+        `${path}.type must be one of: promise, promise_regex, any_promise, all_promises, tools_green, no_changes, and, or, not`
+      );
+  }
+}
+
+/**
+ * Describe a condition in one line
+ */
+export function describeCompletionCondition(condition: RalphCompletionCondition): string {
+  const tags = (values: string[]) => values.map((v) => `<promise>${v}</promise>`).join(", ");
+
+  switch (condition.type) {
+    case "promise":
+      return `<promise>${condition.value}</promise>`;
+    case "promise_regex":
+      return `<promise> matching /${condition.pattern}/${condition.flags || ""}`;
+    case "any_promise":
+      return `any of ${tags(condition.values)}`;
+    case "all_promises":
+      return `all of ${tags(condition.values)}`;
+    case "tools_green":
+      return `all tools green for ${condition.iterations} consecutive iteration(s)`;
+    case "no_changes":
+      return `no file changes for ${condition.iterations} iteration(s)`;
+    case "and":
+      return `(${condition.conditions.map(describeCompletionCondition).join(" AND ")})`;
+    case "or":
+      return `(${condition.conditions.map(describeCompletionCondition).join(" OR ")})`;
+    case "not":
+      return `NOT ${describeCompletionCondition(condition.condition)}`;
+  }
+}
+
+/**
+ * Count consecutive entries at the end of the history that satisfy a predicate
+ */
+function trailingStreak(
+  history: RalphIterationHistoryEntry[],
+  predicate: (entry: RalphIterationHistoryEntry) => boolean
+): number {
+  let streak = 0;
+  for (let i = history.length - 1; i >= 0 && predicate(history[i]); i--) {
+    streak++;
+  }
+  return streak;
+}
+
+/**
+ * Evaluate a condition against the loop history. Promise conditions look at
+ * the promises of the latest iteration; streak conditions count backwards
+ * from it.
+ */
+export function evaluateCompletionCondition(
+  condition: RalphCompletionCondition,
+  history: RalphIterationHistoryEntry[]
+): CompletionConditionStatus {
+  const promises = history[history.length - 1]?.promises || [];
+  const description = describeCompletionCondition(condition);
+
+  switch (condition.type) {
+    case "promise":
+      return { met: promises.includes(condition.value), description };
+    case "promise_regex": {
+      const regex = new RegExp(condition.pattern, condition.flags);
+      return { met: promises.some((p) => regex.test(p)), description };
+    }
+    case "any_promise":
+      return { met: condition.values.some((v) => promises.includes(v)), description };
+    case "all_promises": {
+      const missing = condition.values.filter((v) => !promises.includes(v));
+      return {
+        met: missing.length === 0,
+        description:
+          missing.length > 0 && missing.length < condition.values.length
+            ? `${description} (missing ${missing.join(", ")})`
+            : description,
+      };
+    }
+    case "tools_green": {
+      const streak = trailingStreak(
+        history,
+        (entry) =>
+          (entry.externalToolsRun?.length || 0) > 0 &&
+          entry.externalToolsRun!.every((tool) => tool.exitCode === 0)
+      );
+      return {
+        met: streak >= condition.iterations,
+        description: `${description} (currently ${streak})`,
+      };
+    }
+    case "no_changes": {
+      // Changes measured from git snapshots; the client's report without git
+      const streak = trailingStreak(
+        history,
+        (entry) => ((entry.filesChanged ?? entry.filesModified)?.length || 0) === 0
+      );
+      return {
+        met: streak >= condition.iterations,
+        description: `${description} (currently ${streak})`,
+      };
+    }
+    case "and":
+    case "or": {
+      const children = condition.conditions.map((c) => evaluateCompletionCondition(c, history));
+      const met =
+        condition.type === "and"
+          ? children.every((c) => c.met)
+          : children.some((c) => c.met);
+      return {
+        met,
+        description: condition.type === "and" ? "ALL of:" : "ANY of:",
+        children,
+      };
+    }
+    case "not": {
+      const child = evaluateCompletionCondition(condition.condition, history);
+      return { met: !child.met, description: "NOT:", children: [child] };
+    }
+  }
+}
+
+/**
+ * Format an evaluated condition as an indented checklist
+ */
+export function formatConditionStatus(
+  status: CompletionConditionStatus,
+  indent: string = "  "
+): string[] {
+  const lines = [`${indent}${status.met ? "✓" : "✗"} ${status.description}`];
+  for (const child of status.children || []) {
+    lines.push(...formatConditionStatus(child, `${indent}  `));
+  }
+  return lines;
+}
@@ -0,0 +1,122 @@
+/**
+ * Export Tests for Ralph Wiggum MCP Server
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { mkdirSync, mkdtempSync, realpathSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { RalphExportSource, exportLoop, isStoragePath } from "./export.js";
+
+const source: RalphExportSource = {
+  status: "completed",
+  archiveId: "auth-20260301T101000Z",
+  reason: "Completion promise detected: <promise>DONE</promise>",
+  endedAt: "2026-03-01T10:10:00.000Z",
+  state: {
+    id: "auth",
+    active: false,
+    iteration: 3,
+    maxIterations: 10,
+    completionPromise: "DONE",
+    startedAt: "2026-03-01T10:00:00.000Z",
+    prompt: "Fix the | auth flow\nSecond line",
+    gitEnabled: false,
+    autoCommit: false,
+    history: [
+      {
+        iteration: 1,
+        timestamp: "2026-03-01T10:01:00.000Z",
+        duration: 65000,
+        output: "=SUM(A1) tried, \"quoted\", <b>",
+        completionDetected: false,
+        filesModified: ["src/auth.ts", "src/session.ts"],
+        errors: ["TypeError: x is <undefined>"],
+        externalToolsRun: [
+          { name: "jest", command: "npm test", exitCode: 1, output: "FAIL auth.test.ts \u001b[31m<x>", duration: 1500 },
+          { name: "eslint", command: "npx eslint .", exitCode: 0, output: "", duration: 500 },
+        ],
+      },
+      {
+        iteration: 2,
+        timestamp: "2026-03-01T10:05:00.000Z",
+        duration: 30000,
+        output: "<promise>DONE</promise>",
+        completionDetected: true,
+        externalToolsRun: [{ name: "jest", command: "npm test", exitCode: 0, output: "PASS", duration: 1200 }],
+      },
+    ],
+  },
+};
+
+describe("exportLoop", () => {
+  it("should write a Markdown summary with an iteration table", () => {
+    const markdown = exportLoop(source, "markdown", "2026-03-02T00:00:00.000Z");
+    expect(markdown).toContain("## Ralph loop `auth`: completed");
+    expect(markdown).toContain("> Fix the \\| auth flow");
+    expect(markdown).toContain("| 2 | 1m 35s | 2 | 3 (1 failed) | 1 |");
+    expect(markdown).toContain("| 1 | 2026-03-01 10:01 | 1m 5s | 2 | 1 | ✗ jest, ✓ eslint | failed |");
+    expect(markdown).toContain("| 2 | 2026-03-01 10:05 | 30s | 0 | 0 | ✓ jest | completed |");
+    expect(markdown).toContain("- `src/session.ts`");
+    expect(markdown).toContain("<summary>Errors (1)</summary>");
+  });
+
+  it("should write raw JSON", () => {
+    const json = JSON.parse(exportLoop(source, "json", "2026-03-02T00:00:00.000Z"));
+    expect(json.exportedAt).toBe("2026-03-02T00:00:00.000Z");
+    expect(json.state.history).toHaveLength(2);
+    expect(json.archiveId).toBe(source.archiveId);
+  });
+
+  it("should write one CSV row per iteration, neutralizing formulas", () => {
+    const rows = exportLoop(source, "csv").trim().split("\r\n");
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toMatch(/^loop_id,iteration,timestamp,duration_ms,result,/);
+    expect(rows[1]).toBe(
+      `auth,1,2026-03-01T10:01:00.000Z,65000,failed,false,src/auth.ts; src/session.ts,,TypeError: x is <undefined>,eslint,jest,,,,"'=SUM(A1) tried, ""quoted"", <b>"`
+    );
+    expect(rows[2]).toContain(",completed,true,");
+  });
+
+  it("should write JUnit XML with tool runs as test cases", () => {
+    const xml = exportLoop(source, "junit");
+    expect(xml).toContain('<testsuites name="ralph loop auth" tests="3" failures="1" errors="0" time="3.200">');
+    expect(xml).toContain('<testsuite name="auth iteration 1" tests="2" failures="1"');
+    expect(xml).toContain('<testcase classname="ralph.auth.iteration-1" name="eslint" time="0.500"/>');
+    expect(xml).toContain(
+      '<failure message="npm test exited with code 1" type="exit-code-1">FAIL auth.test.ts [31m&lt;x&gt;</failure>'
+    );
+    expect(xml).not.toContain("\u001b");
+  });
+
+  it("should write a self-contained HTML report with a timeline", () => {
+    const html = exportLoop(source, "html");
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<ol class="timeline">');
+    expect(html).toContain('<li class="failed">');
+    expect(html).toContain('<li class="completed">');
+    expect(html).toContain("TypeError: x is &lt;undefined&gt;");
+    expect(html).not.toMatch(/<script|<link|src="http/);
+  });
+});
+
+describe("isStoragePath", () => {
+  it("should match storage paths and anything below them", () => {
+    const dir = realpathSync(mkdtempSync(join(tmpdir(), "ralph-export-")));
+    try {
+      mkdirSync(join(dir, ".ralph"));
+      const fileStorage = [join(dir, ".ralph")];
+      const sqliteStorage = [join(dir, "ralph.db"), join(dir, "ralph.db.blobs"), join(dir, "ralph.db.lock")];
+
+      expect(isStoragePath(join(dir, ".ralph", "auth", "state.json"), fileStorage)).toBe(true);
+      expect(isStoragePath(join(dir, ".ralph"), fileStorage)).toBe(true);
+      expect(isStoragePath(join(dir, "ralph.db"), sqliteStorage)).toBe(true);
+      expect(isStoragePath(join(dir, "ralph.db.blobs", "ab", "cd"), sqliteStorage)).toBe(true);
+      expect(isStoragePath(join(dir, "ralph-exports", "auth.md"), fileStorage)).toBe(false);
+      expect(isStoragePath(join(dir, ".ralph-notes.md"), fileStorage)).toBe(false);
+      expect(isStoragePath(join(dir, "ralph.db.md"), sqliteStorage)).toBe(false);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
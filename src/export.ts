@@ -0,0 +1,471 @@
+/**
+ * Loop History Exports for Ralph Wiggum Loops
+ *
+ * Renders a loop and its full iteration history as Markdown (for PR
+ * descriptions), raw JSON, CSV (one row per iteration), JUnit XML (tool
+ * runs as test cases, for CI viewers) or a self-contained HTML report.
+ */
+
+import { existsSync, realpathSync } from "fs";
+import { basename, dirname, isAbsolute, join, relative, resolve } from "path";
+import type { RalphIterationHistoryEntry, RalphLoopState } from "./ralph.js";
+
+// Default directory for exports, relative to the working directory. Git
+// operations leave it alone, so exports are neither auto-committed nor
+// removed by a rollback.
+export const EXPORT_DIR = "ralph-exports";
+
+export type RalphExportFormat = "markdown" | "json" | "csv" | "junit" | "html";
+
+export const EXPORT_FORMATS: Record<RalphExportFormat, { extension: string; description: string }> = {
+  markdown: { extension: "md", description: "Markdown summary for PR descriptions" },
+  json: { extension: "json", description: "Raw JSON of the loop and its history" },
+  csv: { extension: "csv", description: "CSV with one row per iteration" },
+  junit: { extension: "xml", description: "JUnit XML with tool runs as test cases" },
+  html: { extension: "html", description: "Self-contained HTML report with a timeline" },
+};
+
+export interface RalphExportSource {
+  state: RalphLoopState; // with the full (not compacted) history
+  status: string; // "active", "paused", or how an archived loop ended
+  archiveId?: string;
+  reason?: string; // why an archived loop ended
+  endedAt?: string;
+}
+
+type IterationResult = "completed" | "failed" | "passed" | "no checks";
+
+interface LoopSummary {
+  iterations: number;
+  durationMs: number;
+  files: string[];
+  toolRuns: number;
+  toolFailures: number;
+  errors: number;
+  tokens: number;
+  cost: number;
+}
+
+/**
+ * Render a loop in an export format
+ */
+export function exportLoop(
+  source: RalphExportSource,
+  format: RalphExportFormat,
+  exportedAt: string = new Date().toISOString()
+): string {
+  switch (format) {
+    case "markdown":
+      return exportMarkdown(source, exportedAt);
+    case "json":
+      return JSON.stringify({ exportedAt, ...source }, null, 2) + "\n";
+    case "csv":
+      return exportCsv(source);
+    case "junit":
+      return exportJunit(source);
+    case "html":
+      return exportHtml(source, exportedAt);
+  }
+}
+
+/**
+ * Total up a loop's history
+ */
+function summarize(history: RalphIterationHistoryEntry[]): LoopSummary {
+  const summary: LoopSummary = {
+    iterations: history.length,
+    durationMs: 0,
+    files: [],
+    toolRuns: 0,
+    toolFailures: 0,
+    errors: 0,
+    tokens: 0,
+    cost: 0,
+  };
+  const files = new Set<string>();
+
+  for (const entry of history) {
+    summary.durationMs += entry.duration || 0;
+    (entry.filesModified || []).forEach((file) => files.add(file));
+    for (const tool of entry.externalToolsRun || []) {
+      summary.toolRuns++;
+      if (tool.exitCode !== 0) summary.toolFailures++;
+    }
+    summary.errors += entry.errors?.length || 0;
+    summary.tokens += entry.usage?.tokens || 0;
+    summary.cost += entry.usage?.cost || 0;
+  }
+
+  summary.files = Array.from(files).sort();
+  return summary;
+}
+
+/**
+ * Classify an iteration for tables and the timeline
+ */
+function getIterationResult(entry: RalphIterationHistoryEntry): IterationResult {
+  if (entry.completionDetected) return "completed";
+  const tools = entry.externalToolsRun || [];
+  if ((entry.errors?.length || 0) > 0 || tools.some((tool) => tool.exitCode !== 0)) {
+    return "failed";
+  }
+  return tools.length > 0 ? "passed" : "no checks";
+}
+
+/**
+ * Format milliseconds as e.g. "2m 5s"
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * First line of a prompt, shortened for headings
+ */
+function promptSummary(prompt: string): string {
+  const firstLine = prompt.trim().split("\n")[0];
+  return firstLine.length > 200 ? `${firstLine.substring(0, 200)}...` : firstLine;
+}
+
+function formatToolRuns(summary: LoopSummary): string {
+  return `${summary.toolRuns}${summary.toolFailures > 0 ? ` (${summary.toolFailures} failed)` : ""}`;
+}
+
+/**
+ * Markdown summary, sized for a PR description
+ */
+function exportMarkdown(source: RalphExportSource, exportedAt: string): string {
+  const { state } = source;
+  const history = state.history;
+  const summary = summarize(history);
+  const cell = (text: string) => text.replace(/\|/g, "\\|").replace(/\s+/g, " ").trim();
+  const lines: string[] = [];
+
+  lines.push(`## Ralph loop \`${state.id}\`: ${source.status}`);
+  lines.push("");
+  lines.push(`> ${cell(promptSummary(state.prompt))}`);
+  lines.push("");
+  if (source.reason) {
+    lines.push(`**Result:** ${source.reason}`);
+    lines.push("");
+  }
+
+  lines.push("| Iterations | Time | Files modified | Tool runs | Errors |");
+  lines.push("|---|---|---|---|---|");
+  lines.push(
+    `| ${summary.iterations} | ${formatDuration(summary.durationMs)} | ${summary.files.length} | ${formatToolRuns(
+      summary
+    )} | ${summary.errors} |`
+  );
+  lines.push("");
+
+  if (history.length > 0) {
+    lines.push("### Iterations");
+    lines.push("");
+    lines.push("| # | Time | Duration | Files | Errors | Tools | Result |");
+    lines.push("|---|---|---|---|---|---|---|");
+    for (const entry of history) {
+      const tools = (entry.externalToolsRun || [])
+        .map((tool) => `${tool.exitCode === 0 ? "✓" : "✗"} ${tool.name}`)
+        .join(", ");
+      lines.push(
+        `| ${entry.iteration} | ${entry.timestamp.replace("T", " ").substring(0, 16)} | ${
+          entry.duration !== undefined ? formatDuration(entry.duration) : ""
+        } | ${entry.filesModified?.length || 0} | ${entry.errors?.length || 0} | ${cell(
+          tools
+        )} | ${getIterationResult(entry)} |`
+      );
+    }
+    lines.push("");
+  }
+
+  if (summary.files.length > 0) {
+    lines.push("### Files modified");
+    lines.push("");
+    summary.files.slice(0, 50).forEach((file) => lines.push(`- \`${file}\``));
+    if (summary.files.length > 50) {
+      lines.push(`- ... and ${summary.files.length - 50} more`);
+    }
+    lines.push("");
+  }
+
+  const errors = history.flatMap((entry) =>
+    (entry.errors || []).map((error) => `- Iteration ${entry.iteration}: \`${cell(error).substring(0, 200).replace(/`/g, "'")}\``)
+  );
+  if (errors.length > 0) {
+    lines.push("<details>");
+    lines.push(`<summary>Errors (${errors.length})</summary>`);
+    lines.push("");
+    lines.push(...errors.slice(0, 50));
+    lines.push("");
+    lines.push("</details>");
+    lines.push("");
+  }
+
+  lines.push(`<sub>Exported by ralph-wiggum-mcp at ${exportedAt}</sub>`);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Quote a CSV cell (SECURE: text cells starting with a formula character
+ * are prefixed with a quote, so spreadsheets do not evaluate them)
+ */
+function csvCell(value: string | number | boolean | undefined): string {
+  if (value === undefined) return "";
+  if (typeof value !== "string") return String(value);
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV with one row per iteration; list fields are joined with "; "
+ */
+function exportCsv(source: RalphExportSource): string {
+  const header = [
+    "loop_id",
+    "iteration",
+    "timestamp",
+    "duration_ms",
+    "result",
+    "completion_detected",
+    "files_modified",
+    "commands_run",
+    "errors",
+    "tools_passed",
+    "tools_failed",
+    "tokens",
+    "cost",
+    "git_commit",
+    "output",
+  ];
+  const rows = [header.join(",")];
+
+  for (const entry of source.state.history) {
+    const tools = entry.externalToolsRun || [];
+    rows.push(
+      [
+        source.state.id,
+        entry.iteration,
+        entry.timestamp,
+        entry.duration,
+        getIterationResult(entry),
+        entry.completionDetected,
+        (entry.filesModified || []).join("; "),
+        (entry.commandsRun || []).join("; "),
+        (entry.errors || []).join("; "),
+        tools.filter((tool) => tool.exitCode === 0).map((tool) => tool.name).join("; "),
+        tools.filter((tool) => tool.exitCode !== 0).map((tool) => tool.name).join("; "),
+        entry.usage?.tokens,
+        entry.usage?.cost,
+        entry.gitCommit,
+        entry.output,
+      ]
+        .map(csvCell)
+        .join(",")
+    );
+  }
+
+  return rows.join("\r\n") + "\r\n";
+}
+
+/**
+ * Escape text for XML and HTML, dropping control characters that XML
+ * does not allow (e.g. terminal color codes in tool output)
+ */
+function escapeMarkup(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * JUnit XML: one test suite per iteration that ran tools, one test case
+ * per tool run. Failing runs carry the tool output.
+ */
+function exportJunit(source: RalphExportSource): string {
+  const { state } = source;
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const suites: string[] = [];
+  let tests = 0;
+  let failures = 0;
+  let totalMs = 0;
+
+  for (const entry of state.history) {
+    const tools = entry.externalToolsRun || [];
+    if (tools.length === 0) continue;
+
+    const suiteFailures = tools.filter((tool) => tool.exitCode !== 0).length;
+    const suiteMs = tools.reduce((sum, tool) => sum + tool.duration, 0);
+    tests += tools.length;
+    failures += suiteFailures;
+    totalMs += suiteMs;
+
+    const cases = tools.map((tool) => {
+      const attributes = `classname="${escapeMarkup(`ralph.${state.id}.iteration-${entry.iteration}`)}" name="${escapeMarkup(
+        tool.name
+      )}" time="${seconds(tool.duration)}"`;
+      if (tool.exitCode === 0) {
+        return `    <testcase ${attributes}/>`;
+      }
+      return [
+        `    <testcase ${attributes}>`,
+        `      <failure message="${escapeMarkup(`${tool.command} exited with code ${tool.exitCode}`)}" type="exit-code-${tool.exitCode}">${escapeMarkup(
+          tool.output
+        )}</failure>`,
+        `    </testcase>`,
+      ].join("\n");
+    });
+
+    suites.push(
+      [
+        `  <testsuite name="${escapeMarkup(`${state.id} iteration ${entry.iteration}`)}" tests="${
+          tools.length
+        }" failures="${suiteFailures}" errors="0" skipped="0" time="${seconds(suiteMs)}" timestamp="${escapeMarkup(
+          entry.timestamp
+        )}">`,
+        ...cases,
+        `  </testsuite>`,
+      ].join("\n")
+    );
+  }
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="${escapeMarkup(`ralph loop ${state.id}`)}" tests="${tests}" failures="${failures}" errors="0" time="${seconds(
+      totalMs
+    )}">`,
+    ...suites,
+    `</testsuites>`,
+    "",
+  ].join("\n");
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 2rem auto; max-width: 960px; padding: 0 1rem; color: #1f2328; }
+h1 code { font-size: 0.9em; }
+.badge { display: inline-block; padding: 0.1rem 0.6rem; border-radius: 1rem; font-size: 0.8rem; background: #eaeef2; vertical-align: middle; }
+.prompt { white-space: pre-wrap; background: #f6f8fa; border-left: 4px solid #d0d7de; padding: 0.75rem 1rem; }
+.cards { display: flex; flex-wrap: wrap; gap: 0.75rem; margin: 1rem 0; }
+.card { border: 1px solid #d0d7de; border-radius: 6px; padding: 0.5rem 1rem; min-width: 7rem; }
+.card span { display: block; font-size: 0.75rem; color: #59636e; }
+.card strong { font-size: 1.3rem; }
+.timeline { list-style: none; padding-left: 1.5rem; border-left: 2px solid #d0d7de; }
+.timeline li { position: relative; margin-bottom: 1rem; }
+.timeline li::before { content: ""; position: absolute; left: -2.05rem; top: 0.3rem; width: 0.9rem; height: 0.9rem; border-radius: 50%; background: #8c959f; }
+.timeline li.completed::before { background: #0969da; }
+.timeline li.passed::before { background: #1a7f37; }
+.timeline li.failed::before { background: #cf222e; }
+.timeline h3 { margin: 0; font-size: 1rem; }
+.when { font-size: 0.8rem; color: #59636e; }
+.pass { color: #1a7f37; }
+.fail { color: #cf222e; }
+pre { white-space: pre-wrap; background: #f6f8fa; padding: 0.5rem; max-height: 20rem; overflow: auto; font-size: 0.8rem; }
+footer { margin-top: 2rem; font-size: 0.8rem; color: #59636e; }
+`;
+
+/**
+ * Self-contained HTML report (inline styles, no scripts or external
+ * resources) with summary cards and an iteration timeline
+ */
+function exportHtml(source: RalphExportSource, exportedAt: string): string {
+  const { state } = source;
+  const summary = summarize(state.history);
+  const e = escapeMarkup;
+  const list = (items: string[]) => `<ul>${items.map((item) => `<li>${item}</li>`).join("")}</ul>`;
+
+  const cards: [string, string][] = [
+    ["Iterations", String(summary.iterations)],
+    ["Time", formatDuration(summary.durationMs)],
+    ["Files modified", String(summary.files.length)],
+    ["Tool runs", formatToolRuns(summary)],
+    ["Errors", String(summary.errors)],
+  ];
+  if (summary.tokens > 0) cards.push(["Tokens", String(summary.tokens)]);
+  if (summary.cost > 0) cards.push(["Cost", summary.cost.toFixed(2)]);
+
+  const timeline = state.history.map((entry) => {
+    const result = getIterationResult(entry);
+    const details: string[] = [];
+    if (entry.filesModified?.length) {
+      details.push(`<p>Files modified:</p>${list(entry.filesModified.map((file) => `<code>${e(file)}</code>`))}`);
+    }
+    if (entry.commandsRun?.length) {
+      details.push(`<p>Commands run:</p>${list(entry.commandsRun.map((command) => `<code>${e(command)}</code>`))}`);
+    }
+    if (entry.errors?.length) {
+      details.push(`<p>Errors:</p>${list(entry.errors.map((error) => e(error)))}`);
+    }
+    if (entry.externalToolsRun?.length) {
+      details.push(
+        `<p>Tools:</p>${list(
+          entry.externalToolsRun.map((tool) =>
+            tool.exitCode === 0
+              ? `<span class="pass">✓</span> ${e(tool.name)} (${formatDuration(tool.duration)})`
+              : `<span class="fail">✗</span> ${e(tool.name)} - exit code ${tool.exitCode}<pre>${e(tool.output)}</pre>`
+          )
+        )}`
+      );
+    }
+    if (entry.promiseRejected) {
+      details.push(`<p>Completion promise rejected:</p><pre>${e(entry.promiseRejected)}</pre>`);
+    }
+    details.push(`<details><summary>Output</summary><pre>${e(entry.output)}</pre></details>`);
+
+    return [
+      `<li class="${result === "no checks" ? "neutral" : result}">`,
+      `<div class="when">${e(entry.timestamp)}${entry.duration !== undefined ? ` · ${formatDuration(entry.duration)}` : ""}</div>`,
+      `<h3>Iteration ${entry.iteration} <span class="badge">${result}</span></h3>`,
+      ...details,
+      `</li>`,
+    ].join("\n");
+  });
+
+  return [
+    `<!DOCTYPE html>`,
+    `<html lang="en">`,
+    `<head>`,
+    `<meta charset="utf-8">`,
+    `<title>Ralph loop ${e(state.id)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    `</head>`,
+    `<body>`,
+    `<h1>Ralph loop <code>${e(state.id)}</code> <span class="badge">${e(source.status)}</span></h1>`,
+    `<div class="prompt">${e(state.prompt)}</div>`,
+    source.reason ? `<p><strong>Result:</strong> ${e(source.reason)}</p>` : "",
+    `<p class="when">Started ${e(state.startedAt)}${source.endedAt ? ` · ended ${e(source.endedAt)}` : ""}</p>`,
+    `<div class="cards">${cards
+      .map(([label, value]) => `<div class="card"><span>${e(label)}</span><strong>${e(value)}</strong></div>`)
+      .join("")}</div>`,
+    `<h2>Timeline</h2>`,
+    state.history.length > 0 ? `<ol class="timeline">\n${timeline.join("\n")}\n</ol>` : `<p>No iterations yet.</p>`,
+    `<footer>Exported by ralph-wiggum-mcp at ${e(exportedAt)}</footer>`,
+    `</body>`,
+    `</html>`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Check whether an export target would overwrite the loops' storage: a
+ * storage path itself or anything below it (symlinks in the storage paths
+ * are resolved, as the target is a real path)
+ */
+export function isStoragePath(target: string, storagePaths: string[]): boolean {
+  return storagePaths.some((path) => {
+    const full = resolve(path);
+    const real = existsSync(full)
+      ? realpathSync(full)
+      : join(existsSync(dirname(full)) ? realpathSync(dirname(full)) : dirname(full), basename(full));
+    const relativePath = relative(real, target);
+    return relativePath === "" || (!relativePath.startsWith("..") && !isAbsolute(relativePath));
+  });
+}
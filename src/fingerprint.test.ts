@@ -0,0 +1,80 @@
+/**
+ * Error Fingerprinting Tests for Ralph Wiggum MCP Server
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { clusterErrors, fingerprintError, formatErrorCluster } from "./fingerprint.js";
+
+describe("Error fingerprinting", () => {
+  it("should pick the identifying line of each language's errors", () => {
+    const python = fingerprintError(
+      [
+        "Traceback (most recent call last):",
+        '  File "/home/ci/app/main.py", line 12, in <module>',
+        "    run()",
+        "KeyError: 'user_42'",
+      ].join("\n")
+    );
+    expect(python).toEqual({ key: "KeyError: '<id>'", message: "KeyError: 'user_42'", language: "python" });
+
+    const rust = fingerprintError(
+      "thread 'main' panicked at src/main.rs:4:5:\nindex out of bounds: the len is 3 but the index is 7"
+    );
+    expect(rust.language).toBe("rust");
+    expect(rust.key).toBe(
+      "thread <id> panicked at <path>: index out of bounds: the len is <n> but the index is <n>"
+    );
+
+    const go = fingerprintError(
+      "panic: runtime error: index out of range [5] with length 3\n\ngoroutine 1 [running]:\nmain.main()"
+    );
+    expect(go.language).toBe("go");
+    expect(go.key).toBe("panic: runtime error: index out of range [<n>] with length <n>");
+
+    const ts = fingerprintError("src/app.ts(10,5): error TS2304: Cannot find name 'foo'.");
+    expect(ts.language).toBe("typescript");
+    expect(ts.key).toBe("<path>: error TS2304: Cannot find name '<id>'.");
+    expect(fingerprintError("src/lib/util.ts:3:1 - error TS2304: Cannot find name 'bar'.").key).toBe(ts.key);
+  });
+
+  it("should replace paths, addresses, IDs and timestamps", () => {
+    const windows = fingerprintError("ENOENT: no such file C:\\Users\\ci\\repo\\config.json");
+    const unix = fingerprintError("ENOENT: no such file /home/ci/repo/config.json");
+    expect(windows.key).toBe("ENOENT: no such file <path>");
+    expect(unix.key).toBe(windows.key);
+
+    expect(fingerprintError("Segfault at 0x7ffe3a2b in worker 9f86d081884c7d659a2f").key).toBe(
+      "Segfault at <hex> in worker <hex>"
+    );
+    expect(
+      fingerprintError("Job 3fa85f64-5717-4562-b3fc-2c963f66afa6 failed at 2026-05-01T12:30:00.123Z").key
+    ).toBe("Job <uuid> failed at <time>");
+    expect(fingerprintError("Cannot write /tmp/jest_rs/cache-123/file.json").key).toBe("Cannot write <tmp>");
+    expect(fingerprintError("Cannot write /var/folders/xy/T/tmp-4821-abc/out").key).toBe("Cannot write <tmp>");
+    expect(fingerprintError('Unexpected token "}" in config.yaml').key).toBe("Unexpected token '<id>' in config.yaml");
+    expect(fingerprintError("\n\n").key).toBe("");
+  });
+
+  it("should cluster near-duplicate errors with counts and iteration ranges", () => {
+    const clusters = clusterErrors([
+      { error: "TypeError: Cannot read properties of undefined (reading 'id') at /app/a.js:3:9", iteration: 2 },
+      { error: "TypeError: Cannot read properties of undefined (reading 'name') at /app/b.js:7:1", iteration: 3 },
+      { error: "Build failed with 2 errors", iteration: 3 },
+      { error: "TypeError: Cannot read properties of undefined (reading 'name') at /app/b.js:7:1", iteration: 5 },
+      { error: "TypeError: Cannot read properties of null (reading 'id') in handler /app/c.js", iteration: 5 },
+      { error: "Build failed with 5 errors", iteration: 6 },
+    ]);
+
+    expect(clusters).toHaveLength(3);
+    expect(clusters[0]).toMatchObject({
+      count: 3,
+      iterations: 3,
+      firstIteration: 2,
+      lastIteration: 5,
+      message: "TypeError: Cannot read properties of undefined (reading 'name') at /app/b.js:7:1",
+    });
+    expect(clusters[1]).toMatchObject({ key: "Build failed with <n> errors", count: 2, firstIteration: 3, lastIteration: 6 });
+    expect(clusters[2].count).toBe(1);
+    expect(formatErrorCluster(clusters[1])).toBe("Build failed with 2 errors (2× in 2 iteration(s), #3-#6)");
+  });
+});
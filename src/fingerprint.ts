@@ -0,0 +1,241 @@
+/**
+ * Error Fingerprinting for Ralph Wiggum Loops
+ *
+ * Reduces error messages to fingerprints that stay the same across runs:
+ * the relevant line of a stack trace is picked per language, then paths,
+ * positions, addresses, IDs, timestamps, quoted identifiers and numbers are
+ * replaced by placeholders. Near-duplicate fingerprints are clustered, so
+ * repeated errors are counted once however their details vary.
+ */
+
+export type RalphErrorLanguage = "typescript" | "python" | "rust" | "go";
+
+export interface RalphErrorFingerprint {
+  key: string;
+  message: string; // the line of the error the key was built from
+  language?: RalphErrorLanguage;
+}
+
+export interface RalphErrorOccurrence {
+  error: string;
+  iteration: number;
+}
+
+export interface RalphErrorCluster {
+  key: string; // fingerprint of the first error in the cluster
+  message: string; // representative message: the most frequent variant
+  count: number; // occurrences, including repeats within an iteration
+  iterations: number; // distinct iterations the error occurred in
+  firstIteration: number;
+  lastIteration: number;
+  language?: RalphErrorLanguage;
+}
+
+const CLUSTER_SIMILARITY = 0.8; // token overlap for near-duplicates to share a cluster
+const MAX_MESSAGE_CHARS = 500;
+
+interface LanguageRule {
+  language: RalphErrorLanguage;
+  detect: RegExp;
+  /** Pick the line that identifies the error */
+  extract: (lines: string[]) => string;
+  /** Language-specific noise, replaced before the generic rules */
+  replacements: [RegExp, string][];
+}
+
+const firstLine = (lines: string[]): string => lines[0];
+
+const LANGUAGE_RULES: LanguageRule[] = [
+  {
+    // Tracebacks end with the exception; the frames above it vary
+    language: "python",
+    detect: /^Traceback \(most recent call last\)|^\s*File ".+", line \d+/m,
+    extract: (lines) =>
+      [...lines].reverse().find((line) => /^[A-Za-z_][\w.]*(Error|Exception|Warning|Exit|Interrupt)\b/.test(line)) ??
+      lines[lines.length - 1],
+    replacements: [[/\bat 0x[0-9a-f]+/gi, "at <hex>"]],
+  },
+  {
+    // rustc errors and panics; a panic's message may be on the next line
+    language: "rust",
+    detect: /^error(\[E\d{4}\])?: |^\s*--> \S+:\d+:\d+|^thread '[^']*' panicked at/m,
+    extract: (lines) => {
+      const panic = lines.findIndex((line) => /^thread '[^']*' panicked at/.test(line));
+      if (panic >= 0) {
+        return /:$/.test(lines[panic]) && lines[panic + 1] ? `${lines[panic]} ${lines[panic + 1]}` : lines[panic];
+      }
+      return lines.find((line) => /^error/.test(line)) ?? lines[0];
+    },
+    replacements: [[/^thread '[^']*'/, "thread <id>"]],
+  },
+  {
+    language: "go",
+    detect: /^panic: |^goroutine \d+ \[|^\S+\.go:\d+(:\d+)?: /m,
+    extract: (lines) => lines.find((line) => /^panic: /.test(line)) ?? lines[0],
+    replacements: [
+      [/\bgoroutine \d+/g, "goroutine <n>"],
+      [/\[(\d+)\]/g, "[<n>]"],
+    ],
+  },
+  {
+    language: "typescript",
+    detect: /\berror TS\d+\b|\.[cm]?[jt]sx?[(:]\d+|^\s+at .+[(\s]\S+:\d+:\d+\)?$/m,
+    extract: (lines) => lines.find((line) => /\berror TS\d+\b/.test(line)) ?? lines[0],
+    // tsc prefixes: "src/a.ts(10,5): error TS2304" and "src/a.ts:10:5 - error TS2304"
+    replacements: [[/^\S+?(\(\d+,\d+\)|:\d+:\d+)(:| -) /, "<path>: "]],
+  },
+];
+
+/**
+ * Generic noise, in order: earlier rules protect what later ones would split
+ */
+const GENERIC_REPLACEMENTS: [RegExp, string][] = [
+  // ISO timestamps (before numbers and positions)
+  [/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?/g, "<time>"],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<uuid>"],
+  [/\b0x[0-9a-f]+\b/gi, "<hex>"],
+  // Temp directories, before they are matched as ordinary paths
+  [/(?:\/private)?\/var\/folders\/[^\s'"`),]+|\/tmp\/[^\s'"`),]+|[A-Za-z]:\\[^\s'"`]*\\Temp\\[^\s'"`),]+/gi, "<tmp>"],
+  [/\b(?:tmp|temp)[-_][\w-]+/gi, "<tmp>"],
+  // Windows paths (drive or UNC)
+  [/\b[A-Za-z]:\\[^\s'"`),]+|\\\\[^\s\\'"`]+\\[^\s'"`),]+/g, "<path>"],
+  // Unix paths: absolute, ./ or ../, or relative with a file extension
+  [/(?:\.{1,2})?\/[^\s'"`),]+|\b[\w.-]+(?:\/[\w.-]+)+\.\w+\b/g, "<path>"],
+  [/\b[0-9a-f]{12,}\b/gi, "<hex>"],
+  // Quoted identifiers and values
+  [/'[^'\n]*'|"[^"\n]*"|`[^`\n]*`|‘[^’\n]*’|“[^”\n]*”/g, "'<id>'"],
+  // Positions, then any remaining number
+  [/(<path>|<tmp>)(:\d+)+|(<path>|<tmp>)\(\d+(,\d+)?\)/g, "$1$3"],
+  [/\b\d+(\.\d+)?\b/g, "<n>"],
+  [/\s+/g, " "],
+];
+
+/**
+ * Fingerprint an error message
+ */
+export function fingerprintError(error: string): RalphErrorFingerprint {
+  const lines = error
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .filter((line) => line.trim().length > 0);
+  if (lines.length === 0) {
+    return { key: "", message: "" };
+  }
+
+  const rule = LANGUAGE_RULES.find((candidate) => candidate.detect.test(error));
+  const message = (rule ? rule.extract(lines) : firstLine(lines)).trim().substring(0, MAX_MESSAGE_CHARS);
+
+  let key = message;
+  for (const [pattern, replacement] of [...(rule?.replacements ?? []), ...GENERIC_REPLACEMENTS]) {
+    key = key.replace(pattern, replacement);
+  }
+  return { key: key.trim(), message, language: rule?.language };
+}
+
+/**
+ * Split a fingerprint into tokens for fuzzy comparison
+ */
+function tokenize(key: string): string[] {
+  return key.toLowerCase().split(/[^\w<>'[\]]+/).filter(Boolean);
+}
+
+/**
+ * Jaccard similarity of two token sets. Fingerprints of different error
+ * types (the first token, e.g. "TypeError" or "error[E0308]") never match.
+ */
+function tokenSimilarity(a: string[], b: string[]): number {
+  if (a[0] !== b[0]) {
+    return 0;
+  }
+  const setA = new Set(a);
+  const setB = new Set(b);
+  let shared = 0;
+  for (const token of setA) {
+    if (setB.has(token)) shared++;
+  }
+  const union = setA.size + setB.size - shared;
+  return union === 0 ? 1 : shared / union;
+}
+
+/**
+ * Group errors by fingerprint, merging near-duplicate fingerprints, in the
+ * order clusters first occurred
+ */
+export function clusterErrors(occurrences: RalphErrorOccurrence[]): RalphErrorCluster[] {
+  const clusters: {
+    cluster: RalphErrorCluster;
+    tokens: string[];
+    iterations: Set<number>;
+    variants: Map<string, number>;
+  }[] = [];
+  const byKey = new Map<string, (typeof clusters)[number]>();
+
+  for (const { error, iteration } of occurrences) {
+    const fingerprint = fingerprintError(error);
+    if (!fingerprint.key) continue;
+
+    let match = byKey.get(fingerprint.key);
+    if (!match) {
+      const tokens = tokenize(fingerprint.key);
+      let best = CLUSTER_SIMILARITY;
+      for (const candidate of clusters) {
+        const similarity = tokenSimilarity(tokens, candidate.tokens);
+        if (similarity >= best) {
+          best = similarity;
+          match = candidate;
+        }
+      }
+      if (!match) {
+        match = {
+          cluster: {
+            key: fingerprint.key,
+            message: fingerprint.message,
+            count: 0,
+            iterations: 0,
+            firstIteration: iteration,
+            lastIteration: iteration,
+            language: fingerprint.language,
+          },
+          tokens,
+          iterations: new Set(),
+          variants: new Map(),
+        };
+        clusters.push(match);
+      }
+      byKey.set(fingerprint.key, match);
+    }
+
+    const { cluster } = match;
+    cluster.count++;
+    cluster.firstIteration = Math.min(cluster.firstIteration, iteration);
+    cluster.lastIteration = Math.max(cluster.lastIteration, iteration);
+    match.iterations.add(iteration);
+    match.variants.set(fingerprint.message, (match.variants.get(fingerprint.message) || 0) + 1);
+  }
+
+  return clusters.map(({ cluster, iterations, variants }) => {
+    // Most frequent variant; the earliest one wins a tie
+    let message = cluster.message;
+    let highest = 0;
+    for (const [variant, count] of variants) {
+      if (count > highest) {
+        message = variant;
+        highest = count;
+      }
+    }
+    return { ...cluster, message, iterations: iterations.size };
+  });
+}
+
+/**
+ * Format a cluster, e.g. "TypeError: x is undefined" (4× in 3 iterations, #2-#6)
+ */
+export function formatErrorCluster(cluster: RalphErrorCluster, maxChars: number = 100): string {
+  const message =
+    cluster.message.length > maxChars ? `${cluster.message.substring(0, maxChars)}...` : cluster.message;
+  const span =
+    cluster.firstIteration === cluster.lastIteration
+      ? `#${cluster.firstIteration}`
+      : `#${cluster.firstIteration}-#${cluster.lastIteration}`;
+  return `${message} (${cluster.count}× in ${cluster.iterations} iteration(s), ${span})`;
+}
@@ -5,9 +5,10 @@
  * and analyzing differences between iterations.
  */
 
-import { execSync, spawnSync } from "child_process";
-import { existsSync } from "fs";
-import { normalize, resolve } from "path";
+import { execSync, spawnSync, SpawnSyncReturns } from "child_process";
+import { copyFileSync, existsSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { isAbsolute, join, normalize, relative, resolve } from "path";
 
 export interface GitStatus {
   exists: boolean;
@@ -25,6 +26,15 @@ export interface GitCommitResult {
   error?: string;
 }
 
+export interface GitRollbackResult {
+  success: boolean;
+  previousHead?: string;
+  discardedCommits: string[]; // commits between the target and the previous HEAD, newest first
+  stash?: string; // stash commit of the uncommitted work, if there was any
+  files: string[]; // files that differed from the target
+  error?: string;
+}
+
 export interface GitDiffResult {
   files: string[];
   additions: number;
@@ -34,14 +44,31 @@ export interface GitDiffResult {
 
 /**
  * Git Integration Manager
+ *
+ * Paths passed as `excludePaths` (e.g. the loops' own state directory) are
+ * left out of status, commits, snapshots, stashes and rollbacks.
  */
 export class GitManager {
   private enabled: boolean;
   private workingDir: string;
+  private excludedPaths: string[]; // relative to the working directory
 
-  constructor(workingDir: string = process.cwd()) {
+  constructor(workingDir: string = process.cwd(), excludePaths: string[] = []) {
     this.workingDir = workingDir;
     this.enabled = this.checkGitAvailable();
+    this.excludedPaths = excludePaths
+      .map((path) => relative(resolve(workingDir), resolve(workingDir, path)))
+      .filter((path) => path !== "" && !path.startsWith("..") && !isAbsolute(path));
+  }
+
+  /**
+   * Pathspec for the whole working tree except the excluded paths (empty
+   * when nothing is excluded)
+   */
+  private getPathspec(): string[] {
+    return this.excludedPaths.length > 0
+      ? ["--", ".", ...this.excludedPaths.map((path) => `:(exclude)${path}`)]
+      : [];
   }
 
   /**
@@ -121,11 +148,15 @@ export class GitManager {
         stdio: "pipe",
       }).trim();
 
-      const statusOutput = execSync("git status --porcelain", {
+      const status = spawnSync("git", ["status", "--porcelain", ...this.getPathspec()], {
         cwd: this.workingDir,
         encoding: "utf-8",
         stdio: "pipe",
       });
+      if (status.status !== 0) {
+        throw new Error(status.stderr || "git status failed");
+      }
+      const statusOutput = status.stdout;
 
       const modified: string[] = [];
       const added: string[] = [];
@@ -178,10 +209,13 @@ export class GitManager {
         .substring(0, 200); // Limit length
 
       // Add all changes
-      execSync("git add -A", {
+      const add = spawnSync("git", ["add", "-A", ...this.getPathspec()], {
         cwd: this.workingDir,
         stdio: "pipe",
       });
+      if (add.status !== 0) {
+        return { success: false, error: add.stderr?.toString() || "git add failed" };
+      }
 
       // Check if there's anything to commit
       const status = this.getStatus();
@@ -447,6 +481,204 @@ export class GitManager {
     }
   }
 
+  /**
+   * Hard reset to a commit, stashing uncommitted work (including untracked
+   * files) first. Nothing is reset unless the stash succeeded. Excluded
+   * paths keep their content and are not stashed.
+   * (SECURE: validates the commit name and uses spawnSync)
+   */
+  rollback(commit: string, stashMessage: string): GitRollbackResult {
+    const failed = (error: string): GitRollbackResult => ({ success: false, discardedCommits: [], files: [], error });
+    if (!this.enabled) {
+      return failed("Git not available");
+    }
+    if (!/^[0-9a-f]{4,64}$/.test(commit)) {
+      return failed(`Invalid commit: ${commit}`);
+    }
+
+    const git = (args: string[]) =>
+      spawnSync("git", args, { cwd: this.workingDir, encoding: "utf-8", stdio: "pipe" });
+
+    try {
+      const head = git(["rev-parse", "HEAD"]);
+      const target = git(["rev-parse", "--verify", `${commit}^{commit}`]);
+      if (head.status !== 0 || target.status !== 0) {
+        return failed(`Unknown commit: ${commit}`);
+      }
+      const previousHead = head.stdout.trim();
+
+      const status = this.getStatus();
+      const changed = git(["diff", "--name-only", commit, ...this.getPathspec()]);
+      const files = Array.from(
+        new Set([...changed.stdout.split("\n").filter(Boolean), ...status.untracked])
+      ).sort();
+      const discardedCommits = git(["rev-list", `${commit}..${previousHead}`]).stdout.split("\n").filter(Boolean);
+
+      let stash: string | undefined;
+      if (!this.isClean()) {
+        const sanitizedMessage = stashMessage.replace(/[\"'`$;<>|&]/g, "").substring(0, 200);
+        const pushed = git(["stash", "push", "--include-untracked", "-m", sanitizedMessage, ...this.getPathspec()]);
+        const stashRef = git(["rev-parse", "--verify", "refs/stash"]);
+        if (pushed.status !== 0 || stashRef.status !== 0) {
+          return failed(`Failed to stash the uncommitted work: ${pushed.stderr || "git stash failed"}`);
+        }
+        stash = stashRef.stdout.trim();
+      }
+
+      const reset = this.resetTo(commit);
+      if (reset.status !== 0) {
+        return failed(`Reset failed: ${reset.stderr || "git reset failed"}${stash ? ` (work stashed as ${stash})` : ""}`);
+      }
+
+      return { success: true, previousHead, discardedCommits, stash, files };
+    } catch (error) {
+      return failed(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Hard reset to a commit. Excluded paths keep their content: the rest of
+   * the tree is restored from the commit, HEAD moved to it, and only the
+   * index entries of the excluded paths reset.
+   */
+  private resetTo(commit: string): SpawnSyncReturns<string> {
+    const git = (args: string[]) =>
+      spawnSync("git", args, { cwd: this.workingDir, encoding: "utf-8", stdio: "pipe" });
+    if (this.excludedPaths.length === 0) {
+      return git(["reset", "--hard", commit]);
+    }
+
+    for (const args of [
+      ["restore", `--source=${commit}`, "--staged", "--worktree", ...this.getPathspec()],
+      ["reset", "-q", "--soft", commit],
+    ]) {
+      const result = git(args);
+      if (result.status !== 0) {
+        return result;
+      }
+    }
+    return git(["reset", "-q", commit, "--", ...this.excludedPaths]);
+  }
+
+  /**
+   * Snapshot the working tree (including untracked, non-ignored files) as a
+   * git tree object, without touching the index, HEAD or the stash.
+   *
+   * @returns Tree hash, or null if git is unavailable
+   */
+  createSnapshot(): string | null {
+    if (!this.enabled) {
+      return null;
+    }
+
+    const tempDir = mkdtempSync(join(tmpdir(), "ralph-snapshot-"));
+    try {
+      // Start from a copy of the real index so unchanged files are not rehashed
+      const indexFile = join(tempDir, "index");
+      const realIndex = join(this.workingDir, ".git", "index");
+      if (existsSync(realIndex)) {
+        copyFileSync(realIndex, indexFile);
+      }
+
+      const env = { ...process.env, GIT_INDEX_FILE: indexFile };
+      const add = spawnSync("git", ["add", "-A", ...this.getPathspec()], {
+        cwd: this.workingDir,
+        env,
+        stdio: "pipe",
+      });
+      if (add.status !== 0) {
+        return null;
+      }
+
+      const tree = spawnSync("git", ["write-tree"], {
+        cwd: this.workingDir,
+        env,
+        encoding: "utf-8",
+        stdio: "pipe",
+      });
+      return tree.status === 0 ? tree.stdout.trim() : null;
+    } catch {
+      return null;
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Get the unified diff between two snapshots or commits (SECURE: validates object names)
+   */
+  getSnapshotDiff(from: string, to: string, maxBytes: number = 1024 * 1024): string {
+    if (!this.enabled) {
+      return "";
+    }
+
+    if (!/^[0-9a-f]{4,64}$/.test(from) || !/^[0-9a-f]{4,64}$/.test(to)) {
+      return "";
+    }
+
+    try {
+      const result = spawnSync(
+        "git",
+        ["diff", "--no-color", "--unified=0", from, to],
+        {
+          cwd: this.workingDir,
+          encoding: "utf-8",
+          stdio: "pipe",
+          maxBuffer: maxBytes,
+        }
+      );
+
+      // A diff larger than maxBytes is cut off by spawnSync; use what was read
+      return result.stdout || "";
+    } catch {
+      return "";
+    }
+  }
+
+  /**
+   * Get the content hash of every file changed between two snapshots or
+   * commits, before and after (SECURE: validates object names)
+   *
+   * @returns Map of path to [before, after] blob hashes; a missing side is all zeros
+   */
+  getChangedFileVersions(from: string, to: string): Record<string, [string, string]> {
+    const versions: Record<string, [string, string]> = {};
+    if (!this.enabled) {
+      return versions;
+    }
+
+    if (!/^[0-9a-f]{4,64}$/.test(from) || !/^[0-9a-f]{4,64}$/.test(to)) {
+      return versions;
+    }
+
+    try {
+      const result = spawnSync(
+        "git",
+        ["diff", "--raw", "--no-renames", "--no-abbrev", "-z", from, to],
+        {
+          cwd: this.workingDir,
+          encoding: "utf-8",
+          stdio: "pipe",
+        }
+      );
+      if (result.status !== 0) {
+        return versions;
+      }
+
+      // -z output alternates ":<mode> <mode> <before> <after> <status>" and the path
+      const fields = result.stdout.split("\0");
+      for (let i = 0; i + 1 < fields.length; i += 2) {
+        const [, , before, after] = fields[i].split(" ");
+        if (before && after) {
+          versions[fields[i + 1]] = [before.substring(0, 12), after.substring(0, 12)];
+        }
+      }
+    } catch {
+      // Treat unreadable diffs as no changes
+    }
+    return versions;
+  }
+
   /**
    * Check if working directory is clean
    */
@@ -25,10 +25,52 @@ import {
   ListToolsRequestSchema,
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
-import { RalphLoopManager, ExternalToolResult } from "./ralph.js";
+import { existsSync, readFileSync, realpathSync, statSync } from "fs";
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from "path";
+import {
+  RalphLoopManager,
+  ExternalToolResult,
+  RalphArtifact,
+  RalphLoopOutcome,
+  RalphLoopBudgets,
+  RalphLoopManagerOptions,
+  RalphIterationMetadata,
+  RalphIterationUsage,
+  RalphLoopState,
+  RalphSimilaritySettings,
+  RalphVerificationResult,
+} from "./ralph.js";
 import { GitManager } from "./git.js";
+import {
+  FileStorage,
+  RalphHistoryQuery,
+  RalphHistoryRotation,
+  RalphStorage,
+  importLegacyState,
+  migrateStorage,
+} from "./storage.js";
+import { SqliteStorage } from "./sqlite-storage.js";
+import { EXPORT_DIR, EXPORT_FORMATS, RalphExportFormat, exportLoop, isStoragePath } from "./export.js";
+import { writeFileAtomic } from "./locking.js";
+import { MetricsExporter, MetricsExporterOptions } from "./metrics.js";
+import { RalphTraceContext, Tracer } from "./tracing.js";
+import { loadPriceTable } from "./usage.js";
+import { RalphLessonFilter } from "./lessons.js";
+import { formatErrorCluster } from "./fingerprint.js";
+import { formatEta, formatSignalTrend } from "./progress.js";
+import { formatTestDelta } from "./test-results.js";
+import { RalphRegressionPolicy, RalphRollback, RalphRollbackCandidate } from "./rollback.js";
 import { ToolsManager } from "./tools.js";
 import { TemplatesManager } from "./templates.js";
+import {
+  RalphCompletionCondition,
+  describeCompletionCondition,
+  parseCompletionCondition,
+} from "./completion.js";
+
+const MAX_ARTIFACT_BYTES = 10 * 1024 * 1024; // per artifact attached to ralph_iterate
+const DEFAULT_ARTIFACT_READ_BYTES = 50000;
+const MAX_ARTIFACT_READ_BYTES = 1024 * 1024;
 
 /**
  * Ralph Wiggum MCP Server
@@ -41,8 +83,14 @@ class RalphWiggumServer {
   private gitManager: GitManager;
   private toolsManager: ToolsManager;
   private templatesManager: TemplatesManager;
-
-  constructor() {
+  private metrics: MetricsExporter | null = null;
+  private tracer?: Tracer;
+
+  constructor(
+    storage: RalphStorage,
+    options: RalphLoopManagerOptions = {},
+    metricsOptions: MetricsExporterOptions = {}
+  ) {
     this.server = new Server(
       {
         name: "ralph-wiggum-mcp",
@@ -55,10 +103,20 @@ class RalphWiggumServer {
       }
     );
 
-    this.ralphManager = new RalphLoopManager();
-    this.gitManager = new GitManager();
+    this.ralphManager = new RalphLoopManager(storage, options);
+    this.tracer = options.tracer;
+    // Git operations leave the server's own files alone when they lie in the repository
+    this.gitManager = new GitManager(process.cwd(), [
+      ...this.ralphManager.getStoragePaths(),
+      EXPORT_DIR,
+      ...(this.tracer ? [this.tracer.file] : []),
+      ...(metricsOptions.file ? [metricsOptions.file] : []),
+    ]);
     this.toolsManager = new ToolsManager();
     this.templatesManager = new TemplatesManager();
+    if (metricsOptions.file || metricsOptions.port !== undefined) {
+      this.metrics = new MetricsExporter(() => this.ralphManager.getMetrics(), metricsOptions);
+    }
 
     this.setupHandlers();
   }
@@ -80,6 +138,7 @@ class RalphWiggumServer {
 
       try {
         const result = await this.handleToolCall(name, args || {});
+        this.metrics?.update();
         return {
           content: [
             {
@@ -100,6 +159,8 @@ class RalphWiggumServer {
           ],
           isError: true,
         };
+      } finally {
+        this.tracer?.flush();
       }
     });
   }
@@ -125,11 +186,20 @@ NEW FEATURES:
 - External tool integration (tests, linters)
 - Smart stagnation detection and warnings
 - Pre-built templates for common tasks
+- Multiple named loops running side by side
+
+Returns the loop ID. Pass it as loop_id to the other tools when more
+than one loop is active.
 
 Use ralph_list_templates to see available templates.`,
         inputSchema: {
           type: "object",
           properties: {
+            loop_id: {
+              type: "string",
+              description:
+                "Name for this loop, e.g. 'refactor' or 'docs' (letters, digits, '-' and '_'; generated if omitted)",
+            },
             prompt: {
               type: "string",
               description: "The task prompt to iterate on (can be omitted if using template_id)",
@@ -149,6 +219,17 @@ Use ralph_list_templates to see available templates.`,
               description:
                 "Promise phrase that signals completion (e.g., 'DONE', 'COMPLETE'). When detected in output as <promise>PROMISE</promise>, the loop ends.",
             },
+            completion_condition: {
+              type: "object",
+              description: `Richer completion condition (replaces completion_promise). Object with a "type":
+- {"type": "promise", "value": "DONE"}
+- {"type": "promise_regex", "pattern": "^DONE(_\\w+)?$", "flags": "i"}
+- {"type": "any_promise", "values": ["DONE", "FIXED"]}
+- {"type": "all_promises", "values": ["TESTS_PASS", "DOCS_DONE"]} (all in the same output)
+- {"type": "tools_green", "iterations": 2} (all tools run passed for N consecutive iterations)
+- {"type": "no_changes", "iterations": 3} (no files modified for N iterations)
+- {"type": "and" | "or", "conditions": [...]}, {"type": "not", "condition": {...}}`,
+            },
             git_enabled: {
               type: "boolean",
               description: "Enable git integration (default: true)",
@@ -159,6 +240,82 @@ Use ralph_list_templates to see available templates.`,
               description: "Automatically commit changes after each iteration (default: false)",
               default: false,
             },
+            verify_with: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                "Tool presets (e.g., 'javascript-test') that must pass before the completion promise is accepted. If any fails, the promise is rejected and the loop continues.",
+            },
+            feedback_prompt: {
+              type: "boolean",
+              description:
+                "Append feedback to each next-iteration prompt: failing tool output, repeated errors, files touched and budget position (default: false)",
+              default: false,
+            },
+            include_notes: {
+              type: "number",
+              description:
+                "Latest notes from ralph_note_add to show when continuing each iteration (default: 5, 0 = none)",
+              default: 5,
+            },
+            max_duration_seconds: {
+              type: "number",
+              description: "Wall-clock budget in seconds, excluding paused time (0 = unlimited)",
+            },
+            max_tool_seconds: {
+              type: "number",
+              description: "Budget for total external tool runtime in seconds (0 = unlimited)",
+            },
+            max_tokens: {
+              type: "number",
+              description: "Token budget, counted from usage reported to ralph_iterate (0 = unlimited)",
+            },
+            max_cost: {
+              type: "number",
+              description: "Cost budget, counted from usage reported to ralph_iterate (0 = unlimited)",
+            },
+            similarity: {
+              type: "object",
+              description:
+                "Stagnation thresholds for content similarity between consecutive iterations",
+              properties: {
+                output_threshold: {
+                  type: "number",
+                  description: "Output similarity (0-1) treated as a repeat (default: 0.9)",
+                },
+                diff_threshold: {
+                  type: "number",
+                  description: "Diff similarity (0-1) treated as a repeated edit (default: 0.8)",
+                },
+                window: {
+                  type: "number",
+                  description: "Number of consecutive iterations compared, 2-20 (default: 3)",
+                },
+              },
+            },
+            regression_policy: {
+              type: "object",
+              description:
+                "Roll back to the last iteration where the presets all passed once they fail for several iterations in a row. Needs auto_commit; broken work is stashed before the hard reset.",
+              properties: {
+                presets: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Tool presets whose failures are counted (run them with run_tools)",
+                },
+                iterations: {
+                  type: "number",
+                  description: "Failing iterations in a row before a rollback, 1-20 (default: 2)",
+                },
+                mode: {
+                  type: "string",
+                  enum: ["offer", "auto"],
+                  description:
+                    "offer: suggest the rollback, accepted with ralph_iterate rollback: true; auto: roll back right away (default: offer)",
+                },
+              },
+              required: ["presets"],
+            },
           },
         },
       },
@@ -183,6 +340,10 @@ Enhanced features:
         inputSchema: {
           type: "object",
           properties: {
+            loop_id: {
+              type: "string",
+              description: "ID of the loop (optional when only one loop is active)",
+            },
             last_output: {
               type: "string",
               description:
@@ -209,19 +370,106 @@ Enhanced features:
               description:
                 "External tool presets to run (e.g., 'javascript-test', 'python-lint')",
             },
+            usage: {
+              type: "object",
+              properties: {
+                input_tokens: { type: "number", description: "Input (prompt) tokens used this iteration" },
+                output_tokens: { type: "number", description: "Output (completion) tokens used this iteration" },
+                tokens: {
+                  type: "number",
+                  description: "Total tokens used this iteration (default: input plus output tokens)",
+                },
+                model: { type: "string", description: "Model name, used to price tokens when no cost is given" },
+                cost: { type: "number", description: "Cost of this iteration in USD" },
+              },
+              description: "Model usage for this iteration, counted against token and cost budgets",
+            },
+            artifacts: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  path: {
+                    type: "string",
+                    description: "File to attach, relative to the working directory",
+                  },
+                  content: {
+                    type: "string",
+                    description: "Text to attach instead of a file",
+                  },
+                  name: {
+                    type: "string",
+                    description: "Label for the artifact (default: the file path)",
+                  },
+                },
+              },
+              description:
+                "Files or text to keep with this iteration (e.g. log files, generated reports), retrievable with ralph_get_artifact",
+            },
+            rollback: {
+              type: "boolean",
+              description:
+                "Accept the rollback offered by the last iteration: stash the working tree and reset to the green iteration's commit before recording this iteration",
+            },
           },
           required: ["last_output"],
         },
       },
       {
         name: "ralph_cancel",
-        description: `Cancel the active Ralph loop.
+        description: `Cancel an active Ralph loop.
 
-Stops the current Ralph loop and removes all state. Use this when you
-want to manually stop the loop before completion.`,
+Stops the Ralph loop and archives its final state and history.
+Use this when you want to manually stop the loop before completion.`,
         inputSchema: {
           type: "object",
-          properties: {},
+          properties: {
+            loop_id: {
+              type: "string",
+              description: "ID of the loop (optional when only one loop is active)",
+            },
+            abandon: {
+              type: "boolean",
+              description:
+                "Archive the loop as abandoned (task given up) instead of cancelled (default: false)",
+              default: false,
+            },
+          },
+        },
+      },
+      {
+        name: "ralph_pause",
+        description: `Pause an active Ralph loop.
+
+The loop keeps its state but rejects iterations until it is resumed.
+Time spent paused is excluded from iteration durations.`,
+        inputSchema: {
+          type: "object",
+          properties: {
+            loop_id: {
+              type: "string",
+              description: "ID of the loop (optional when only one loop is active)",
+            },
+            reason: {
+              type: "string",
+              description: "Why the loop is being paused (shown in status)",
+            },
+          },
+        },
+      },
+      {
+        name: "ralph_resume",
+        description: `Resume a paused Ralph loop.
+
+Iterations are accepted again from the current iteration number.`,
+        inputSchema: {
+          type: "object",
+          properties: {
+            loop_id: {
+              type: "string",
+              description: "ID of the loop (optional when only one loop is active)",
+            },
+          },
         },
       },
       {
@@ -235,183 +483,530 @@ Shows:
 - Completion promise (if set)
 - The current prompt being iterated on
 - Iteration history summary (total time, files changed, tools used)
+- Model usage (tokens and cost, with averages per iteration)
 - Progress analysis (stagnation detection, repeated errors)
-- Estimated iterations remaining`,
+- Progress signals: failing tests, lint errors, build status, reported errors and diff size, with their trends
+- Estimated iterations remaining, with a 90% confidence interval`,
         inputSchema: {
           type: "object",
-          properties: {},
+          properties: {
+            loop_id: {
+              type: "string",
+              description: "ID of the loop (optional when only one loop is active)",
+            },
+          },
         },
       },
-      // History and reporting
       {
-        name: "ralph_history",
-        description: `Get detailed iteration history report.
+        name: "ralph_list_loops",
+        description: `List all Ralph loops.
 
-Shows a comprehensive history of all iterations including:
-- Timestamp and duration
-- Files modified
-- Commands run
-- Errors encountered
-- Git commits
-- External tools run with results`,
+Shows every loop with its ID, status, current iteration
+and prompt. Use the IDs as loop_id for the other tools.`,
         inputSchema: {
           type: "object",
           properties: {},
         },
       },
-      // Templates
       {
-        name: "ralph_list_templates",
-        description: `List all available Ralph loop templates.
-
-Templates are pre-built prompts and configurations for common tasks:
-- REST API development
-- Test-driven development
-- Refactoring
-- Bug fixing
-- Documentation
-- Performance optimization
-- Security hardening
-- And more...
+        name: "ralph_note_add",
+        description: `Add a note to a loop's scratchpad for later iterations.
 
-Each template includes suggested settings and external tools.`,
+Notes are stored with the loop and tagged with the current iteration,
+e.g. "tried X, failed because Y". The latest notes are shown when
+ralph_iterate continues the loop, so they carry over without being
+written into the repository.`,
         inputSchema: {
           type: "object",
           properties: {
-            category: {
+            loop_id: {
               type: "string",
-              description: "Filter by category (optional)",
+              description: "ID of the loop (optional when only one loop is active)",
+            },
+            text: {
+              type: "string",
+              description: "The note (at most 2000 characters)",
             },
           },
+          required: ["text"],
         },
       },
       {
-        name: "ralph_get_template",
-        description: `Get details of a specific template.
+        name: "ralph_note_list",
+        description: `List a loop's notes, grouped by the iteration they were written in.`,
+        inputSchema: {
+          type: "object",
+          properties: {
+            loop_id: {
+              type: "string",
+              description: "ID of the loop (optional when only one loop is active)",
+            },
+            since_iteration: {
+              type: "number",
+              description: "Only show notes written in this iteration or later",
+            },
+          },
+        },
+      },
+      {
+        name: "ralph_note_clear",
+        description: `Remove notes from a loop's scratchpad.
 
-Returns the full template configuration including:
-- Name and description
-- Complete prompt text
-- Suggested completion promise
-- Suggested max iterations
-- Suggested external tools
-- Git integration settings`,
+Removes one note by ID, the notes written before an iteration,
+or (without either) all notes.`,
         inputSchema: {
           type: "object",
           properties: {
-            template_id: {
+            loop_id: {
               type: "string",
-              description: "The ID of the template to retrieve",
+              description: "ID of the loop (optional when only one loop is active)",
+            },
+            note_id: {
+              type: "number",
+              description: "Remove only this note",
+            },
+            before_iteration: {
+              type: "number",
+              description: "Remove the notes written before this iteration",
             },
           },
-          required: ["template_id"],
         },
       },
-      // Git integration
       {
-        name: "ralph_git_status",
-        description: `Get git status and diff summary.
+        name: "ralph_recover",
+        description: `Recover loops whose state file is missing or corrupt.
 
-Shows:
-- Current branch and commit
-- Modified, added, deleted, and untracked files
-- Diff summary (files changed, insertions, deletions)`,
+Rebuilds each affected loop from its append-only history log
+and reports what was restored. Loops are also recovered
+automatically when the server starts.`,
         inputSchema: {
           type: "object",
           properties: {},
         },
       },
+      // History and reporting
       {
-        name: "ralph_git_commit",
-        description: `Create a git commit for the current iteration.
+        name: "ralph_history",
+        description: `Get detailed iteration history report.
 
-Use this to manually create a commit with a custom message.
-If auto_commit is enabled, commits are created automatically.`,
+Shows a comprehensive history of all iterations including:
+- Timestamp and duration
+- Files modified
+- Commands run
+- Errors encountered
+- Git commits
+- External tools run with results`,
         inputSchema: {
           type: "object",
           properties: {
-            message: {
+            loop_id: {
               type: "string",
-              description: "Commit message",
+              description: "ID of the loop (optional when only one loop is active)",
             },
           },
-          required: ["message"],
         },
       },
       {
-        name: "ralph_git_context",
-        description: `Get context from recent Ralph commits.
+        name: "ralph_search_history",
+        description: `Search iteration history of live and archived loops.
 
-Shows recent Ralph iteration commits from git history,
-providing context about what was done in previous iterations.`,
+Answers questions like "which iterations touched src/auth.ts" or "when did
+this error first appear". All filters must match; matches are listed
+oldest first with the matching part highlighted.`,
         inputSchema: {
           type: "object",
           properties: {
-            count: {
+            loop_id: {
+              type: "string",
+              description: "Only search this loop (default: all loops)",
+            },
+            file: {
+              type: "string",
+              description:
+                "Modified file path or glob (e.g. 'src/auth.ts', 'src/**/*.ts', '*.test.ts')",
+            },
+            command: {
+              type: "string",
+              description: "Text contained in a command run (case-insensitive)",
+            },
+            error: {
+              type: "string",
+              description: "Text contained in an error (case-insensitive)",
+            },
+            error_regex: {
+              type: "string",
+              description: "Regular expression matched against errors (case-insensitive)",
+            },
+            tool: {
+              type: "string",
+              description: "External tool name (e.g. 'npm test')",
+            },
+            tool_status: {
+              type: "string",
+              enum: ["passed", "failed"],
+              description: "Status of the tool (of any tool if tool is not given)",
+            },
+            completed: {
+              type: "boolean",
+              description: "Only iterations where completion was (true) or was not (false) detected",
+            },
+            since: {
+              type: "string",
+              description: "Start of the time range (ISO date or timestamp)",
+            },
+            until: {
+              type: "string",
+              description: "End of the time range (ISO date or timestamp)",
+            },
+            include_archived: {
+              type: "boolean",
+              description: "Also search archived loops (default: true)",
+              default: true,
+            },
+            limit: {
               type: "number",
-              description: "Number of recent commits to show (default: 5)",
-              default: 5,
+              description: "Maximum matches to show (default: 20)",
+              default: 20,
             },
           },
         },
       },
-      // External tools
       {
-        name: "ralph_run_tools",
-        description: `Run external tool presets (test runners, linters, etc.).
+        name: "ralph_usage",
+        description: `Report model usage per template.
 
-Available presets:
-- javascript-test: Run npm test
-- javascript-lint: Run ESLint
-- python-test: Run pytest
-- python-lint: Run ruff
-- rust-test: Run cargo test
-- rust-lint: Run clippy
-- go-test: Run go test
-- build: Verify project builds
+Aggregates the tokens and cost reported with ralph_iterate across loops
+started from each template, with averages per iteration and per loop,
+most expensive per iteration first.`,
+        inputSchema: {
+          type: "object",
+          properties: {
+            include_archived: {
+              type: "boolean",
+              description: "Include archived loops (default: true)",
+              default: true,
+            },
+          },
+        },
+      },
+      {
+        name: "ralph_lessons",
+        description: `Browse or prune lessons learned from resolved errors.
 
-Use ralph_detect_tools to see which presets are available for your project.`,
+When an error stops recurring, the error, the files changed and the commit
+of the iteration that fixed it are kept for this repository. Loops that
+hit the same error later get the resolution as a suggested action.`,
         inputSchema: {
           type: "object",
           properties: {
-            presets: {
-              type: "array",
-              items: { type: "string" },
-              description: "List of tool preset names to run",
+            action: {
+              type: "string",
+              enum: ["list", "prune"],
+              description: "List lessons (default) or remove the matching ones",
+              default: "list",
+            },
+            lesson_id: {
+              type: "string",
+              description: "Lesson ID (or a prefix of it)",
+            },
+            search: {
+              type: "string",
+              description: "Case-insensitive text in the error or a changed file",
+            },
+            older_than_days: {
+              type: "number",
+              description: "Only lessons last resolved at least this many days ago",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum lessons to list (default: 20, max: 200)",
+              default: 20,
             },
           },
-          required: ["presets"],
         },
       },
       {
-        name: "ralph_detect_tools",
-        description: `Detect which tool presets are available for the current project.
+        name: "ralph_list_archived",
+        description: `List finished Ralph loops from the archive.
 
-Analyzes the project structure and suggests relevant tool presets
-(e.g., if package.json exists, suggests javascript-test and javascript-lint).`,
+Every loop that ends (completed, cancelled, max_iterations,
+budget_exhausted or abandoned) is archived with its prompt, settings and full history.
+Newest loops are listed first.`,
         inputSchema: {
           type: "object",
-          properties: {},
+          properties: {
+            loop_id: {
+              type: "string",
+              description: "Only show archived runs of this loop ID",
+            },
+            outcome: {
+              type: "string",
+              enum: ["completed", "cancelled", "max_iterations", "budget_exhausted", "abandoned"],
+              description: "Only show loops that ended this way",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of loops to show (default: 20)",
+              default: 20,
+            },
+          },
         },
       },
       {
-        name: "ralph_list_tools",
-        description: `List all available external tool presets.
+        name: "ralph_show_archived",
+        description: `Show an archived Ralph loop.
 
-Shows all available tool presets with descriptions,
-regardless of whether they're applicable to the current project.`,
+Returns how the loop ended, its prompt and settings,
+and the full iteration history.`,
         inputSchema: {
           type: "object",
-          properties: {},
+          properties: {
+            archive_id: {
+              type: "string",
+              description: "Archive ID from ralph_list_archived",
+            },
+          },
+          required: ["archive_id"],
         },
       },
-    ];
-  }
+      {
+        name: "ralph_export",
+        description: `Export a loop and its full history to a file.
 
-  /**
-   * Handle tool calls
-   */
-  private async handleToolCall(
+Formats:
+${Object.entries(EXPORT_FORMATS)
+  .map(([format, { description }]) => `- ${format}: ${description}`)
+  .join("\n")}
+
+The file is written inside the working directory (default:
+${EXPORT_DIR}/<loop or archive ID>.<extension>, which auto-commits and
+rollbacks leave alone). Paths into the loop storage are rejected.`,
+        inputSchema: {
+          type: "object",
+          properties: {
+            loop_id: {
+              type: "string",
+              description: "ID of a live loop (optional when only one loop is active)",
+            },
+            archive_id: {
+              type: "string",
+              description: "Export an archived loop instead (ID from ralph_list_archived)",
+            },
+            format: {
+              type: "string",
+              enum: Object.keys(EXPORT_FORMATS),
+              description: "Export format",
+            },
+            path: {
+              type: "string",
+              description: "Output file, relative to the working directory",
+            },
+          },
+          required: ["format"],
+        },
+      },
+      {
+        name: "ralph_get_artifact",
+        description: `Read a stored iteration output, tool log or artifact.
+
+History entries keep a preview of long outputs and tool logs; the full
+content, and files attached with ralph_iterate, are kept in a
+content-addressed store. ralph_history lists their hashes.`,
+        inputSchema: {
+          type: "object",
+          properties: {
+            hash: {
+              type: "string",
+              description: "Hash of the artifact, or a unique prefix of at least 8 characters",
+            },
+            offset: {
+              type: "number",
+              description: "Byte offset to start reading from (default: 0)",
+              default: 0,
+            },
+            max_bytes: {
+              type: "number",
+              description: `Maximum bytes to return (default: ${DEFAULT_ARTIFACT_READ_BYTES})`,
+              default: DEFAULT_ARTIFACT_READ_BYTES,
+            },
+          },
+          required: ["hash"],
+        },
+      },
+      {
+        name: "ralph_collect_garbage",
+        description: `Remove stored outputs, tool logs and artifacts no longer needed.
+
+Content referenced by a live loop is always kept. Content of archived
+loops is removed unless the loop ended within keep_archived_days.`,
+        inputSchema: {
+          type: "object",
+          properties: {
+            keep_archived_days: {
+              type: "number",
+              description: "Keep content of loops archived within this many days (default: 0)",
+              default: 0,
+            },
+          },
+        },
+      },
+      // Templates
+      {
+        name: "ralph_list_templates",
+        description: `List all available Ralph loop templates.
+
+Templates are pre-built prompts and configurations for common tasks:
+- REST API development
+- Test-driven development
+- Refactoring
+- Bug fixing
+- Documentation
+- Performance optimization
+- Security hardening
+- And more...
+
+Each template includes suggested settings and external tools.`,
+        inputSchema: {
+          type: "object",
+          properties: {
+            category: {
+              type: "string",
+              description: "Filter by category (optional)",
+            },
+          },
+        },
+      },
+      {
+        name: "ralph_get_template",
+        description: `Get details of a specific template.
+
+Returns the full template configuration including:
+- Name and description
+- Complete prompt text
+- Suggested completion promise
+- Suggested max iterations
+- Suggested external tools
+- Git integration settings`,
+        inputSchema: {
+          type: "object",
+          properties: {
+            template_id: {
+              type: "string",
+              description: "The ID of the template to retrieve",
+            },
+          },
+          required: ["template_id"],
+        },
+      },
+      // Git integration
+      {
+        name: "ralph_git_status",
+        description: `Get git status and diff summary.
+
+Shows:
+- Current branch and commit
+- Modified, added, deleted, and untracked files
+- Diff summary (files changed, insertions, deletions)`,
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "ralph_git_commit",
+        description: `Create a git commit for the current iteration.
+
+Use this to manually create a commit with a custom message.
+If auto_commit is enabled, commits are created automatically.`,
+        inputSchema: {
+          type: "object",
+          properties: {
+            loop_id: {
+              type: "string",
+              description: "ID of the loop (optional when only one loop is active)",
+            },
+            message: {
+              type: "string",
+              description: "Commit message",
+            },
+          },
+          required: ["message"],
+        },
+      },
+      {
+        name: "ralph_git_context",
+        description: `Get context from recent Ralph commits.
+
+Shows recent Ralph iteration commits from git history,
+providing context about what was done in previous iterations.`,
+        inputSchema: {
+          type: "object",
+          properties: {
+            count: {
+              type: "number",
+              description: "Number of recent commits to show (default: 5)",
+              default: 5,
+            },
+          },
+        },
+      },
+      // External tools
+      {
+        name: "ralph_run_tools",
+        description: `Run external tool presets (test runners, linters, etc.).
+
+Available presets:
+- javascript-test: Run npm test
+- javascript-lint: Run ESLint
+- python-test: Run pytest
+- python-lint: Run ruff
+- rust-test: Run cargo test
+- rust-lint: Run clippy
+- go-test: Run go test
+- build: Verify project builds
+
+Use ralph_detect_tools to see which presets are available for your project.`,
+        inputSchema: {
+          type: "object",
+          properties: {
+            presets: {
+              type: "array",
+              items: { type: "string" },
+              description: "List of tool preset names to run",
+            },
+          },
+          required: ["presets"],
+        },
+      },
+      {
+        name: "ralph_detect_tools",
+        description: `Detect which tool presets are available for the current project.
+
+Analyzes the project structure and suggests relevant tool presets
+(e.g., if package.json exists, suggests javascript-test and javascript-lint).`,
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "ralph_list_tools",
+        description: `List all available external tool presets.
+
+Shows all available tool presets with descriptions,
+regardless of whether they're applicable to the current project.`,
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+    ];
+  }
+
+  /**
+   * Handle tool calls
+   */
+  private async handleToolCall(
     name: string,
     args: Record<string, unknown>
   ): Promise<string> {
@@ -421,11 +1016,41 @@ regardless of whether they're applicable to the current project.`,
       case "ralph_iterate":
         return await this.handleRalphIterate(args);
       case "ralph_cancel":
-        return this.handleRalphCancel();
+        return this.handleRalphCancel(args);
+      case "ralph_pause":
+        return this.handleRalphPause(args);
+      case "ralph_resume":
+        return this.handleRalphResume(args);
       case "ralph_status":
-        return this.handleRalphStatus();
+        return this.handleRalphStatus(args);
+      case "ralph_list_loops":
+        return this.handleListLoops();
+      case "ralph_note_add":
+        return this.handleNoteAdd(args);
+      case "ralph_note_list":
+        return this.handleNoteList(args);
+      case "ralph_note_clear":
+        return this.handleNoteClear(args);
+      case "ralph_recover":
+        return this.handleRecover();
       case "ralph_history":
-        return this.handleRalphHistory();
+        return this.handleRalphHistory(args);
+      case "ralph_search_history":
+        return this.handleSearchHistory(args);
+      case "ralph_usage":
+        return this.handleUsage(args);
+      case "ralph_lessons":
+        return this.handleLessons(args);
+      case "ralph_list_archived":
+        return this.handleListArchived(args);
+      case "ralph_show_archived":
+        return this.handleShowArchived(args);
+      case "ralph_export":
+        return this.handleExport(args);
+      case "ralph_get_artifact":
+        return this.handleGetArtifact(args);
+      case "ralph_collect_garbage":
+        return this.handleCollectGarbage(args);
       case "ralph_list_templates":
         return this.handleListTemplates(args);
       case "ralph_get_template":
@@ -452,12 +1077,23 @@ regardless of whether they're applicable to the current project.`,
    */
   private handleRalphLoop(args: Record<string, unknown>): string {
     const {
+      loop_id,
       prompt,
       template_id,
       max_iterations = 0,
       completion_promise = null,
+      completion_condition,
       git_enabled = true,
       auto_commit = false,
+      verify_with = [],
+      feedback_prompt = false,
+      include_notes = 5,
+      max_duration_seconds,
+      max_tool_seconds,
+      max_tokens,
+      max_cost,
+      similarity,
+      regression_policy,
     } = args;
 
     // Determine the prompt to use
@@ -500,47 +1136,146 @@ regardless of whether they're applicable to the current project.`,
       throw new Error("completion_promise must be a string or null");
     }
 
-    // Check if loop is already active
-    if (this.ralphManager.isLoopActive()) {
-      const currentStatus = this.ralphManager.getStatus();
+    if (loop_id !== undefined && typeof loop_id !== "string") {
+      throw new Error("loop_id must be a string");
+    }
+
+    // A completion condition replaces the (template's) completion promise
+    let completionCondition: RalphCompletionCondition | undefined;
+    if (completion_condition !== undefined) {
+      completionCondition = parseCompletionCondition(completion_condition);
+      finalCompletionPromise = null;
+    }
+
+    if (
+      !Array.isArray(verify_with) ||
+      !verify_with.every((preset) => typeof preset === "string")
+    ) {
+      throw new Error("verify_with must be an array of tool preset names");
+    }
+
+    const unknownPresets = verify_with.filter(
+      (preset) => !this.toolsManager.hasPreset(preset)
+    );
+    if (unknownPresets.length > 0) {
+      throw new Error(
+        `Unknown tool preset(s) in verify_with: ${unknownPresets.join(", ")}. Use ralph_list_tools to see available presets.`
+      );
+    }
+
+    if (verify_with.length > 0 && !finalCompletionPromise && !completionCondition) {
+      throw new Error(
+        "verify_with requires a completion_promise or completion_condition to verify"
+      );
+    }
+
+    if (typeof feedback_prompt !== "boolean") {
+      throw new Error("feedback_prompt must be a boolean");
+    }
+
+    if (
+      typeof include_notes !== "number" ||
+      !Number.isInteger(include_notes) ||
+      include_notes < 0 ||
+      include_notes > 100
+    ) {
+      throw new Error("include_notes must be an integer from 0 to 100");
+    }
+
+    const maxDurationSeconds = this.getBudgetArg(max_duration_seconds, "max_duration_seconds");
+    const maxToolSeconds = this.getBudgetArg(max_tool_seconds, "max_tool_seconds");
+    const budgets: RalphLoopBudgets = {
+      maxDurationMs: maxDurationSeconds ? maxDurationSeconds * 1000 : undefined,
+      maxToolRuntimeMs: maxToolSeconds ? maxToolSeconds * 1000 : undefined,
+      maxTokens: this.getBudgetArg(max_tokens, "max_tokens"),
+      maxCost: this.getBudgetArg(max_cost, "max_cost"),
+    };
+    const hasBudgets = Object.values(budgets).some((limit) => limit !== undefined);
+    const similaritySettings = this.getSimilarityArg(similarity);
+    const regressionPolicy = this.getRegressionPolicyArg(regression_policy);
+    if (regressionPolicy && !(finalAutoCommit && finalGitEnabled)) {
+      throw new Error("regression_policy needs git_enabled and auto_commit: it rolls back to their commits");
+    }
+
+    // Check if a loop with this ID is already active
+    if (loop_id && this.ralphManager.isLoopActive(loop_id)) {
+      const currentStatus = this.ralphManager.getStatus(loop_id);
       return (
-        "⚠️  A Ralph loop is already active!\n\n" +
+        `⚠️  A Ralph loop with ID ${loop_id} is already active!\n\n` +
         currentStatus +
-        "\n\nUse ralph_cancel to cancel the current loop before starting a new one."
+        "\n\nUse ralph_cancel to cancel it, or choose a different loop_id."
       );
     }
 
     // Start the loop
-    const state = this.ralphManager.startLoop(
-      finalPrompt,
-      finalMaxIterations,
-      finalCompletionPromise,
-      finalGitEnabled,
-      finalAutoCommit
-    );
+    const state = this.ralphManager.startLoop(finalPrompt, {
+      loopId: loop_id,
+      maxIterations: finalMaxIterations,
+      completionPromise: finalCompletionPromise,
+      completionCondition,
+      gitEnabled: finalGitEnabled,
+      autoCommit: finalAutoCommit,
+      verifyWith: verify_with,
+      budgets: hasBudgets ? budgets : undefined,
+      feedbackPrompt: feedback_prompt,
+      notesInPrompt: include_notes,
+      similarity: similaritySettings,
+      regressionPolicy,
+      templateId: typeof template_id === "string" && template_id ? template_id : undefined,
+      startSnapshot:
+        finalGitEnabled ? this.gitManager.createSnapshot() ?? undefined : undefined,
+    });
 
     const lines: string[] = [];
     lines.push("🔄 Ralph loop activated!");
     lines.push("");
+    lines.push(`Loop ID: ${state.id}`);
     lines.push(`Iteration: ${state.iteration}`);
     lines.push(
       `Max iterations: ${
         state.maxIterations > 0 ? state.maxIterations : "unlimited"
       }`
     );
-    lines.push(
-      `Completion promise: ${
-        state.completionPromise
-          ? `${state.completionPromise} (ONLY output when TRUE - do not lie!)`
-          : "none (runs forever)"
-      }`
-    );
+    if (state.completionCondition) {
+      lines.push(
+        `Completion condition: ${describeCompletionCondition(state.completionCondition)}`
+      );
+    } else {
+      lines.push(
+        `Completion promise: ${
+          state.completionPromise
+            ? `${state.completionPromise} (ONLY output when TRUE - do not lie!)`
+            : "none (runs forever)"
+        }`
+      );
+    }
     lines.push(`Git integration: ${state.gitEnabled ? "enabled" : "disabled"}`);
     lines.push(
       `Auto-commit: ${
         state.autoCommit ? "enabled" : "disabled"
       } (changes committed each iteration)`
     );
+    if (state.verifyWith) {
+      lines.push(`Verified completion: ${state.verifyWith.join(", ")} must pass`);
+    }
+    if (state.feedbackPrompt) {
+      lines.push("Feedback prompt: enabled (each prompt includes feedback from the last iteration)");
+    }
+    if (state.regressionPolicy) {
+      const { presets, iterations, mode } = state.regressionPolicy;
+      lines.push(
+        `Regression policy: ${mode === "auto" ? "roll back" : "offer a rollback"} after ${iterations} failing iteration(s) of ${presets.join(", ")} (include them in run_tools)`
+      );
+    }
+    if (state.budgets) {
+      const { maxDurationMs, maxToolRuntimeMs, maxTokens, maxCost } = state.budgets;
+      const limits: string[] = [];
+      if (maxDurationMs) limits.push(`${Math.floor(maxDurationMs / 1000)}s wall-clock`);
+      if (maxToolRuntimeMs) limits.push(`${Math.floor(maxToolRuntimeMs / 1000)}s tool runtime`);
+      if (maxTokens) limits.push(`${maxTokens} tokens`);
+      if (maxCost) limits.push(`$${maxCost.toFixed(2)} cost`);
+      lines.push(`Budgets: ${limits.join(", ")} (report usage to ralph_iterate)`);
+    }
     lines.push("");
     lines.push("📊 Enhanced Features:");
     lines.push("  ✅ Iteration history tracking");
@@ -551,7 +1286,7 @@ regardless of whether they're applicable to the current project.`,
     lines.push("");
     lines.push("How it works:");
     lines.push("1. Work on the task described in the prompt");
-    lines.push("2. When done, call ralph_iterate with your output");
+    lines.push(`2. When done, call ralph_iterate with your output (loop_id: ${state.id})`);
     lines.push("3. Optionally include metadata (files, commands, errors)");
     lines.push("4. Optionally run external tools (tests, linters)");
     lines.push("5. The loop analyzes progress and continues or stops");
@@ -581,6 +1316,11 @@ regardless of whether they're applicable to the current project.`,
       lines.push("  ✓ The statement MUST be completely and unequivocally TRUE");
       lines.push("  ✓ Do NOT output false statements to exit the loop");
       lines.push("  ✓ Do NOT lie even if you think you should exit");
+      if (state.verifyWith) {
+        lines.push(
+          `  ✓ ${state.verifyWith.join(", ")} must pass - otherwise the promise is rejected`
+        );
+      }
       lines.push("");
       lines.push("IMPORTANT - Do not circumvent the loop:");
       lines.push(
@@ -598,216 +1338,1158 @@ regardless of whether they're applicable to the current project.`,
       lines.push("═══════════════════════════════════════════════════════════");
     }
 
-    return lines.join("\n");
+    if (completionCondition) {
+      lines.push("");
+      lines.push("═══════════════════════════════════════════════════════════");
+      lines.push("CRITICAL - Ralph Loop Completion Condition");
+      lines.push("═══════════════════════════════════════════════════════════");
+      lines.push("");
+      lines.push("The loop ends when this condition is met:");
+      lines.push(`  ${describeCompletionCondition(completionCondition)}`);
+      lines.push("");
+      lines.push("Promises are output as <promise>TEXT</promise> XML tags.");
+      lines.push("Only output a promise when it is completely and unequivocally TRUE.");
+      if (state.verifyWith) {
+        lines.push(
+          `${state.verifyWith.join(", ")} must pass - otherwise completion is rejected.`
+        );
+      }
+      lines.push("Use ralph_status to see which parts of the condition are met.");
+      lines.push("═══════════════════════════════════════════════════════════");
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Handle ralph_iterate tool with enhanced features
+   */
+  private async handleRalphIterate(args: Record<string, unknown>): Promise<string> {
+    const {
+      loop_id,
+      last_output,
+      files_modified,
+      commands_run,
+      errors,
+      run_tools,
+      usage,
+      artifacts,
+      rollback,
+    } = args;
+
+    if (typeof last_output !== "string") {
+      throw new Error("last_output is required and must be a string");
+    }
+
+    const loopId = this.getLoopIdArg(loop_id);
+    const iterationUsage = this.getUsageArg(usage);
+    const iterationArtifacts = this.getArtifactsArg(artifacts);
+
+    // Check if loop is active
+    if (!this.ralphManager.isLoopActive(loopId)) {
+      return loopId
+        ? `⚠️  No active Ralph loop with ID ${loopId}.\n\nUse ralph_list_loops to see available loops.`
+        : "⚠️  No active Ralph loop found.\n\nUse ralph_loop to start a new loop.";
+    }
+
+    const state = this.ralphManager.getState(loopId);
+    if (!state) {
+      return "⚠️  Unable to get loop state.";
+    }
+
+    if (state.paused) {
+      return (
+        `⏸️  Ralph loop ${state.id} is paused` +
+        (state.pauseReason ? `: ${state.pauseReason}` : ".") +
+        "\n\nUse ralph_resume to continue the loop before calling ralph_iterate."
+      );
+    }
+
+    if (rollback !== undefined && typeof rollback !== "boolean") {
+      throw new Error("rollback must be a boolean");
+    }
+    if (rollback && !state.rollbackOffer) {
+      throw new Error(`No rollback is on offer for loop ${state.id}`);
+    }
+
+    // Run external tools if requested
+    let toolResults: ExternalToolResult[] = [];
+    const presetResults = new Map<string, ExternalToolResult[]>();
+    if (run_tools && Array.isArray(run_tools)) {
+      for (const presetName of run_tools) {
+        if (typeof presetName === "string") {
+          try {
+            const results = await this.toolsManager.runPreset(presetName);
+            toolResults.push(...results);
+            presetResults.set(presetName, results);
+          } catch (error) {
+            // Tool not available or failed - continue
+          }
+        }
+      }
+    }
+
+    // Spans of this iteration's steps go under the iteration's span
+    const traceParent: RalphTraceContext | undefined = state.trace && {
+      traceId: state.trace.traceId,
+      spanId: state.trace.iterationSpanId,
+    };
+
+    // Snapshot the working tree, so completion checks see the files that changed
+    let changes = this.snapshotChanges(state, traceParent);
+
+    // Verify a completion claim with the loop's verification presets
+    let verification: RalphVerificationResult | undefined;
+    if (
+      state.verifyWith &&
+      this.ralphManager.isCompletionClaimed(
+        last_output,
+        {
+          filesModified: files_modified as string[] | undefined,
+          filesChanged: changes.filesChanged,
+          externalToolsRun: toolResults,
+        },
+        state.id
+      )
+    ) {
+      verification = await this.toolsManager.verifyPresets(
+        state.verifyWith,
+        presetResults
+      );
+
+      // Record the verification runs that were not already part of run_tools
+      const alreadyRun = new Set(toolResults);
+      toolResults.push(
+        ...verification.results.filter((r) => !alreadyRun.has(r))
+      );
+    }
+
+    if (this.tracer && traceParent) {
+      for (const result of toolResults) {
+        const startTime = result.startTime ?? Date.now() - result.duration;
+        this.tracer.recordSpan({
+          name: "ralph.tool",
+          traceId: traceParent.traceId,
+          parentSpanId: traceParent.spanId,
+          startTime,
+          endTime: startTime + result.duration,
+          attributes: {
+            "ralph.loop.id": state.id,
+            "ralph.iteration": state.iteration,
+            "ralph.tool.name": result.name,
+            "ralph.tool.command": result.command,
+            "ralph.tool.preset": result.preset,
+            "ralph.tool.exit_code": result.exitCode,
+          },
+          error: result.exitCode !== 0 ? `exit code ${result.exitCode}` : undefined,
+        });
+      }
+    }
+
+    // Extract errors from tool results
+    const toolErrors: string[] = [];
+    for (const result of toolResults) {
+      if (result.exitCode !== 0) {
+        toolErrors.push(`${result.name} failed`);
+      }
+    }
+
+    // Combine user-reported errors with tool errors
+    const userErrors = Array.isArray(errors) ? errors : [];
+    const allErrors = [...userErrors, ...toolErrors];
+
+    // Apply the regression policy before committing: an accepted offer, or
+    // an automatic rollback. Otherwise a rollback may be offered.
+    let rollbackResult: RalphRollback | undefined;
+    let rollbackError: string | undefined;
+    let rollbackOffer: RalphRollbackCandidate | undefined;
+    const candidate = rollback
+      ? state.rollbackOffer
+      : this.ralphManager.getRollbackCandidate(toolResults, state.id) ?? undefined;
+    if (candidate && (rollback || state.regressionPolicy?.mode === "auto")) {
+      const span = traceParent && this.tracer?.startSpan("ralph.git.rollback", traceParent, {
+        "ralph.loop.id": state.id,
+        "ralph.iteration": state.iteration,
+        "ralph.rollback.to_iteration": candidate.iteration,
+      });
+      const reset = this.ralphManager.withLoopLock(state.id, state.iteration, () =>
+        this.gitManager.rollback(
+          candidate.commit,
+          `ralph ${state.id} iteration ${state.iteration} - discarded by rollback to iteration ${candidate.iteration}`
+        )
+      );
+      if (reset.success) {
+        // The reset changed the tree, so snapshot it again
+        changes = this.snapshotChanges(state, traceParent);
+        rollbackResult = {
+          toIteration: candidate.iteration,
+          commit: candidate.commit,
+          previousHead: reset.previousHead,
+          discardedCommits: reset.discardedCommits,
+          stash: reset.stash,
+          files: reset.files,
+          failingIterations: candidate.failingIterations,
+          automatic: !rollback,
+        };
+      } else {
+        rollbackError = reset.error;
+        console.error(`Ralph rollback of loop ${state.id} failed: ${reset.error}`);
+        span?.setError(reset.error ?? "rollback failed");
+      }
+      span?.end();
+    } else if (candidate) {
+      rollbackOffer = candidate;
+    }
+
+    // Create git commit if auto-commit is enabled
+    let gitCommit: string | undefined;
+    if (state.autoCommit && state.gitEnabled && this.gitManager.isEnabled()) {
+      const span = traceParent && this.tracer?.startSpan("ralph.git.commit", traceParent, {
+        "ralph.loop.id": state.id,
+        "ralph.iteration": state.iteration,
+      });
+      const commitResult = this.gitManager.createCommit(
+        `Iteration ${state.iteration} (${state.id})`,
+        state.iteration
+      );
+      if (commitResult.success && commitResult.commit) {
+        gitCommit = commitResult.commit;
+      }
+      span?.setAttributes({ "ralph.git.commit": gitCommit, "ralph.git.committed": gitCommit !== undefined });
+      span?.end();
+    }
+
+    // Process the iteration with metadata
+    const result = this.ralphManager.processIteration(last_output, {
+      filesModified: files_modified as string[] | undefined,
+      commandsRun: commands_run as string[] | undefined,
+      errors: allErrors.length > 0 ? allErrors : undefined,
+      gitCommit,
+      externalToolsRun: toolResults.length > 0 ? toolResults : undefined,
+      verification,
+      usage: iterationUsage,
+      ...changes,
+      artifacts: iterationArtifacts,
+      rollback: rollbackResult,
+      rollbackOffer,
+    }, state.id, state.iteration);
+
+    if (result.completed) {
+      const lines: string[] = [];
+      if (result.completionDetected) {
+        lines.push("✅ Ralph loop completed!");
+        lines.push(``);
+        lines.push(result.reason);
+      } else {
+        lines.push("🛑 Ralph loop stopped.");
+        lines.push(``);
+        lines.push(result.reason);
+      }
+
+      if (result.archiveId) {
+        lines.push(`Archived as: ${result.archiveId}`);
+      }
+
+      // Add summary (the finished loop's state is no longer tracked by the manager)
+      const history = result.state?.history ?? state.history;
+      if (history.length > 0) {
+        lines.push("");
+        lines.push("📊 Session Summary:");
+        lines.push(`  Total iterations: ${history.length}`);
+
+        const totalDuration = history
+          .filter((h) => h.duration)
+          .reduce((sum, h) => sum + (h.duration || 0), 0);
+        if (totalDuration > 0) {
+          lines.push(
+            `  Total time: ${Math.floor(totalDuration / 1000)}s`
+          );
+        }
+
+        const filesChanged = new Set(
+          history.flatMap((h) => h.filesModified || [])
+        );
+        if (filesChanged.size > 0) {
+          lines.push(`  Files modified: ${filesChanged.size}`);
+        }
+      }
+
+      lines.push("");
+      lines.push("The loop has ended. You can now exit or start a new loop.");
+      return lines.join("\n");
+    }
+
+    // Continue loop
+    const lines: string[] = [];
+    lines.push(`🔄 Ralph iteration ${result.iteration} (loop ${state.id})`);
+    lines.push("");
+
+    if (result.promiseRejected) {
+      lines.push("❌ Completion promise REJECTED - the loop continues");
+      lines.push("");
+      for (const line of result.promiseRejected.split("\n")) {
+        lines.push(`  ${line}`);
+      }
+      lines.push("");
+      lines.push("Fix these failures before claiming completion again.");
+      lines.push("");
+    }
+
+    if (result.rollback) {
+      const { toIteration, commit, discardedCommits, stash, files } = result.rollback;
+      lines.push(
+        `♻️  ROLLED BACK to iteration ${toIteration} (commit ${commit.substring(0, 7)}) - ${state.regressionPolicy?.presets.join(", ")} kept failing after passing there`
+      );
+      lines.push(`  Discarded: ${discardedCommits.length} commit(s), ${files.length} changed file(s)`);
+      if (stash) {
+        lines.push(`  Uncommitted work stashed as ${stash.substring(0, 7)} (git stash list)`);
+      }
+      lines.push("  The working tree is back at the green iteration; a note records what was discarded.");
+      lines.push("");
+    } else if (rollbackError) {
+      lines.push(`⚠️  Rollback failed, nothing was reset: ${rollbackError}`);
+      lines.push("");
+    }
+
+    if (result.rollbackOffer) {
+      const { iteration, failingIterations, failures } = result.rollbackOffer;
+      lines.push(
+        `♻️  Rollback available: ${state.regressionPolicy?.presets.join(", ")} passed in iteration ${iteration} but failed in iteration(s) ${failingIterations.join(", ")} (${failures} failure(s) now)`
+      );
+      lines.push(
+        "  Call ralph_iterate with rollback: true next time to stash the work and reset to that iteration's commit."
+      );
+      lines.push("");
+    }
+
+    if (result.testDelta) {
+      if (result.testDelta.newlyFailing.length > 0) {
+        lines.push(
+          `🚨 REGRESSION - ${result.testDelta.newlyFailing.length} test(s) started failing since iteration ${result.testDelta.since}`
+        );
+      }
+      lines.push(`🧪 Test changes since iteration ${result.testDelta.since}:`);
+      lines.push(...formatTestDelta(result.testDelta));
+      lines.push("");
+    }
+
+    if (result.budgetWarnings && result.budgetWarnings.length > 0) {
+      lines.push("💰 Budget warning - nearly exhausted:");
+      result.budgetWarnings.forEach((warning) => {
+        lines.push(`  • ${warning}`);
+      });
+      lines.push("");
+    }
+
+    // Show progress insights if available
+    if (result.progress) {
+      if (result.progress.stagnationDetected) {
+        lines.push("⚠️  " + result.progress.stagnationReason);
+        lines.push("");
+      }
+
+      // Includes resolutions from the lessons store, with or without stagnation
+      if (result.progress.suggestedActions.length > 0) {
+        lines.push("💡 Suggested actions:");
+        result.progress.suggestedActions.forEach((action) => {
+          lines.push(`  • ${action}`);
+        });
+        lines.push("");
+      }
+
+      if (result.progress.repeatedErrors.length > 0) {
+        lines.push("🔁 Repeated errors detected:");
+        result.progress.repeatedErrors.forEach((cluster) => {
+          lines.push(`  • ${formatErrorCluster(cluster, 80)}`);
+        });
+        lines.push("");
+      }
+
+      const trends = result.progress.signals.filter((trend) => trend.signal !== "diff_size");
+      if (trends.length > 0) {
+        lines.push("📊 Progress signals:");
+        trends.forEach((trend) => {
+          lines.push(`  • ${formatSignalTrend(trend)}`);
+        });
+        lines.push("");
+      }
+
+      if (result.progress.eta) {
+        lines.push(`📈 Estimated iterations remaining: ${formatEta(result.progress.eta)}`);
+        lines.push("");
+      }
+    }
+
+    if (result.notes && result.notes.length > 0) {
+      lines.push("📝 Notes from previous iterations (latest first):");
+      [...result.notes].reverse().forEach((note) => {
+        const [first, ...rest] = note.text.split("\n");
+        lines.push(`  • [iteration ${note.iteration}] ${first}`);
+        rest.forEach((line) => lines.push(`    ${line}`));
+      });
+      lines.push("");
+    }
+
+    lines.push(result.reason);
+    lines.push("");
+    lines.push("═══════════════════════════════════════════════════════════");
+    lines.push(
+      state.feedbackPrompt
+        ? "CONTINUE - Prompt with Feedback for Next Iteration"
+        : "CONTINUE - Same Prompt for Next Iteration"
+    );
+    lines.push("═══════════════════════════════════════════════════════════");
+    lines.push("");
+    lines.push(result.nextPrompt || "(No prompt available)");
+    lines.push("");
+    lines.push("═══════════════════════════════════════════════════════════");
+    lines.push("");
+    lines.push(
+      "Your previous work persists in files and git history."
+    );
+    lines.push(
+      `Continue working on this task. When done, call ralph_iterate again with loop_id: ${state.id}`
+    );
+
+    if (state.completionCondition) {
+      lines.push("");
+      lines.push(
+        `Reminder: The loop completes when ${describeCompletionCondition(state.completionCondition)}`
+      );
+    } else if (state.completionPromise) {
+      lines.push("");
+      lines.push(`Reminder: To complete, output <promise>${state.completionPromise}</promise>`);
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Read the optional loop_id argument
+   */
+  private getLoopIdArg(loopId: unknown): string | undefined {
+    if (loopId === undefined || loopId === null || loopId === "") {
+      return undefined;
+    }
+    if (typeof loopId !== "string") {
+      throw new Error("loop_id must be a string");
+    }
+    return loopId;
+  }
+
+  /**
+   * Read an optional positive integer argument
+   */
+  private getPositiveIntegerArg(value: unknown, name: string): number | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+      throw new Error(`${name} must be a positive integer`);
+    }
+    return value;
+  }
+
+  /**
+   * Read an optional non-negative budget argument (0 = unlimited)
+   */
+  private getBudgetArg(value: unknown, name: string): number | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      throw new Error(`${name} must be a non-negative number`);
+    }
+    return value > 0 ? value : undefined;
+  }
+
+  /**
+   * Read the optional similarity argument of ralph_loop
+   */
+  private getSimilarityArg(value: unknown): Partial<RalphSimilaritySettings> | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (typeof value !== "object" || Array.isArray(value)) {
+      throw new Error("similarity must be an object");
+    }
+
+    const { output_threshold, diff_threshold, window } = value as Record<string, unknown>;
+    const settings: Partial<RalphSimilaritySettings> = {};
+    for (const [name, field, key] of [
+      ["similarity.output_threshold", output_threshold, "outputThreshold"],
+      ["similarity.diff_threshold", diff_threshold, "diffThreshold"],
+    ] as const) {
+      if (field === undefined) continue;
+      if (typeof field !== "number" || !(field > 0 && field <= 1)) {
+        throw new Error(`${name} must be a number greater than 0 and at most 1`);
+      }
+      settings[key] = field;
+    }
+    if (window !== undefined) {
+      if (typeof window !== "number" || !Number.isInteger(window) || window < 2 || window > 20) {
+        throw new Error("similarity.window must be an integer from 2 to 20");
+      }
+      settings.window = window;
+    }
+    return settings;
+  }
+
+  /**
+   * Read the optional regression_policy argument of ralph_loop
+   */
+  private getRegressionPolicyArg(value: unknown): RalphRegressionPolicy | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (typeof value !== "object" || Array.isArray(value)) {
+      throw new Error("regression_policy must be an object");
+    }
+
+    const { presets, iterations = 2, mode = "offer" } = value as Record<string, unknown>;
+    if (
+      !Array.isArray(presets) ||
+      presets.length === 0 ||
+      !presets.every((preset) => typeof preset === "string")
+    ) {
+      throw new Error("regression_policy.presets must be a non-empty array of tool preset names");
+    }
+    const unknownPresets = presets.filter((preset) => !this.toolsManager.hasPreset(preset));
+    if (unknownPresets.length > 0) {
+      throw new Error(
+        `Unknown tool preset(s) in regression_policy.presets: ${unknownPresets.join(", ")}. Use ralph_list_tools to see available presets.`
+      );
+    }
+    if (typeof iterations !== "number" || !Number.isInteger(iterations) || iterations < 1 || iterations > 20) {
+      throw new Error("regression_policy.iterations must be an integer from 1 to 20");
+    }
+    if (mode !== "offer" && mode !== "auto") {
+      throw new Error('regression_policy.mode must be "offer" or "auto"');
+    }
+    return { presets, iterations, mode };
+  }
+
+  /**
+   * Read the optional artifacts argument of ralph_iterate (SECURE: attached
+   * files must resolve, after symlinks, to a file inside the working directory)
+   */
+  private getArtifactsArg(value: unknown): RalphArtifact[] | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (!Array.isArray(value)) {
+      throw new Error("artifacts must be an array");
+    }
+
+    return value.map((item, i) => {
+      if (typeof item !== "object" || item === null || Array.isArray(item)) {
+        throw new Error(`artifacts[${i}] must be an object`);
+      }
+      const { name, path, content } = item as Record<string, unknown>;
+      if (name !== undefined && (typeof name !== "string" || name.trim() === "")) {
+        throw new Error(`artifacts[${i}].name must be a non-empty string`);
+      }
+      if ((path === undefined) === (content === undefined)) {
+        throw new Error(`artifacts[${i}] needs either path or content`);
+      }
+
+      if (content !== undefined) {
+        if (typeof content !== "string") {
+          throw new Error(`artifacts[${i}].content must be a string`);
+        }
+        if (Buffer.byteLength(content) > MAX_ARTIFACT_BYTES) {
+          throw new Error(`artifacts[${i}] is larger than ${MAX_ARTIFACT_BYTES} bytes`);
+        }
+        return { name: (name as string | undefined) ?? `artifact-${i + 1}`, data: content };
+      }
+
+      if (typeof path !== "string" || path.trim() === "") {
+        throw new Error(`artifacts[${i}].path must be a non-empty string`);
+      }
+      const realPath = this.resolveWorkingDirPath(path, `artifacts[${i}].path`);
+      if (!existsSync(realPath)) {
+        throw new Error(`artifacts[${i}].path not found: ${path}`);
+      }
+      const stats = statSync(realPath);
+      if (!stats.isFile()) {
+        throw new Error(`artifacts[${i}].path is not a file: ${path}`);
+      }
+      if (stats.size > MAX_ARTIFACT_BYTES) {
+        throw new Error(`artifacts[${i}] is larger than ${MAX_ARTIFACT_BYTES} bytes: ${path}`);
+      }
+      return {
+        name: (name as string | undefined) ?? relative(realpathSync(process.cwd()), realPath),
+        data: readFileSync(realPath),
+      };
+    });
+  }
+
+  /**
+   * Resolve a path argument to a location inside the working directory,
+   * which need not exist yet (SECURE: symlinks in the existing part of the
+   * path are resolved, so a link cannot lead outside the working directory)
+   */
+  private resolveWorkingDirPath(path: string, name: string): string {
+    const workingDir = realpathSync(process.cwd());
+    let existing = resolve(workingDir, path);
+    const missing: string[] = [];
+    while (!existsSync(existing) && dirname(existing) !== existing) {
+      missing.unshift(basename(existing));
+      existing = dirname(existing);
+    }
+
+    const realPath = join(realpathSync(existing), ...missing);
+    const relativePath = relative(workingDir, realPath);
+    if (
+      relativePath === "" ||
+      relativePath === ".." ||
+      relativePath.startsWith(`..${sep}`) ||
+      isAbsolute(relativePath)
+    ) {
+      throw new Error(`${name} must be inside the working directory: ${path}`);
+    }
+    return realPath;
+  }
+
+  /**
+   * Read the optional usage argument of ralph_iterate
+   */
+  private getUsageArg(value: unknown): RalphIterationUsage | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (typeof value !== "object" || Array.isArray(value)) {
+      throw new Error("usage must be an object");
+    }
+
+    const { tokens, input_tokens, output_tokens, model, cost } = value as Record<string, unknown>;
+    for (const [name, field] of [
+      ["usage.tokens", tokens],
+      ["usage.input_tokens", input_tokens],
+      ["usage.output_tokens", output_tokens],
+      ["usage.cost", cost],
+    ] as const) {
+      if (field !== undefined && (typeof field !== "number" || !Number.isFinite(field) || field < 0)) {
+        throw new Error(`${name} must be a non-negative number`);
+      }
+    }
+    if (model !== undefined && (typeof model !== "string" || model.length === 0 || model.length > 200)) {
+      throw new Error("usage.model must be a non-empty string of at most 200 characters");
+    }
+
+    return {
+      tokens: tokens as number | undefined,
+      inputTokens: input_tokens as number | undefined,
+      outputTokens: output_tokens as number | undefined,
+      model: model as string | undefined,
+      cost: cost as number | undefined,
+    };
+  }
+
+  /**
+   * Handle ralph_cancel tool
+   */
+  private handleRalphCancel(args: Record<string, unknown>): string {
+    const loopId = this.getLoopIdArg(args.loop_id);
+    const { abandon = false } = args;
+
+    if (typeof abandon !== "boolean") {
+      throw new Error("abandon must be a boolean");
+    }
+
+    if (!this.ralphManager.isLoopActive(loopId)) {
+      return loopId
+        ? `No active Ralph loop with ID ${loopId}.`
+        : "No active Ralph loop found.";
+    }
+
+    const state = this.ralphManager.getState(loopId);
+    const iteration = state?.iteration || 0;
+
+    const archived = this.ralphManager.cancelLoop(
+      state?.id,
+      abandon ? "abandoned" : "cancelled"
+    );
+
+    if (archived) {
+      return (
+        `✅ ${abandon ? "Abandoned" : "Cancelled"} Ralph loop ${state?.id} (was at iteration ${iteration})\n` +
+        `Archived as: ${archived.archiveId}`
+      );
+    }
+
+    return "Failed to cancel Ralph loop.";
+  }
+
+  /**
+   * Snapshot the working tree and compare it with the previous iteration's
+   * snapshot (nothing without git)
+   */
+  private snapshotChanges(
+    state: RalphLoopState,
+    traceParent?: RalphTraceContext
+  ): Pick<RalphIterationMetadata, "snapshot" | "diff" | "fileVersions" | "filesChanged"> {
+    if (!state.gitEnabled) {
+      return {};
+    }
+
+    const span = traceParent && this.tracer?.startSpan("ralph.git.snapshot", traceParent, {
+      "ralph.loop.id": state.id,
+      "ralph.iteration": state.iteration,
+    });
+    const snapshot = this.gitManager.createSnapshot() ?? undefined;
+    const previousEntry = state.history[state.history.length - 1];
+    const previousSnapshot =
+      previousEntry?.snapshot ?? previousEntry?.gitCommit ?? state.startSnapshot;
+    if (!snapshot || !previousSnapshot) {
+      span?.end();
+      return { snapshot };
+    }
+
+    const diff = this.gitManager.getSnapshotDiff(previousSnapshot, snapshot);
+    const versions = this.gitManager.getChangedFileVersions(previousSnapshot, snapshot);
+    const filesChanged = Object.keys(versions);
+    span?.setAttributes({ "ralph.files_changed": filesChanged.length });
+    span?.end();
+    return {
+      snapshot,
+      diff,
+      fileVersions: filesChanged.length > 0 ? versions : undefined,
+      filesChanged,
+    };
+  }
+
+  /**
+   * Handle ralph_pause tool
+   */
+  private handleRalphPause(args: Record<string, unknown>): string {
+    const loopId = this.getLoopIdArg(args.loop_id);
+    const { reason } = args;
+
+    if (reason !== undefined && typeof reason !== "string") {
+      throw new Error("reason must be a string");
+    }
+
+    const state = this.ralphManager.getState(loopId);
+    if (!state || !state.active) {
+      return loopId
+        ? `No active Ralph loop with ID ${loopId}.`
+        : "No active Ralph loop found.";
+    }
+
+    if (state.paused) {
+      return `Ralph loop ${state.id} is already paused (since ${state.pausedAt}).`;
+    }
+
+    if (!this.ralphManager.pauseLoop(reason || undefined, state.id)) {
+      return "Failed to pause Ralph loop.";
+    }
+
+    const lines: string[] = [];
+    lines.push(`⏸️  Paused Ralph loop ${state.id} at iteration ${state.iteration}`);
+    if (reason) {
+      lines.push(`Reason: ${reason}`);
+    }
+    lines.push("");
+    lines.push("Iterations are rejected until you call ralph_resume.");
+    return lines.join("\n");
+  }
+
+  /**
+   * Handle ralph_resume tool
+   */
+  private handleRalphResume(args: Record<string, unknown>): string {
+    const loopId = this.getLoopIdArg(args.loop_id);
+
+    const state = this.ralphManager.getState(loopId);
+    if (!state || !state.active) {
+      return loopId
+        ? `No active Ralph loop with ID ${loopId}.`
+        : "No active Ralph loop found.";
+    }
+
+    const resumed = this.ralphManager.resumeLoop(state.id);
+    if (!resumed) {
+      return `Ralph loop ${state.id} is not paused.`;
+    }
+
+    // The loop may have moved on since it was read above; report it as resumed
+    const { state: current, pausedMs } = resumed;
+
+    const lines: string[] = [];
+    lines.push(
+      `▶️  Resumed Ralph loop ${current.id} at iteration ${current.iteration} (paused for ${Math.floor(
+        pausedMs / 1000
+      )}s)`
+    );
+    lines.push("");
+    lines.push("═══════════════════════════════════════════════════════════");
+    lines.push("CONTINUE - Ralph Loop Prompt");
+    lines.push("═══════════════════════════════════════════════════════════");
+    lines.push("");
+    lines.push(current.prompt);
+    lines.push("");
+    lines.push(
+      `When done, call ralph_iterate with loop_id: ${current.id}`
+    );
+    return lines.join("\n");
+  }
+
+  /**
+   * Handle ralph_status tool
+   */
+  private handleRalphStatus(args: Record<string, unknown>): string {
+    return this.ralphManager.getStatus(this.getLoopIdArg(args.loop_id));
+  }
+
+  /**
+   * Handle ralph_list_loops tool
+   */
+  private handleListLoops(): string {
+    return this.ralphManager.getLoopsReport();
+  }
+
+  /**
+   * Handle ralph_note_add tool
+   */
+  private handleNoteAdd(args: Record<string, unknown>): string {
+    const loopId = this.getLoopIdArg(args.loop_id);
+    const { text } = args;
+    if (typeof text !== "string") {
+      throw new Error("text is required and must be a string");
+    }
+
+    const note = this.ralphManager.addNote(text, loopId);
+    if (!note) {
+      return loopId
+        ? `No active Ralph loop with ID ${loopId}.`
+        : "No active Ralph loop found.";
+    }
+    return `📝 Added note #${note.id} (iteration ${note.iteration}). It will be shown when the loop continues.`;
   }
 
   /**
-   * Handle ralph_iterate tool with enhanced features
+   * Handle ralph_note_list tool
    */
-  private async handleRalphIterate(args: Record<string, unknown>): Promise<string> {
-    const {
-      last_output,
-      files_modified,
-      commands_run,
-      errors,
-      run_tools,
-    } = args;
+  private handleNoteList(args: Record<string, unknown>): string {
+    const loopId = this.getLoopIdArg(args.loop_id);
+    const sinceIteration = this.getPositiveIntegerArg(args.since_iteration, "since_iteration");
+    return this.ralphManager.getNotesReport(loopId, sinceIteration);
+  }
 
-    if (typeof last_output !== "string") {
-      throw new Error("last_output is required and must be a string");
+  /**
+   * Handle ralph_note_clear tool
+   */
+  private handleNoteClear(args: Record<string, unknown>): string {
+    const loopId = this.getLoopIdArg(args.loop_id);
+    const noteId = this.getPositiveIntegerArg(args.note_id, "note_id");
+    const beforeIteration = this.getPositiveIntegerArg(args.before_iteration, "before_iteration");
+    if (noteId !== undefined && beforeIteration !== undefined) {
+      throw new Error("Give either note_id or before_iteration, not both");
     }
 
-    // Check if loop is active
-    if (!this.ralphManager.isLoopActive()) {
-      return "⚠️  No active Ralph loop found.\n\nUse ralph_loop to start a new loop.";
+    const removed = this.ralphManager.clearNotes({ noteId, beforeIteration }, loopId);
+    if (removed === null) {
+      return loopId
+        ? `No active Ralph loop with ID ${loopId}.`
+        : "No active Ralph loop found.";
     }
+    if (noteId !== undefined && removed === 0) {
+      return `Note #${noteId} not found.`;
+    }
+    return `🧹 Removed ${removed} note(s).`;
+  }
 
-    const state = this.ralphManager.getState();
-    if (!state) {
-      return "⚠️  Unable to get loop state.";
+  /**
+   * Handle ralph_recover tool
+   */
+  private handleRecover(): string {
+    return this.ralphManager.getRecoveryReport();
+  }
+
+  /**
+   * Handle ralph_history tool
+   */
+  private handleRalphHistory(args: Record<string, unknown>): string {
+    return this.ralphManager.getHistoryReport(this.getLoopIdArg(args.loop_id));
+  }
+
+  /**
+   * Handle ralph_usage tool
+   */
+  private handleUsage(args: Record<string, unknown>): string {
+    const { include_archived = true } = args;
+    if (typeof include_archived !== "boolean") {
+      throw new Error("include_archived must be a boolean");
     }
+    return this.ralphManager.getUsageReport(include_archived);
+  }
 
-    // Run external tools if requested
-    let toolResults: ExternalToolResult[] = [];
-    if (run_tools && Array.isArray(run_tools)) {
-      for (const presetName of run_tools) {
-        if (typeof presetName === "string") {
-          try {
-            const results = await this.toolsManager.runPreset(presetName);
-            toolResults.push(...results);
-          } catch (error) {
-            // Tool not available or failed - continue
-          }
-        }
+  /**
+   * Handle ralph_lessons tool
+   */
+  private handleLessons(args: Record<string, unknown>): string {
+    const { action = "list", lesson_id, search, older_than_days, limit = 20 } = args;
+
+    if (action !== "list" && action !== "prune") {
+      throw new Error('action must be "list" or "prune"');
+    }
+    for (const [name, value] of [["lesson_id", lesson_id], ["search", search]] as const) {
+      if (value !== undefined && (typeof value !== "string" || value.length === 0 || value.length > 200)) {
+        throw new Error(`${name} must be a non-empty string of at most 200 characters`);
       }
     }
+    if (
+      older_than_days !== undefined &&
+      (typeof older_than_days !== "number" || !Number.isFinite(older_than_days) || older_than_days < 0)
+    ) {
+      throw new Error("older_than_days must be a non-negative number");
+    }
+    if (typeof limit !== "number" || !Number.isInteger(limit) || limit < 1 || limit > 200) {
+      throw new Error("limit must be an integer from 1 to 200");
+    }
 
-    // Extract errors from tool results
-    const toolErrors: string[] = [];
-    for (const result of toolResults) {
-      if (result.exitCode !== 0) {
-        toolErrors.push(`${result.name} failed`);
-      }
+    const filter: RalphLessonFilter = {
+      lessonId: lesson_id as string | undefined,
+      search: search as string | undefined,
+      olderThanDays: older_than_days as number | undefined,
+    };
+    if (action === "list") {
+      return this.ralphManager.getLessonsReport(filter, limit);
     }
 
-    // Combine user-reported errors with tool errors
-    const userErrors = Array.isArray(errors) ? errors : [];
-    const allErrors = [...userErrors, ...toolErrors];
+    // Pruning everything by accident is easy, so ask for a filter
+    if (Object.values(filter).every((value) => value === undefined)) {
+      throw new Error("prune needs lesson_id, search or older_than_days (older_than_days: 0 removes all lessons)");
+    }
+    const removed = this.ralphManager.pruneLessons(filter);
+    return `🧹 Removed ${removed} lesson(s).`;
+  }
 
-    // Create git commit if auto-commit is enabled
-    let gitCommit: string | undefined;
-    if (state.autoCommit && state.gitEnabled && this.gitManager.isEnabled()) {
-      const commitResult = this.gitManager.createCommit(
-        `Iteration ${state.iteration}`,
-        state.iteration
-      );
-      if (commitResult.success && commitResult.commit) {
-        gitCommit = commitResult.commit;
+  /**
+   * Handle ralph_search_history tool
+   */
+  private handleSearchHistory(args: Record<string, unknown>): string {
+    const {
+      file,
+      command,
+      error,
+      error_regex,
+      tool,
+      tool_status,
+      completed,
+      since,
+      until,
+      include_archived = true,
+      limit = 20,
+    } = args;
+
+    const query: RalphHistoryQuery = { loopId: this.getLoopIdArg(args.loop_id) };
+    for (const [name, value, key] of [
+      ["file", file, "file"],
+      ["command", command, "command"],
+      ["error", error, "errorSubstring"],
+      ["error_regex", error_regex, "errorPattern"],
+      ["tool", tool, "tool"],
+    ] as const) {
+      if (value === undefined) continue;
+      if (typeof value !== "string" || value.trim() === "") {
+        throw new Error(`${name} must be a non-empty string`);
       }
+      query[key] = value;
     }
 
-    // Process the iteration with metadata
-    const result = this.ralphManager.processIteration(last_output, {
-      filesModified: files_modified as string[] | undefined,
-      commandsRun: commands_run as string[] | undefined,
-      errors: allErrors.length > 0 ? allErrors : undefined,
-      gitCommit,
-      externalToolsRun: toolResults.length > 0 ? toolResults : undefined,
-    });
-
-    if (result.completed) {
-      const lines: string[] = [];
-      if (result.completionDetected) {
-        lines.push("✅ Ralph loop completed!");
-        lines.push(``);
-        lines.push(result.reason);
-      } else {
-        lines.push("🛑 Ralph loop stopped.");
-        lines.push(``);
-        lines.push(result.reason);
+    if (tool_status !== undefined) {
+      if (tool_status !== "passed" && tool_status !== "failed") {
+        throw new Error('tool_status must be "passed" or "failed"');
+      }
+      query.toolStatus = tool_status;
+    }
+    if (completed !== undefined) {
+      if (typeof completed !== "boolean") {
+        throw new Error("completed must be a boolean");
+      }
+      query.completionDetected = completed;
+    }
+    for (const [name, value, key] of [
+      ["since", since, "since"],
+      ["until", until, "until"],
+    ] as const) {
+      if (value === undefined) continue;
+      const time = typeof value === "string" ? Date.parse(value) : NaN;
+      if (isNaN(time)) {
+        throw new Error(`${name} must be an ISO date or timestamp`);
       }
+      query[key] = new Date(time).toISOString();
+    }
+    if (typeof include_archived !== "boolean") {
+      throw new Error("include_archived must be a boolean");
+    }
+    query.includeArchived = include_archived;
+    if (typeof limit !== "number" || !Number.isInteger(limit) || limit < 1 || limit > 200) {
+      throw new Error("limit must be an integer from 1 to 200");
+    }
+    query.limit = limit;
 
-      // Add summary
-      const history = this.ralphManager.getHistory();
-      if (history.length > 0) {
-        lines.push("");
-        lines.push("📊 Session Summary:");
-        lines.push(`  Total iterations: ${history.length}`);
+    return this.ralphManager.searchHistory(query);
+  }
 
-        const totalDuration = history
-          .filter((h) => h.duration)
-          .reduce((sum, h) => sum + (h.duration || 0), 0);
-        if (totalDuration > 0) {
-          lines.push(
-            `  Total time: ${Math.floor(totalDuration / 1000)}s`
-          );
-        }
+  /**
+   * Handle ralph_list_archived tool
+   */
+  private handleListArchived(args: Record<string, unknown>): string {
+    const { outcome, limit = 20 } = args;
+    const loopId = this.getLoopIdArg(args.loop_id);
+
+    const outcomes: RalphLoopOutcome[] = [
+      "completed",
+      "cancelled",
+      "max_iterations",
+      "budget_exhausted",
+      "abandoned",
+    ];
+    if (
+      outcome !== undefined &&
+      !outcomes.includes(outcome as RalphLoopOutcome)
+    ) {
+      throw new Error(`outcome must be one of: ${outcomes.join(", ")}`);
+    }
 
-        const filesChanged = new Set(
-          history.flatMap((h) => h.filesModified || [])
-        );
-        if (filesChanged.size > 0) {
-          lines.push(`  Files modified: ${filesChanged.size}`);
-        }
-      }
+    if (typeof limit !== "number" || limit < 1 || !Number.isInteger(limit)) {
+      throw new Error("limit must be a positive integer");
+    }
 
-      lines.push("");
-      lines.push("The loop has ended. You can now exit or start a new loop.");
-      return lines.join("\n");
+    return this.ralphManager.getArchivedLoopsReport(
+      { loopId, outcome: outcome as RalphLoopOutcome | undefined },
+      limit
+    );
+  }
+
+  /**
+   * Handle ralph_show_archived tool
+   */
+  private handleShowArchived(args: Record<string, unknown>): string {
+    const { archive_id } = args;
+
+    if (typeof archive_id !== "string" || archive_id.trim() === "") {
+      throw new Error("archive_id is required and must be a string");
     }
 
-    // Continue loop
-    const lines: string[] = [];
-    lines.push("🔄 Ralph iteration " + result.iteration);
-    lines.push("");
+    return this.ralphManager.getArchivedLoopReport(archive_id);
+  }
 
-    // Show progress insights if available
-    if (result.progress) {
-      if (result.progress.stagnationDetected) {
-        lines.push("⚠️  " + result.progress.stagnationReason);
-        lines.push("");
-        if (result.progress.suggestedActions.length > 0) {
-          lines.push("💡 Suggested actions:");
-          result.progress.suggestedActions.forEach((action) => {
-            lines.push(`  • ${action}`);
-          });
-          lines.push("");
-        }
-      }
+  /**
+   * Handle ralph_export tool
+   */
+  private handleExport(args: Record<string, unknown>): string {
+    const { archive_id, format, path } = args;
+    const loopId = this.getLoopIdArg(args.loop_id);
 
-      if (result.progress.repeatedErrors.length > 0) {
-        lines.push("🔁 Repeated errors detected:");
-        result.progress.repeatedErrors.forEach((error) => {
-          lines.push(`  • ${error.substring(0, 80)}...`);
-        });
-        lines.push("");
-      }
+    if (typeof format !== "string" || !Object.hasOwn(EXPORT_FORMATS, format)) {
+      throw new Error(`format must be one of: ${Object.keys(EXPORT_FORMATS).join(", ")}`);
+    }
+    if (archive_id !== undefined && (typeof archive_id !== "string" || archive_id.trim() === "")) {
+      throw new Error("archive_id must be a non-empty string");
+    }
+    if (archive_id !== undefined && loopId) {
+      throw new Error("Pass either loop_id or archive_id, not both");
+    }
+    if (path !== undefined && (typeof path !== "string" || path.trim() === "")) {
+      throw new Error("path must be a non-empty string");
+    }
 
-      if (result.progress.estimatedIterationsRemaining !== undefined) {
-        lines.push(
-          `📈 Estimated iterations remaining: ${result.progress.estimatedIterationsRemaining}`
-        );
-        lines.push("");
+    const source = this.ralphManager.getExportSource({ loopId, archiveId: archive_id });
+    if (!source) {
+      if (archive_id) {
+        return `Archived loop not found: ${archive_id}\n\nUse ralph_list_archived to see archived loops.`;
       }
+      return loopId
+        ? `⚠️  No Ralph loop with ID ${loopId}.\n\nUse ralph_list_loops to see available loops.`
+        : "⚠️  No active Ralph loop found.\n\nPass loop_id or archive_id to choose a loop to export.";
     }
 
-    lines.push(result.reason);
-    lines.push("");
-    lines.push("═══════════════════════════════════════════════════════════");
-    lines.push("CONTINUE - Same Prompt for Next Iteration");
-    lines.push("═══════════════════════════════════════════════════════════");
-    lines.push("");
-    lines.push(result.nextPrompt || "(No prompt available)");
-    lines.push("");
-    lines.push("═══════════════════════════════════════════════════════════");
-    lines.push("");
-    lines.push(
-      "Your previous work persists in files and git history."
-    );
-    lines.push(
-      "Continue working on this task. When done, call ralph_iterate again."
-    );
-
-    if (state.completionPromise) {
-      lines.push("");
-      lines.push(`Reminder: To complete, output <promise>${state.completionPromise}</promise>`);
+    const exportFormat = format as RalphExportFormat;
+    const outputPath =
+      path ??
+      join(EXPORT_DIR, `${source.archiveId ?? source.state.id}.${EXPORT_FORMATS[exportFormat].extension}`);
+    const target = this.resolveWorkingDirPath(outputPath, "path");
+    if (isStoragePath(target, this.ralphManager.getStoragePaths())) {
+      throw new Error(`path must not point into the loop storage: ${outputPath}`);
     }
+    const content = exportLoop(source, exportFormat);
+    writeFileAtomic(target, content);
 
+    const lines: string[] = [];
+    lines.push(`📤 Exported loop ${source.archiveId ?? source.state.id} (${source.state.history.length} iteration(s))`);
+    lines.push(`Format: ${EXPORT_FORMATS[exportFormat].description}`);
+    lines.push(`File: ${relative(realpathSync(process.cwd()), target)} (${Buffer.byteLength(content)} bytes)`);
     return lines.join("\n");
   }
 
   /**
-   * Handle ralph_cancel tool
+   * Handle ralph_get_artifact tool
    */
-  private handleRalphCancel(): string {
-    if (!this.ralphManager.isLoopActive()) {
-      return "No active Ralph loop found.";
+  private handleGetArtifact(args: Record<string, unknown>): string {
+    const { hash, offset = 0, max_bytes = DEFAULT_ARTIFACT_READ_BYTES } = args;
+
+    if (typeof hash !== "string" || hash.trim() === "") {
+      throw new Error("hash is required and must be a string");
+    }
+    if (typeof offset !== "number" || !Number.isInteger(offset) || offset < 0) {
+      throw new Error("offset must be a non-negative integer");
+    }
+    if (
+      typeof max_bytes !== "number" ||
+      !Number.isInteger(max_bytes) ||
+      max_bytes < 1 ||
+      max_bytes > MAX_ARTIFACT_READ_BYTES
+    ) {
+      throw new Error(`max_bytes must be an integer from 1 to ${MAX_ARTIFACT_READ_BYTES}`);
     }
 
-    const state = this.ralphManager.getState();
-    const iteration = state?.iteration || 0;
+    const artifact = this.ralphManager.getArtifact(hash.trim());
+    if (!artifact) {
+      return `No artifact found for ${hash}. It may have been removed by ralph_collect_garbage.`;
+    }
 
-    const cancelled = this.ralphManager.cancelLoop();
+    const { data } = artifact;
+    const lines: string[] = [];
+    lines.push(`📦 Artifact ${artifact.hash}`);
+    lines.push(`Size: ${data.length} bytes`);
 
-    if (cancelled) {
-      return `✅ Cancelled Ralph loop (was at iteration ${iteration})`;
+    // NUL bytes near the start mean binary content
+    if (data.subarray(0, 8000).includes(0)) {
+      lines.push("Binary content - not shown.");
+      return lines.join("\n");
     }
 
-    return "Failed to cancel Ralph loop.";
+    const end = Math.min(offset + max_bytes, data.length);
+    if (offset > 0 || end < data.length) {
+      lines.push(
+        `Showing bytes ${offset}-${end}${end < data.length ? ` (pass offset: ${end} for more)` : ""}`
+      );
+    }
+    lines.push("");
+    lines.push(data.subarray(offset, end).toString("utf-8"));
+    return lines.join("\n");
   }
 
   /**
-   * Handle ralph_status tool
+   * Handle ralph_collect_garbage tool
    */
-  private handleRalphStatus(): string {
-    return this.ralphManager.getStatus();
-  }
+  private handleCollectGarbage(args: Record<string, unknown>): string {
+    const { keep_archived_days = 0 } = args;
 
-  /**
-   * Handle ralph_history tool
-   */
-  private handleRalphHistory(): string {
-    return this.ralphManager.getHistoryReport();
+    if (typeof keep_archived_days !== "number" || !Number.isFinite(keep_archived_days) || keep_archived_days < 0) {
+      throw new Error("keep_archived_days must be a non-negative number");
+    }
+
+    const report = this.ralphManager.collectGarbage(keep_archived_days);
+    const lines: string[] = [];
+    lines.push("🧹 Artifact Garbage Collection");
+    lines.push(`Removed: ${report.removed} (${Math.ceil(report.freedBytes / 1024)} KB freed)`);
+    lines.push(`Kept: ${report.kept}`);
+    return lines.join("\n");
   }
 
   /**
@@ -904,7 +2586,7 @@ regardless of whether they're applicable to the current project.`,
    * Handle ralph_git_commit tool
    */
   private handleGitCommit(args: Record<string, unknown>): string {
-    const { message } = args;
+    const { message, loop_id } = args;
 
     if (!this.gitManager.isEnabled()) {
       return "Git is not available or not in a git repository.";
@@ -914,7 +2596,7 @@ regardless of whether they're applicable to the current project.`,
       throw new Error("message is required and must be a non-empty string");
     }
 
-    const state = this.ralphManager.getState();
+    const state = this.ralphManager.getState(this.getLoopIdArg(loop_id));
     const iteration = state?.iteration || 0;
 
     const result = this.gitManager.createCommit(message, iteration);
@@ -1064,6 +2746,105 @@ regardless of whether they're applicable to the current project.`,
   async start(): Promise<void> {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
+
+    const metricsPort = await this.metrics?.start();
+    if (metricsPort) {
+      console.error(`Ralph metrics served at http://127.0.0.1:${metricsPort}/metrics`);
+    }
+  }
+}
+
+const DEFAULT_STATE_DIR = ".REMOVED/ralph-loops";
+const DEFAULT_DB_PATH = ".REMOVED/ralph-loops.db";
+const LEGACY_STATE_FILE = ".REMOVED/ralph-loop-state.json"; // single-loop state of version 2.x
+
+/**
+ * Read a non-negative number from an environment variable (undefined if unset)
+ */
+function getEnvNumber(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw new Error(`${name} must be a non-negative number, got: ${value}`);
+  }
+  return number;
+}
+
+/**
+ * History log rotation for file storage, from RALPH_HISTORY_MAX_BYTES,
+ * RALPH_HISTORY_MAX_AGE_DAYS and RALPH_HISTORY_GZIP
+ */
+function getHistoryRotation(): RalphHistoryRotation {
+  const maxAgeDays = getEnvNumber("RALPH_HISTORY_MAX_AGE_DAYS");
+  return {
+    maxBytes: getEnvNumber("RALPH_HISTORY_MAX_BYTES"),
+    maxAgeMs: maxAgeDays !== undefined ? maxAgeDays * 24 * 60 * 60 * 1000 : undefined,
+    gzip: process.env.RALPH_HISTORY_GZIP === "true",
+  };
+}
+
+/**
+ * Open the storage backend selected by RALPH_STORAGE ("file" or "sqlite")
+ */
+async function openStorage(): Promise<RalphStorage> {
+  const backend = process.env.RALPH_STORAGE || "file";
+  if (backend === "sqlite") {
+    return SqliteStorage.open(process.env.RALPH_DB_PATH || DEFAULT_DB_PATH);
+  }
+  if (backend !== "file") {
+    throw new Error(`Unknown RALPH_STORAGE backend: ${backend} (use "file" or "sqlite")`);
+  }
+  const storage = new FileStorage(process.env.RALPH_STATE_DIR || DEFAULT_STATE_DIR, getHistoryRotation());
+  const legacy = importLegacyState(storage, LEGACY_STATE_FILE);
+  if (legacy) {
+    console.error(legacy);
+  }
+  return storage;
+}
+
+/**
+ * Import file-based loops and archives into the database backend
+ *
+ * Usage: ralph-wiggum-mcp migrate [--from <stateDir>] [--to <dbPath>]
+ */
+async function runMigration(args: string[]): Promise<void> {
+  let from = process.env.RALPH_STATE_DIR || DEFAULT_STATE_DIR;
+  let to = process.env.RALPH_DB_PATH || DEFAULT_DB_PATH;
+  for (let i = 0; i < args.length; i += 2) {
+    const value = args[i + 1];
+    if (!value) {
+      throw new Error(`Missing value for ${args[i]}`);
+    }
+    if (args[i] === "--from") {
+      from = value;
+    } else if (args[i] === "--to") {
+      to = value;
+    } else {
+      throw new Error(`Unknown option: ${args[i]}. Usage: ralph-wiggum-mcp migrate [--from <stateDir>] [--to <dbPath>]`);
+    }
+  }
+
+  const target = await SqliteStorage.open(to);
+  try {
+    const report = migrateStorage(new FileStorage(from), target, LEGACY_STATE_FILE);
+
+    const lines: string[] = [];
+    lines.push(`Migrated ${from} -> ${to}`);
+    lines.push(`  Loops: ${report.loops}`);
+    lines.push(`  Archived loops: ${report.archives}`);
+    lines.push(`  Iterations: ${report.iterations}`);
+    if (report.skipped.length > 0) {
+      lines.push(`  Skipped (${report.skipped.length}):`);
+      report.skipped.forEach((item) => lines.push(`    • ${item}`));
+    }
+    lines.push("");
+    lines.push("Set RALPH_STORAGE=sqlite to use the database.");
+    console.log(lines.join("\n"));
+  } finally {
+    target.close();
   }
 }
 
@@ -1071,7 +2852,23 @@ regardless of whether they're applicable to the current project.`,
  * Main entry point
  */
 async function main() {
-  const server = new RalphWiggumServer();
+  if (process.argv[2] === "migrate") {
+    await runMigration(process.argv.slice(3));
+    return;
+  }
+
+  const server = new RalphWiggumServer(
+    await openStorage(),
+    {
+      fullHistoryEntries: getEnvNumber("RALPH_HISTORY_LIMIT"),
+      tracer: process.env.RALPH_TRACE_FILE ? new Tracer(process.env.RALPH_TRACE_FILE) : undefined,
+      prices: process.env.RALPH_PRICE_TABLE ? loadPriceTable(process.env.RALPH_PRICE_TABLE) : undefined,
+    },
+    {
+      file: process.env.RALPH_METRICS_FILE || undefined,
+      port: getEnvNumber("RALPH_METRICS_PORT"),
+    }
+  );
   await server.start();
 }
 
@@ -0,0 +1,61 @@
+/**
+ * Lessons Store Tests for Ralph Wiggum MCP Server
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { fingerprintError } from "./fingerprint.js";
+import { getLessonId, LessonsStore } from "./lessons.js";
+
+describe("LessonsStore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ralph-lessons-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const resolution = (error: string, resolvedAt: string) => ({
+    errorKey: fingerprintError(error).key,
+    error,
+    files: ["src/a.ts"],
+    loopId: "a",
+    iteration: 2,
+    resolvedAt,
+  });
+
+  it("should keep one lesson per error fingerprint", () => {
+    const store = new LessonsStore(join(dir, "lessons.json"));
+    expect(store.list()).toEqual([]);
+
+    store.record(resolution("Cannot find module /src/a.ts at 10:4", "2026-01-01T00:00:00.000Z"));
+    const lesson = store.record(resolution("Cannot find module /lib/b.ts at 3:1", "2026-02-01T00:00:00.000Z"));
+
+    expect(lesson.id).toBe(getLessonId("Cannot find module <path> at <n>:<n>"));
+    expect(lesson.timesResolved).toBe(2);
+    expect(new LessonsStore(join(dir, "lessons.json")).list()).toEqual([lesson]);
+    expect(store.find(fingerprintError("Cannot find module /x.ts at 1:1").key)?.error).toBe(
+      "Cannot find module /lib/b.ts at 3:1"
+    );
+  });
+
+  it("should search and remove lessons by ID prefix, text and age", () => {
+    const store = new LessonsStore(join(dir, "lessons.json"));
+    const old = store.record(resolution("old error", "2026-01-01T00:00:00.000Z"));
+    store.record(resolution("new error", "2026-03-01T00:00:00.000Z"));
+    const now = Date.parse("2026-03-10T00:00:00.000Z");
+
+    expect(store.list().map((lesson) => lesson.error)).toEqual(["new error", "old error"]);
+    expect(store.search({ lessonId: old.id.substring(0, 6).toUpperCase() })).toEqual([old]);
+    expect(store.search({ search: "SRC/A" }, now)).toHaveLength(2);
+    expect(store.search({ olderThanDays: 30 }, now)).toEqual([old]);
+
+    expect(store.remove({ olderThanDays: 30 }, now)).toBe(1);
+    expect(store.list().map((lesson) => lesson.error)).toEqual(["new error"]);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Lessons Store for Ralph Wiggum Loops
+ *
+ * Remembers how errors were resolved, across loops in the same repository.
+ * When an error stops recurring, the error, the files changed and
+ * the commit of the iteration that fixed it are recorded. Later loops that
+ * hit an error with the same fingerprint are pointed at the earlier resolution.
+ *
+ * Lessons are kept in one JSON file next to the loop state. Writes happen
+ * under the storage lock, like every other change.
+ */
+
+import { createHash } from "crypto";
+import { existsSync, readFileSync, statSync } from "fs";
+import { writeFileAtomic } from "./locking.js";
+
+const MAX_LESSONS = 500; // the lessons resolved longest ago are dropped
+
+export interface RalphLesson {
+  id: string; // derived from the error fingerprint
+  errorKey: string; // error fingerprint (see fingerprint.ts)
+  error: string; // the error as last reported
+  files: string[]; // files changed by the fixing iteration
+  commit?: string; // commit of the fixing iteration
+  loopId: string;
+  templateId?: string;
+  iteration: number; // iteration that fixed the error
+  resolvedAt: string;
+  timesResolved: number;
+}
+
+export interface RalphLessonFilter {
+  lessonId?: string;
+  search?: string; // case-insensitive substring of the error or a file
+  olderThanDays?: number;
+}
+
+/**
+ * Get the lesson ID of an error fingerprint
+ */
+export function getLessonId(errorKey: string): string {
+  return createHash("sha256").update(errorKey).digest("hex").substring(0, 12);
+}
+
+export class LessonsStore {
+  private path: string;
+  private cache: { version: string; lessons: RalphLesson[] } | null = null;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * List all lessons, most recently resolved first
+   */
+  list(): RalphLesson[] {
+    if (!existsSync(this.path)) {
+      return [];
+    }
+
+    // Progress analysis reads lessons often, so only re-parse a changed file
+    const stats = statSync(this.path);
+    const version = `${stats.ino}:${stats.size}:${stats.mtimeMs}`;
+    if (this.cache?.version !== version) {
+      const parsed = JSON.parse(readFileSync(this.path, "utf-8"));
+      this.cache = { version, lessons: Array.isArray(parsed.lessons) ? parsed.lessons : [] };
+    }
+    return [...this.cache.lessons].sort((a, b) => b.resolvedAt.localeCompare(a.resolvedAt));
+  }
+
+  /**
+   * Find the lesson for an error fingerprint
+   */
+  find(errorKey: string): RalphLesson | undefined {
+    const id = getLessonId(errorKey);
+    return this.list().find((lesson) => lesson.id === id);
+  }
+
+  /**
+   * Record a resolution, replacing an earlier one for the same error
+   */
+  record(resolution: Omit<RalphLesson, "id" | "timesResolved">): RalphLesson {
+    const lessons = this.list();
+    const id = getLessonId(resolution.errorKey);
+    const previous = lessons.find((lesson) => lesson.id === id);
+    const lesson: RalphLesson = {
+      ...resolution,
+      id,
+      timesResolved: (previous?.timesResolved || 0) + 1,
+    };
+
+    this.write([lesson, ...lessons.filter((l) => l.id !== id)].slice(0, MAX_LESSONS));
+    return lesson;
+  }
+
+  /**
+   * Find lessons matching a filter (all lessons without one)
+   */
+  search(filter: RalphLessonFilter = {}, now: number = Date.now()): RalphLesson[] {
+    const search = filter.search?.toLowerCase();
+    const cutoff =
+      filter.olderThanDays !== undefined ? now - filter.olderThanDays * 24 * 60 * 60 * 1000 : undefined;
+
+    return this.list().filter(
+      (lesson) =>
+        (!filter.lessonId || lesson.id.startsWith(filter.lessonId.toLowerCase())) &&
+        (!search ||
+          lesson.error.toLowerCase().includes(search) ||
+          lesson.files.some((file) => file.toLowerCase().includes(search))) &&
+        (cutoff === undefined || Date.parse(lesson.resolvedAt) <= cutoff)
+    );
+  }
+
+  /**
+   * Remove the lessons matching a filter
+   *
+   * @returns Number of lessons removed
+   */
+  remove(filter: RalphLessonFilter, now: number = Date.now()): number {
+    const removed = new Set(this.search(filter, now).map((lesson) => lesson.id));
+    if (removed.size > 0) {
+      this.write(this.list().filter((lesson) => !removed.has(lesson.id)));
+    }
+    return removed.size;
+  }
+
+  private write(lessons: RalphLesson[]): void {
+    writeFileAtomic(this.path, JSON.stringify({ lessons }, null, 2));
+    this.cache = null;
+  }
+}
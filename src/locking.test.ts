@@ -0,0 +1,109 @@
+/**
+ * Locking Tests for Ralph Wiggum MCP Server
+ *
+ * Tests for atomic writes and the advisory lock file.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { spawnSync } from "child_process";
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { hostname, tmpdir } from "os";
+import { join } from "path";
+import { FileLock, writeFileAtomic } from "./locking.js";
+
+describe("Locking", () => {
+  let dir: string;
+  let lockPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ralph-lock-test-"));
+    lockPath = join(dir, ".lock");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should replace files atomically without leaving temp files", () => {
+    const path = join(dir, "nested", "state.json");
+    writeFileAtomic(path, "first");
+    writeFileAtomic(path, "second");
+
+    expect(readFileSync(path, "utf-8")).toBe("second");
+    expect(readdirSync(join(dir, "nested"))).toEqual(["state.json"]);
+  });
+
+  it("should hold the lock while running and release it afterwards", () => {
+    const lock = new FileLock(lockPath);
+    const result = lock.withLock(() => {
+      expect(existsSync(lockPath)).toBe(true);
+      return lock.withLock(() => "nested");
+    });
+
+    expect(result).toBe("nested");
+    expect(existsSync(lockPath)).toBe(false);
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  it("should fail with a conflict error while another process holds the lock", () => {
+    writeFileSync(
+      lockPath,
+      JSON.stringify({ pid: process.ppid, host: hostname(), acquiredAt: Date.now() })
+    );
+    const lock = new FileLock(lockPath, { timeoutMs: 100 });
+
+    expect(() => lock.withLock(() => "never")).toThrow(
+      `Ralph state is locked by another process (pid ${process.ppid}`
+    );
+    expect(existsSync(lockPath)).toBe(true);
+  });
+
+  it("should break stale locks", () => {
+    const lock = new FileLock(lockPath, { timeoutMs: 100, staleMs: 1000 });
+
+    writeFileSync(
+      lockPath,
+      JSON.stringify({ pid: process.ppid, host: "other-host", acquiredAt: Date.now() - 5000 })
+    );
+    expect(lock.withLock(() => "old")).toBe("old");
+
+    const past = new Date(Date.now() - 5000);
+    writeFileSync(lockPath, "{ not json");
+    utimesSync(lockPath, past, past);
+    expect(lock.withLock(() => "unreadable")).toBe("unreadable");
+    expect(existsSync(lockPath)).toBe(false);
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  it("should not break a lock held by a live process on this host, however old", () => {
+    const lock = new FileLock(lockPath, { timeoutMs: 100, staleMs: 1000 });
+
+    writeFileSync(
+      lockPath,
+      JSON.stringify({ pid: process.ppid, host: hostname(), acquiredAt: Date.now() - 5000 })
+    );
+    expect(() => lock.withLock(() => "never")).toThrow(
+      `Ralph state is locked by another process (pid ${process.ppid}`
+    );
+
+    // Once the owner has exited, the lock is broken right away
+    const exitedPid = spawnSync(process.execPath, ["-e", ""]).pid;
+    writeFileSync(lockPath, JSON.stringify({ pid: exitedPid, host: hostname(), acquiredAt: Date.now() }));
+    expect(lock.withLock(() => "broken")).toBe("broken");
+  });
+
+  it("should treat an empty lock file as held until it is stale", () => {
+    // E.g. a lock file created by another process that has not written its owner yet
+    writeFileSync(lockPath, "");
+    const lock = new FileLock(lockPath, { timeoutMs: 100, staleMs: 1000 });
+
+    expect(() => lock.withLock(() => "never")).toThrow(
+      "Ralph state is locked by another process (unreadable lock file since"
+    );
+    expect(existsSync(lockPath)).toBe(true);
+
+    const past = new Date(Date.now() - 5000);
+    utimesSync(lockPath, past, past);
+    expect(lock.withLock(() => "broken")).toBe("broken");
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * File Locking for Ralph Wiggum Loops
+ *
+ * Atomic file writes and an advisory lock file, so several server processes
+ * (e.g. an editor and a terminal agent) can share one state directory.
+ */
+
+import {
+  closeSync,
+  existsSync,
+  fstatSync,
+  linkSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { hostname } from "os";
+import { dirname } from "path";
+import { randomBytes } from "crypto";
+
+export interface FileLockOptions {
+  timeoutMs?: number; // how long to wait for another process before failing
+  staleMs?: number; // age after which a lock whose owner cannot be checked is considered abandoned
+  retryMs?: number;
+}
+
+interface LockOwner {
+  pid?: number; // unknown when the lock file cannot be parsed
+  host?: string;
+  acquiredAt: number;
+}
+
+/**
+ * A lock file as read by a waiting process: its owner and its inode, which
+ * tells a lock apart from a newer one created at the same path
+ */
+interface LockFile {
+  owner: LockOwner;
+  inode: number;
+}
+
+/**
+ * Write a file atomically: write a temp file next to it, then rename it over
+ * the target, so readers never see a partially written file
+ */
+export function writeFileAtomic(path: string, data: string | Uint8Array): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  const tempPath = getTempPath(path, "tmp");
+  try {
+    writeFileSync(tempPath, data);
+    renameSync(tempPath, path);
+  } catch (error) {
+    try {
+      unlinkSync(tempPath);
+    } catch {
+      // Temp file was never created
+    }
+    throw error;
+  }
+}
+
+/**
+ * Block the current thread for a short time
+ */
+function sleep(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/**
+ * Temp path next to a file, unique to this process and call
+ */
+function getTempPath(path: string, suffix: string): string {
+  return `${path}.${process.pid}.${randomBytes(4).toString("hex")}.${suffix}`;
+}
+
+/**
+ * Advisory lock backed by an exclusively created lock file
+ *
+ * Waits for other holders up to `timeoutMs`, then fails with a conflict
+ * error naming the holder. A lock left behind by a dead process on this
+ * host, or older than `staleMs`, is broken. Re-entrant within a process.
+ * The lock file is linked into place with its owner already written, so
+ * it is never seen empty while held.
+ */
+export class FileLock {
+  private lockPath: string;
+  private timeoutMs: number;
+  private staleMs: number;
+  private retryMs: number;
+  private depth = 0;
+
+  constructor(lockPath: string, options: FileLockOptions = {}) {
+    this.lockPath = lockPath;
+    this.timeoutMs = options.timeoutMs ?? 5000;
+    this.staleMs = options.staleMs ?? 30000;
+    this.retryMs = options.retryMs ?? 25;
+  }
+
+  /**
+   * Run a function while holding the lock
+   */
+  withLock<T>(fn: () => T): T {
+    this.acquire();
+    try {
+      return fn();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Acquire the lock, waiting for other processes to release it
+   */
+  acquire(): void {
+    if (this.depth > 0) {
+      this.depth++;
+      return;
+    }
+
+    const dir = dirname(this.lockPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    const deadline = Date.now() + this.timeoutMs;
+    for (;;) {
+      if (this.tryCreate()) {
+        this.depth = 1;
+        return;
+      }
+
+      const lock = this.readLock();
+      if (lock === null) {
+        continue; // released in the meantime
+      }
+      if (this.isStale(lock.owner)) {
+        this.breakLock(lock.inode);
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        const { pid, host, acquiredAt } = lock.owner;
+        throw new Error(
+          `Ralph state is locked by another process (${
+            pid !== undefined ? `pid ${pid} on ${host}` : "unreadable lock file"
+          } since ${new Date(acquiredAt).toISOString()}). Another server is modifying the same loops - try again shortly.`
+        );
+      }
+      sleep(this.retryMs);
+    }
+  }
+
+  /**
+   * Release the lock
+   */
+  release(): void {
+    if (this.depth === 0) {
+      return;
+    }
+    this.depth--;
+    if (this.depth === 0) {
+      try {
+        unlinkSync(this.lockPath);
+      } catch {
+        // Already removed (e.g. broken as stale by another process)
+      }
+    }
+  }
+
+  /**
+   * Create the lock file if it does not exist: write the owner to a temp
+   * file, then link it to the lock path, which fails if the lock exists
+   */
+  private tryCreate(): boolean {
+    const owner: LockOwner = { pid: process.pid, host: hostname(), acquiredAt: Date.now() };
+    const tempPath = getTempPath(this.lockPath, "tmp");
+    writeFileSync(tempPath, JSON.stringify(owner));
+    try {
+      linkSync(tempPath, this.lockPath);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+        return false;
+      }
+      throw error;
+    } finally {
+      unlinkSync(tempPath);
+    }
+  }
+
+  /**
+   * Read who holds the lock (null if it was released). A lock file that
+   * cannot be parsed counts as held since it was last modified.
+   */
+  private readLock(): LockFile | null {
+    let fd: number;
+    try {
+      fd = openSync(this.lockPath, "r");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+
+    try {
+      const stats = fstatSync(fd);
+      try {
+        const owner = JSON.parse(readFileSync(fd, "utf-8"));
+        if (typeof owner?.acquiredAt === "number") {
+          return { owner, inode: stats.ino };
+        }
+      } catch {
+        // Unparseable; fall through
+      }
+      return { owner: { acquiredAt: stats.mtimeMs }, inode: stats.ino };
+    } finally {
+      closeSync(fd);
+    }
+  }
+
+  /**
+   * Check whether a lock was abandoned. A lock held by a process on this
+   * host is abandoned only once that process has exited, however long it
+   * runs; the age decides only when the owner cannot be checked (another
+   * host, or an unreadable lock file).
+   */
+  private isStale(owner: LockOwner): boolean {
+    if (owner.pid !== undefined && owner.host === hostname()) {
+      try {
+        process.kill(owner.pid, 0);
+        return false;
+      } catch (error) {
+        return (error as NodeJS.ErrnoException).code === "ESRCH";
+      }
+    }
+    return Date.now() - owner.acquiredAt > this.staleMs;
+  }
+
+  /**
+   * Remove an abandoned lock file. It is renamed aside first, so a lock
+   * another waiter created after breaking the same stale lock can be told
+   * apart by its inode and put back rather than removed.
+   */
+  private breakLock(staleInode: number): void {
+    const asidePath = getTempPath(this.lockPath, "stale");
+    try {
+      renameSync(this.lockPath, asidePath);
+    } catch {
+      return; // someone else already removed it
+    }
+
+    try {
+      if (statSync(asidePath).ino !== staleInode) {
+        linkSync(asidePath, this.lockPath);
+      }
+    } catch {
+      // The lock was taken again in the meantime
+    } finally {
+      unlinkSync(asidePath);
+    }
+  }
+}
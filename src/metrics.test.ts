@@ -0,0 +1,95 @@
+/**
+ * Metrics Tests for Ralph Wiggum MCP Server
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { RalphLoopManager } from "./ralph.js";
+import { MetricsExporter } from "./metrics.js";
+
+describe("Metrics", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ralph-metrics-test-"));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should expose loop, tool and budget metrics labelled by loop and template", () => {
+    jest.useFakeTimers({ now: new Date("2026-03-01T10:00:00Z") });
+    const manager = new RalphLoopManager(join(dir, "loops"));
+    manager.startLoop("Build an API", {
+      loopId: "api",
+      templateId: "rest-api",
+      budgets: { maxTokens: 1000 },
+    });
+    const jestRun = (exitCode: number) => ({
+      name: "npm test",
+      command: "npm test",
+      preset: "javascript-test",
+      exitCode,
+      output: "",
+      duration: 100,
+    });
+
+    jest.advanceTimersByTime(10_000);
+    manager.processIteration("one", { externalToolsRun: [jestRun(1)], errors: ["npm test failed"], usage: { tokens: 250 } }, "api");
+    jest.advanceTimersByTime(90_000);
+    manager.processIteration("two", { externalToolsRun: [jestRun(1)], errors: ["npm test failed"], usage: { tokens: 250 } }, "api");
+    jest.advanceTimersByTime(20_000);
+    manager.processIteration("three", { externalToolsRun: [jestRun(0)], errors: ["npm test failed"] }, "api");
+
+    const metrics = manager.getMetrics();
+    const labels = 'loop_id="api",template_id="rest-api"';
+
+    expect(metrics).toContain("# TYPE ralph_iterations_total counter");
+    expect(metrics).toContain(`ralph_iterations_total{${labels}} 3`);
+    expect(metrics).toContain(`ralph_loop_iteration{${labels}} 4`);
+    expect(metrics).toContain(`ralph_iteration_duration_seconds_bucket{${labels},le="15"} 1`);
+    expect(metrics).toContain(`ralph_iteration_duration_seconds_bucket{${labels},le="30"} 2`);
+    expect(metrics).toContain(`ralph_iteration_duration_seconds_bucket{${labels},le="+Inf"} 3`);
+    expect(metrics).toContain(`ralph_iteration_duration_seconds_sum{${labels}} 120`);
+    expect(metrics).toContain(
+      `ralph_tool_runs_total{${labels},preset="javascript-test",tool="npm test",exit_code="1"} 2`
+    );
+    expect(metrics).toContain(
+      `ralph_tool_runs_total{${labels},preset="javascript-test",tool="npm test",exit_code="0"} 1`
+    );
+    expect(metrics).toContain(`ralph_repeated_errors{${labels}} 1`);
+    expect(metrics).toContain(`ralph_stagnation_detected{${labels}} 1`);
+    expect(metrics).toContain(`ralph_budget_used{${labels},budget="tokens"} 500`);
+    expect(metrics).toContain(`ralph_budget_used_ratio{${labels},budget="tokens"} 0.5`);
+  });
+
+  it("should escape label values", () => {
+    const manager = new RalphLoopManager(join(dir, "loops"));
+    manager.startLoop("Task", { loopId: "a", templateId: 'quote" and \\ slash' });
+    expect(manager.getMetrics()).toContain('ralph_iterations_total{loop_id="a",template_id="quote\\" and \\\\ slash"} 0');
+  });
+
+  it("should write metrics to a file and serve them on localhost", async () => {
+    let renders = 0;
+    const file = join(dir, "metrics", "ralph.prom");
+    const exporter = new MetricsExporter(() => `ralph_test ${++renders}\n`, { file, port: 0 });
+
+    const port = await exporter.start();
+    try {
+      expect(readFileSync(file, "utf-8")).toBe("ralph_test 1\n");
+
+      const response = await fetch(`http://127.0.0.1:${port}/metrics`);
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toContain("text/plain; version=0.0.4");
+      expect(await response.text()).toBe("ralph_test 2\n");
+
+      expect((await fetch(`http://127.0.0.1:${port}/other`)).status).toBe(404);
+    } finally {
+      await exporter.stop();
+    }
+  });
+});
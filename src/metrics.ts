@@ -0,0 +1,252 @@
+/**
+ * Prometheus Metrics for Ralph Wiggum Loops
+ *
+ * Renders loop and tool activity in the Prometheus text exposition format,
+ * labelled by loop ID and template ID. The metrics can be written to a file
+ * after every tool call (e.g. for node_exporter's textfile collector) or
+ * served over HTTP on localhost.
+ */
+
+import { createServer, Server } from "http";
+import { writeFileAtomic } from "./locking.js";
+import type {
+  RalphBudgetUsage,
+  RalphLoopState,
+  RalphProgressMetrics,
+} from "./ralph.js";
+
+// Upper bounds of the iteration duration histogram, in seconds
+const DURATION_BUCKETS = [5, 15, 30, 60, 120, 300, 600, 1800, 3600];
+
+export interface RalphLoopMetrics {
+  state: RalphLoopState;
+  progress: RalphProgressMetrics;
+  budgetUsage: RalphBudgetUsage[];
+}
+
+type Labels = Record<string, string>;
+
+/**
+ * Accumulates samples, grouped by metric family
+ */
+class MetricsWriter {
+  private families = new Map<string, { help: string; type: string; samples: string[] }>();
+
+  declare(name: string, type: "counter" | "gauge" | "histogram", help: string): void {
+    if (!this.families.has(name)) {
+      this.families.set(name, { help, type, samples: [] });
+    }
+  }
+
+  add(family: string, labels: Labels, value: number, suffix: string = ""): void {
+    const labelText = Object.entries(labels)
+      .map(([key, labelValue]) => `${key}="${escapeLabelValue(labelValue)}"`)
+      .join(",");
+    this.families
+      .get(family)!
+      .samples.push(`${family}${suffix}{${labelText}} ${formatValue(value)}`);
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    for (const [name, family] of this.families) {
+      lines.push(`# HELP ${name} ${family.help}`);
+      lines.push(`# TYPE ${name} ${family.type}`);
+      lines.push(...family.samples);
+    }
+    return lines.join("\n") + "\n";
+  }
+}
+
+/**
+ * Escape a label value: backslash, double quote and newline
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+/**
+ * Render metrics for the given loops
+ */
+export function renderMetrics(loops: RalphLoopMetrics[]): string {
+  const writer = new MetricsWriter();
+  writer.declare("ralph_loop_active", "gauge", "Whether the loop is running (0 while paused)");
+  writer.declare("ralph_loop_iteration", "gauge", "Current iteration number");
+  writer.declare("ralph_iterations_total", "counter", "Iterations processed");
+  writer.declare("ralph_iteration_duration_seconds", "histogram", "Duration of iterations, excluding time spent paused");
+  writer.declare("ralph_tool_runs_total", "counter", "External tool runs by preset, tool and exit code");
+  writer.declare("ralph_errors_total", "counter", "Errors reported across iterations");
+  writer.declare("ralph_repeated_errors", "gauge", "Error clusters seen 3 or more times");
+  writer.declare("ralph_stagnation_detected", "gauge", "Whether stagnation is detected (1) or not (0)");
+  writer.declare("ralph_convergence_rate", "gauge", "Mean progress of test, lint, build and error signals towards their targets, from 0 to 1");
+  writer.declare("ralph_budget_used", "gauge", "Budget consumed (seconds, tokens or cost)");
+  writer.declare("ralph_budget_limit", "gauge", "Budget limit (seconds, tokens or cost)");
+  writer.declare("ralph_budget_used_ratio", "gauge", "Budget consumed as a fraction of its limit");
+
+  for (const { state, progress, budgetUsage } of loops) {
+    const labels: Labels = { loop_id: state.id, template_id: state.templateId ?? "" };
+    const history = state.history;
+
+    writer.add("ralph_loop_active", labels, state.active && !state.paused ? 1 : 0);
+    writer.add("ralph_loop_iteration", labels, state.iteration);
+    writer.add("ralph_iterations_total", labels, history.length);
+
+    // Histogram of the iterations whose duration is known
+    const durations = history
+      .filter((entry) => entry.duration !== undefined)
+      .map((entry) => entry.duration! / 1000);
+    for (const bound of DURATION_BUCKETS) {
+      writer.add(
+        "ralph_iteration_duration_seconds",
+        { ...labels, le: String(bound) },
+        durations.filter((duration) => duration <= bound).length,
+        "_bucket"
+      );
+    }
+    writer.add("ralph_iteration_duration_seconds", { ...labels, le: "+Inf" }, durations.length, "_bucket");
+    writer.add(
+      "ralph_iteration_duration_seconds",
+      labels,
+      durations.reduce((sum, duration) => sum + duration, 0),
+      "_sum"
+    );
+    writer.add("ralph_iteration_duration_seconds", labels, durations.length, "_count");
+
+    const toolRuns = new Map<string, { preset: string; tool: string; exitCode: number; count: number }>();
+    for (const entry of history) {
+      for (const tool of entry.externalToolsRun || []) {
+        const key = JSON.stringify([tool.preset ?? "", tool.name, tool.exitCode]);
+        const run = toolRuns.get(key) ?? {
+          preset: tool.preset ?? "",
+          tool: tool.name,
+          exitCode: tool.exitCode,
+          count: 0,
+        };
+        run.count++;
+        toolRuns.set(key, run);
+      }
+    }
+    for (const run of toolRuns.values()) {
+      writer.add(
+        "ralph_tool_runs_total",
+        { ...labels, preset: run.preset, tool: run.tool, exit_code: String(run.exitCode) },
+        run.count
+      );
+    }
+
+    writer.add(
+      "ralph_errors_total",
+      labels,
+      history.reduce((sum, entry) => sum + (entry.errors?.length || 0), 0)
+    );
+    writer.add("ralph_repeated_errors", labels, progress.repeatedErrors.length);
+    writer.add("ralph_stagnation_detected", labels, progress.stagnationDetected ? 1 : 0);
+    writer.add("ralph_convergence_rate", labels, progress.convergenceRate);
+
+    for (const usage of budgetUsage) {
+      // Durations are tracked in milliseconds but exposed in seconds
+      const scale = usage.budget === "duration" || usage.budget === "tool_runtime" ? 1000 : 1;
+      const budgetLabels = { ...labels, budget: usage.budget };
+      writer.add("ralph_budget_used", budgetLabels, usage.used / scale);
+      writer.add("ralph_budget_limit", budgetLabels, usage.limit / scale);
+      writer.add("ralph_budget_used_ratio", budgetLabels, usage.used / usage.limit);
+    }
+  }
+
+  return writer.render();
+}
+
+export interface MetricsExporterOptions {
+  file?: string; // rewritten after every update
+  port?: number; // serve GET /metrics on 127.0.0.1
+}
+
+/**
+ * Publishes metrics to a file and/or a localhost HTTP endpoint
+ */
+export class MetricsExporter {
+  private render: () => string;
+  private file?: string;
+  private port?: number;
+  private server: Server | null = null;
+
+  constructor(render: () => string, options: MetricsExporterOptions) {
+    this.render = render;
+    this.file = options.file;
+    this.port = options.port;
+  }
+
+  /**
+   * Rewrite the metrics file (no-op without one). Failures are logged, so
+   * metrics never break a tool call.
+   */
+  update(): void {
+    if (!this.file) {
+      return;
+    }
+    try {
+      writeFileAtomic(this.file, this.render());
+    } catch (error) {
+      console.error(`Failed to write Ralph metrics to ${this.file}: ${error}`);
+    }
+  }
+
+  /**
+   * Start the HTTP endpoint (SECURE: binds to the loopback interface only)
+   *
+   * @returns The port listened on
+   */
+  async start(): Promise<number | null> {
+    this.update();
+    if (this.port === undefined) {
+      return null;
+    }
+
+    const server = createServer((request, response) => {
+      if (request.method !== "GET" || request.url?.split("?")[0] !== "/metrics") {
+        response.writeHead(404, { "Content-Type": "text/plain" });
+        response.end("Not found - metrics are served at /metrics\n");
+        return;
+      }
+
+      try {
+        const body = this.render();
+        response.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+        response.end(body);
+      } catch (error) {
+        console.error(`Failed to render Ralph metrics: ${error}`);
+        response.writeHead(500, { "Content-Type": "text/plain" });
+        response.end("Failed to render metrics\n");
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.port, "127.0.0.1", () => resolve());
+    });
+    // Do not keep the process alive once the MCP transport closes
+    server.unref();
+    this.server = server;
+
+    const address = server.address();
+    return typeof address === "object" && address ? address.port : this.port;
+  }
+
+  /**
+   * Stop the HTTP endpoint
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Progress Scoring Tests for Ralph Wiggum MCP Server
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  analyzeSignals,
+  getConvergenceScore,
+  getOverallEta,
+  measureSignals,
+  parseLintErrors,
+  parseTestCounts,
+} from "./progress.js";
+import type { RalphIterationHistoryEntry } from "./ralph.js";
+import { ToolsManager } from "./tools.js";
+
+const entry = (iteration: number, fields: Partial<RalphIterationHistoryEntry>): RalphIterationHistoryEntry => ({
+  iteration,
+  timestamp: new Date().toISOString(),
+  output: "",
+  completionDetected: false,
+  ...fields,
+});
+
+describe("Progress scoring", () => {
+  it("should parse test counts and lint errors from tool output", () => {
+    expect(
+      parseTestCounts("Test Suites: 1 failed, 4 passed, 5 total\nTests:       2 failed, 48 passed, 50 total")
+    ).toEqual({ passed: 48, failed: 2 });
+    expect(parseTestCounts("======= 1 failed, 9 passed in 0.52s =======")).toEqual({ passed: 9, failed: 1 });
+    expect(parseTestCounts("  12 passing (30ms)\n  3 failing")).toEqual({ passed: 12, failed: 3 });
+    expect(
+      parseTestCounts("test result: FAILED. 4 passed; 1 failed; 0 ignored\ntest result: ok. 2 passed; 0 failed;")
+    ).toEqual({ passed: 6, failed: 1 });
+    expect(parseTestCounts("--- PASS: TestA (0.00s)\n--- FAIL: TestB (0.00s)\n--- PASS: TestC")).toEqual({
+      passed: 2,
+      failed: 1,
+    });
+    expect(parseTestCounts("Segmentation fault")).toBeUndefined();
+
+    expect(parseLintErrors("✖ 7 problems (5 errors, 2 warnings)", 1)).toBe(5);
+    expect(parseLintErrors("Found 3 errors.", 1)).toBe(3);
+    expect(parseLintErrors("", 0)).toBe(0);
+    expect(parseLintErrors("crashed", 2)).toBe(1);
+
+    expect(
+      measureSignals(
+        [
+          { name: "npm-test", command: "npm test", preset: "javascript-test", exitCode: 1, output: "Tests: 1 failed, 3 passed, 4 total", duration: 1 },
+          { name: "eslint", command: "npx eslint", preset: "javascript-lint", exitCode: 1, output: "2 problems (2 errors, 0 warnings)", duration: 1 },
+          { name: "build", command: "npm run build", preset: "build", exitCode: 0, output: "", duration: 1 },
+        ],
+        "--- a/x.ts\n+++ b/x.ts\n@@ -1 +1 @@\n-old\n+new\n+more"
+      )
+    ).toEqual({ testsPassed: 3, testsFailed: 1, lintErrors: 2, buildPassed: true, diffLines: 3 });
+  });
+
+  it("should measure test counts from npm test run through the tools manager", async () => {
+    // npm prints its banner on stdout while Jest writes its summary to stderr
+    const projectDir = mkdtempSync(join(tmpdir(), "ralph-npm-test-"));
+    try {
+      const jestSummary = "Test Suites: 1 failed, 1 total\nTests:       1 failed, 3 passed, 4 total\nTime:        0.388 s\n";
+      writeFileSync(join(projectDir, "fake-jest.js"), `process.stderr.write(${JSON.stringify(jestSummary)}), process.exit(1)`);
+      writeFileSync(
+        join(projectDir, "package.json"),
+        JSON.stringify({ name: "fixture", version: "1.0.0", scripts: { test: "node fake-jest.js" } })
+      );
+
+      const results = await new ToolsManager(projectDir).runPreset("javascript-test");
+      expect(results[0].output).toContain("> node fake-jest.js");
+      expect(measureSignals(results)).toEqual({ testsPassed: 3, testsFailed: 1 });
+    } finally {
+      rmSync(projectDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should fit trends and estimate iterations remaining with a confidence interval", () => {
+    const history = [8, 6, 4].map((failed, i) =>
+      entry(i + 1, { signals: { testsPassed: 10 - failed, testsFailed: failed, lintErrors: [5, 5, 5][i], buildPassed: true } })
+    );
+    const trends = analyzeSignals(history);
+    const tests = trends.find((trend) => trend.signal === "tests")!;
+    expect(tests).toMatchObject({ current: 4, direction: "improving", slope: -2, score: 0.6 });
+    expect(tests.eta).toEqual({ iterations: 2, low: 2, high: 2 });
+
+    // Lint errors are not going down, so there is no overall ETA
+    const lint = trends.find((trend) => trend.signal === "lint")!;
+    expect(lint.direction).toBe("flat");
+    expect(lint.eta).toBeUndefined();
+    expect(getOverallEta(trends)).toBeUndefined();
+
+    // Noisy progress widens the interval; the slowest signal sets the ETA
+    const noisy = [10, 7, 7, 3].map((failed, i) =>
+      entry(i + 1, { signals: { testsFailed: failed, testsPassed: 0, lintErrors: [3, 2, 1, 0][i] } })
+    );
+    expect(getOverallEta(analyzeSignals(noisy))).toEqual({ iterations: 2, low: 1, high: 6 });
+    expect(getConvergenceScore(analyzeSignals(noisy))).toBeCloseTo(0.5);
+  });
+});
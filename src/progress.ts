@@ -0,0 +1,347 @@
+/**
+ * Progress Scoring for Ralph Wiggum Loops
+ *
+ * Scores progress from objective signals recorded with each iteration: test
+ * pass/fail counts and lint error counts parsed from tool output, build
+ * status, reported errors and diff size. A least-squares line is fitted to
+ * each signal over recent iterations; the slope says whether it is
+ * improving, and where it reaches its target gives an ETA with a
+ * confidence interval.
+ */
+
+import type { ExternalToolResult, RalphIterationHistoryEntry } from "./ralph.js";
+
+const TREND_WINDOW = 10; // recent iterations a trend is fitted to
+const MIN_TREND_POINTS = 3; // fewest iterations a confidence interval needs
+
+// Two-sided 90% Student's t quantiles by degrees of freedom (1-10); 1.645 beyond
+const T_QUANTILES_90 = [6.314, 2.92, 2.353, 2.132, 2.015, 1.943, 1.895, 1.86, 1.833, 1.812];
+
+/**
+ * Signals measured in one iteration, from its tool runs and diff
+ */
+export interface RalphIterationSignals {
+  testsPassed?: number;
+  testsFailed?: number;
+  lintErrors?: number;
+  buildPassed?: boolean;
+  diffLines?: number; // lines added plus removed
+}
+
+export type RalphProgressSignalName = "tests" | "lint" | "build" | "errors" | "diff_size";
+
+/**
+ * Iterations until a signal reaches its target, with a 90% confidence
+ * interval. Without `high`, the interval is unbounded: at the upper end of
+ * the interval the signal is not improving at all.
+ */
+export interface RalphEta {
+  iterations: number;
+  low: number;
+  high?: number;
+}
+
+export interface RalphSignalTrend {
+  signal: RalphProgressSignalName;
+  current: number; // failing tests, lint errors, errors, diff lines, or 1/0 for the build
+  iterations: number; // recent iterations the signal was measured in
+  slope?: number; // change per iteration
+  direction: "improving" | "worsening" | "flat";
+  score?: number; // 0-1 progress towards the target (none for diff size, which has no target)
+  eta?: RalphEta;
+  testsPassed?: number; // for the tests signal
+}
+
+/**
+ * Classify a tool run by its preset or tool name
+ */
+export function getToolCategory(tool: ExternalToolResult): "test" | "lint" | "build" | undefined {
+  const name = `${tool.preset ?? ""} ${tool.name}`.toLowerCase();
+  if (/test/.test(name)) return "test";
+  if (/lint|eslint|ruff|clippy/.test(name)) return "lint";
+  if (/build/.test(name)) return "build";
+  return undefined;
+}
+
+const sumMatches = (output: string, pattern: RegExp): number =>
+  [...output.matchAll(pattern)].reduce((sum, match) => sum + Number(match[1]), 0);
+
+/**
+ * Parse passed and failed test counts from a test runner's output (Jest,
+ * Vitest, Mocha, pytest, cargo test, go test)
+ */
+export function parseTestCounts(output: string): { passed: number; failed: number } | undefined {
+  // Jest and Vitest print a suites line too, so use only the tests line
+  const summary = output.match(/^\s*Tests:?\s+(.*\d+ (?:passed|failed).*)$/m);
+  if (summary) {
+    return {
+      passed: sumMatches(summary[1], /(\d+) passed/g),
+      failed: sumMatches(summary[1], /(\d+) failed/g),
+    };
+  }
+
+  // cargo test prints one result line per test binary
+  if (/^test result: /m.test(output)) {
+    return {
+      passed: sumMatches(output, /^test result: \w+\. (\d+) passed/gm),
+      failed: sumMatches(output, /^test result: \w+\. \d+ passed; (\d+) failed/gm),
+    };
+  }
+
+  const goPassed = (output.match(/^\s*--- PASS/gm) || []).length;
+  const goFailed = (output.match(/^\s*--- FAIL/gm) || []).length;
+  if (goPassed + goFailed > 0) {
+    return { passed: goPassed, failed: goFailed };
+  }
+
+  // pytest ("3 passed, 1 failed") and Mocha ("3 passing", "1 failing")
+  const passed = sumMatches(output, /\b(\d+) (?:passed|passing)\b/g);
+  const failed = sumMatches(output, /\b(\d+) (?:failed|failing)\b/g);
+  return passed + failed > 0 ? { passed, failed } : undefined;
+}
+
+/**
+ * Parse the number of errors from a linter's output (ESLint, ruff, clippy)
+ */
+export function parseLintErrors(output: string, exitCode: number): number {
+  const eslint = output.match(/(\d+) problems? \((\d+) errors?/);
+  if (eslint) return Number(eslint[2]);
+  const ruff = output.match(/Found (\d+) errors?/);
+  if (ruff) return Number(ruff[1]);
+  const problems = output.match(/^\s*(\d+) problems?\b/m);
+  if (problems) return Number(problems[1]);
+  if (exitCode === 0) return 0;
+
+  // Otherwise count the error lines, but never report a failing linter as clean
+  const errorLines = output.split("\n").filter((line) => /\berror\b/i.test(line)).length;
+  return Math.max(1, errorLines);
+}
+
+/**
+ * Count the lines added and removed in a unified diff
+ */
+export function countDiffLines(diff: string): number {
+  return diff.split("\n").filter((line) => /^[+-](?![+-]{2} )/.test(line)).length;
+}
+
+/**
+ * Measure an iteration's signals from its (full) tool output and diff
+ */
+export function measureSignals(
+  tools: ExternalToolResult[] = [],
+  diff?: string
+): RalphIterationSignals | undefined {
+  const signals: RalphIterationSignals = {};
+  for (const tool of tools) {
+    const category = getToolCategory(tool);
+    if (category === "test") {
+      const counts = parseTestCounts(tool.output);
+      if (counts) {
+        signals.testsPassed = (signals.testsPassed || 0) + counts.passed;
+        signals.testsFailed = (signals.testsFailed || 0) + counts.failed;
+      }
+    } else if (category === "lint") {
+      signals.lintErrors = (signals.lintErrors || 0) + parseLintErrors(tool.output, tool.exitCode);
+    } else if (category === "build") {
+      signals.buildPassed = (signals.buildPassed ?? true) && tool.exitCode === 0;
+    }
+  }
+  if (diff !== undefined) {
+    signals.diffLines = countDiffLines(diff);
+  }
+  return Object.keys(signals).length > 0 ? signals : undefined;
+}
+
+/**
+ * Least-squares line through (x, y) points, with the standard error of the slope
+ */
+function fitLine(points: [number, number][]): { slope: number; slopeError?: number } {
+  const n = points.length;
+  const meanX = points.reduce((sum, [x]) => sum + x, 0) / n;
+  const meanY = points.reduce((sum, [, y]) => sum + y, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  for (const [x, y] of points) {
+    sxx += (x - meanX) ** 2;
+    sxy += (x - meanX) * (y - meanY);
+  }
+  if (sxx === 0) {
+    return { slope: 0 };
+  }
+
+  const slope = sxy / sxx;
+  if (n < MIN_TREND_POINTS) {
+    return { slope };
+  }
+  const intercept = meanY - slope * meanX;
+  const residuals = points.reduce((sum, [x, y]) => sum + (y - intercept - slope * x) ** 2, 0);
+  return { slope, slopeError: Math.sqrt(residuals / (n - 2) / sxx) };
+}
+
+function tQuantile(degreesOfFreedom: number): number {
+  return T_QUANTILES_90[degreesOfFreedom - 1] ?? 1.645;
+}
+
+/**
+ * Fit a trend to a signal. `lowerIsBetter` signals count down to 0; the
+ * build signal counts up to 1.
+ */
+function analyzeSignal(
+  signal: RalphProgressSignalName,
+  points: [number, number][],
+  lowerIsBetter: boolean
+): RalphSignalTrend | undefined {
+  if (points.length === 0) {
+    return undefined;
+  }
+
+  const current = points[points.length - 1][1];
+  const trend: RalphSignalTrend = { signal, current, iterations: points.length, direction: "flat" };
+  if (points.length < 2) {
+    return trend;
+  }
+
+  const { slope, slopeError } = fitLine(points);
+  trend.slope = slope;
+
+  // A slope counts only when its confidence interval excludes zero (or,
+  // with too few points for an interval, when it is non-zero)
+  const margin = slopeError !== undefined ? tQuantile(points.length - 2) * slopeError : 0;
+  const improvement = lowerIsBetter ? -slope : slope;
+  if (improvement > margin) trend.direction = "improving";
+  else if (improvement < -margin) trend.direction = "worsening";
+
+  if (signal === "build" || signal === "diff_size") {
+    return trend;
+  }
+
+  if (current === 0) {
+    trend.eta = { iterations: 0, low: 0, high: 0 };
+  } else if (slope < 0 && slopeError !== undefined) {
+    // Iterations for the current value to reach 0 at the fitted rate, and at
+    // either end of the slope's confidence interval
+    const fastest = slope - margin;
+    const slowest = slope + margin;
+    trend.eta = {
+      iterations: Math.ceil(current / -slope),
+      low: Math.ceil(current / -fastest),
+      high: slowest < 0 ? Math.ceil(current / -slowest) : undefined,
+    };
+  }
+  return trend;
+}
+
+/**
+ * Analyze the signals of recent iterations
+ */
+export function analyzeSignals(history: RalphIterationHistoryEntry[]): RalphSignalTrend[] {
+  const recent = history.slice(-TREND_WINDOW);
+  const points = (value: (entry: RalphIterationHistoryEntry) => number | undefined): [number, number][] =>
+    recent.flatMap((entry) => {
+      const y = value(entry);
+      return y !== undefined ? [[entry.iteration, y] as [number, number]] : [];
+    });
+
+  const trends: RalphSignalTrend[] = [];
+
+  const tests = analyzeSignal("tests", points((entry) => entry.signals?.testsFailed), true);
+  if (tests) {
+    const latest = [...recent].reverse().find((entry) => entry.signals?.testsFailed !== undefined)!;
+    const passed = latest.signals!.testsPassed || 0;
+    tests.testsPassed = passed;
+    tests.score = passed + tests.current > 0 ? passed / (passed + tests.current) : 0;
+    trends.push(tests);
+  }
+
+  // Reported errors count as 0 in the iterations without any, once some were reported
+  const errorsReported = recent.some((entry) => entry.errors?.length);
+  for (const [signal, value] of [
+    ["lint", (entry: RalphIterationHistoryEntry) => entry.signals?.lintErrors],
+    ["errors", (entry: RalphIterationHistoryEntry) => (errorsReported ? entry.errors?.length ?? 0 : undefined)],
+  ] as const) {
+    const series = points(value);
+    const trend = analyzeSignal(signal, series, true);
+    if (trend) {
+      // Relative to the worst iteration in the window
+      const worst = Math.max(...series.map(([, y]) => y));
+      trend.score = worst > 0 ? 1 - trend.current / worst : 1;
+      trends.push(trend);
+    }
+  }
+
+  const build = analyzeSignal(
+    "build",
+    points((entry) => (entry.signals?.buildPassed === undefined ? undefined : entry.signals.buildPassed ? 1 : 0)),
+    false
+  );
+  if (build) {
+    build.score = build.current;
+    trends.push(build);
+  }
+
+  const diffSize = analyzeSignal("diff_size", points((entry) => entry.signals?.diffLines), true);
+  if (diffSize) {
+    trends.push(diffSize);
+  }
+  return trends;
+}
+
+/**
+ * Overall convergence: the mean score of the signals that have a target
+ */
+export function getConvergenceScore(trends: RalphSignalTrend[]): number | undefined {
+  const scores = trends.filter((trend) => trend.score !== undefined).map((trend) => trend.score!);
+  return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : undefined;
+}
+
+/**
+ * Overall ETA: that of the slowest signal. None when a signal short of its
+ * target is not trending towards it, or the build is failing.
+ */
+export function getOverallEta(trends: RalphSignalTrend[]): RalphEta | undefined {
+  if (trends.some((trend) => trend.signal === "build" && trend.current === 0)) {
+    return undefined;
+  }
+  const targets = trends.filter((trend) => trend.signal !== "build" && trend.signal !== "diff_size");
+  if (targets.length === 0 || targets.some((trend) => !trend.eta)) {
+    return undefined;
+  }
+
+  const etas = targets.map((trend) => trend.eta!);
+  return {
+    iterations: Math.max(...etas.map((eta) => eta.iterations)),
+    low: Math.max(...etas.map((eta) => eta.low)),
+    high: etas.every((eta) => eta.high !== undefined) ? Math.max(...etas.map((eta) => eta.high!)) : undefined,
+  };
+}
+
+/**
+ * Format an ETA, e.g. "4 (90% CI 3-7)"
+ */
+export function formatEta(eta: RalphEta): string {
+  return `${eta.iterations} (90% CI ${eta.low}-${eta.high ?? "∞"})`;
+}
+
+/**
+ * Format a signal trend, e.g. "tests: 3 failing, 97 passing - improving (-1.5/iteration), ETA 2 (90% CI 2-3)"
+ */
+export function formatSignalTrend(trend: RalphSignalTrend): string {
+  const value =
+    trend.signal === "tests"
+      ? `${trend.current} failing, ${trend.testsPassed ?? 0} passing`
+      : trend.signal === "lint"
+        ? `${trend.current} error(s)`
+        : trend.signal === "errors"
+          ? `${trend.current} reported error(s)`
+          : trend.signal === "build"
+            ? trend.current === 1
+              ? "passing"
+              : "failing"
+            : `${trend.current} changed line(s)`;
+  const slope =
+    trend.slope !== undefined && trend.signal !== "build"
+      ? ` (${trend.slope > 0 ? "+" : ""}${Math.round(trend.slope * 10) / 10}/iteration)`
+      : "";
+  const eta = trend.eta && trend.current > 0 ? `, ETA ${formatEta(trend.eta)}` : "";
+  return `${trend.signal}: ${value} - ${trend.direction}${slope}${eta}`;
+}
@@ -0,0 +1,942 @@
+/**
+ * Loop Management Tests for Ralph Wiggum MCP Server
+ *
+ * Tests for loop state, iteration handling and persistence.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import { execSync } from "child_process";
+import { appendFileSync, existsSync, mkdtempSync, readFileSync, rmSync, unlinkSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { GitManager } from "./git.js";
+import { RalphLoopManager } from "./ralph.js";
+
+describe("RalphLoopManager", () => {
+  let stateDir: string;
+
+  beforeEach(() => {
+    stateDir = mkdtempSync(join(tmpdir(), "ralph-test-"));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  describe("Multiple loops", () => {
+    it("should run named loops side by side with separate state", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Refactor the parser", { loopId: "refactor" });
+      manager.startLoop("Write the docs", { loopId: "docs" });
+
+      manager.processIteration("first pass", {}, "refactor");
+      manager.processIteration("second pass", {}, "refactor");
+
+      expect(manager.getState("refactor")?.iteration).toBe(3);
+      expect(manager.getState("docs")?.iteration).toBe(1);
+      expect(existsSync(join(stateDir, "refactor", "state.json"))).toBe(true);
+      expect(existsSync(join(stateDir, "docs", "state.json"))).toBe(true);
+      expect(existsSync(join(stateDir, "refactor", "history.jsonl"))).toBe(true);
+      expect(readFileSync(join(stateDir, "docs", "history.jsonl"), "utf-8").trim().split("\n")).toHaveLength(1);
+    });
+
+    it("should generate an ID when none is given", () => {
+      const manager = new RalphLoopManager(stateDir);
+      const state = manager.startLoop("Do the thing");
+      expect(state.id).toMatch(/^loop-[0-9a-f]{6}$/);
+      expect(manager.getState()?.id).toBe(state.id);
+    });
+
+    it("should require a loop ID when several loops are active", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("A", { loopId: "a" });
+      manager.startLoop("B", { loopId: "b" });
+
+      expect(() => manager.processIteration("output")).toThrow(/Specify loop_id/);
+      expect(manager.getStatus("b")).toContain("Loop ID: b");
+    });
+
+    it("should reject duplicate and unsafe loop IDs", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("A", { loopId: "a" });
+
+      expect(() => manager.startLoop("A again", { loopId: "a" })).toThrow(/already active/);
+      expect(() => manager.startLoop("Escape", { loopId: "../etc" })).toThrow(/Invalid loop ID/);
+    });
+
+    it("should only cancel the targeted loop", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("A", { loopId: "a" });
+      manager.startLoop("B", { loopId: "b" });
+
+      expect(manager.cancelLoop("a")).not.toBeNull();
+      expect(manager.isLoopActive("a")).toBe(false);
+      expect(manager.isLoopActive("b")).toBe(true);
+      expect(manager.listLoops().map((s) => s.id)).toEqual(["b"]);
+    });
+
+    it("should reload every loop after a restart", () => {
+      const first = new RalphLoopManager(stateDir);
+      first.startLoop("A", { loopId: "a" });
+      first.startLoop("B", { loopId: "b" });
+      first.processIteration("work", {}, "b");
+
+      const second = new RalphLoopManager(stateDir);
+      expect(second.listLoops().map((s) => s.id).sort()).toEqual(["a", "b"]);
+      expect(second.getState("b")?.history).toHaveLength(1);
+      expect(second.getLoopsReport()).toContain("b - active (iteration 2)");
+    });
+  });
+
+  describe("Pause and resume", () => {
+    it("should reject iterations while paused and record the reason", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Task", { loopId: "a" });
+
+      expect(manager.pauseLoop("waiting for review", "a")).toBe(true);
+      expect(manager.pauseLoop("again", "a")).toBe(false);
+
+      const result = manager.processIteration("output", {}, "a");
+      expect(result.completed).toBe(false);
+      expect(result.reason).toContain("paused (waiting for review)");
+      expect(manager.getHistory("a")).toHaveLength(0);
+      expect(manager.getStatus("a")).toContain("waiting for review");
+
+      const reloaded = new RalphLoopManager(stateDir);
+      expect(reloaded.getState("a")?.paused).toBe(true);
+      expect(reloaded.getLoopsReport()).toContain("a - paused");
+    });
+
+    it("should exclude paused time from iteration durations", () => {
+      jest.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Task", { loopId: "a" });
+
+      jest.advanceTimersByTime(5_000);
+      manager.pauseLoop("overnight", "a");
+      jest.advanceTimersByTime(8 * 60 * 60 * 1000);
+      expect(manager.resumeLoop("a")?.pausedMs).toBe(8 * 60 * 60 * 1000);
+
+      jest.advanceTimersByTime(2_000);
+      manager.processIteration("done", {}, "a");
+
+      expect(manager.getHistory("a")[0].duration).toBe(7_000);
+      expect(manager.getState("a")?.totalPausedMs).toBe(8 * 60 * 60 * 1000);
+    });
+  });
+
+  describe("Archive", () => {
+    it("should archive completed loops with their full history", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Make tests pass", { loopId: "a", completionPromise: "DONE" });
+      manager.processIteration("still failing", { errors: ["boom"] }, "a");
+      const result = manager.processIteration("<promise>DONE</promise>", {}, "a");
+
+      expect(result.completed).toBe(true);
+      expect(result.archiveId).toMatch(/^a-\d{8}T\d{6}Z$/);
+      expect(manager.isLoopActive("a")).toBe(false);
+      expect(existsSync(join(stateDir, "a"))).toBe(false);
+
+      const archived = manager.getArchivedLoop(result.archiveId!);
+      expect(archived?.outcome).toBe("completed");
+      expect(archived?.state.prompt).toBe("Make tests pass");
+      expect(archived?.state.completionPromise).toBe("DONE");
+      expect(archived?.state.history).toHaveLength(2);
+      expect(archived?.state.history[0].errors).toEqual(["boom"]);
+      expect(
+        existsSync(join(stateDir, "_archive", `${result.archiveId}.history.jsonl`))
+      ).toBe(true);
+    });
+
+    it("should record how each loop ended", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("A", { loopId: "a", maxIterations: 1 });
+      manager.startLoop("B", { loopId: "b" });
+      manager.startLoop("C", { loopId: "c" });
+
+      manager.processIteration("work", {}, "a");
+      manager.cancelLoop("b");
+      manager.cancelLoop("c", "abandoned");
+
+      const outcomes = manager
+        .listArchivedLoops()
+        .map((record) => `${record.state.id}:${record.outcome}`)
+        .sort();
+      expect(outcomes).toEqual(["a:max_iterations", "b:cancelled", "c:abandoned"]);
+      expect(manager.listArchivedLoops({ outcome: "abandoned" })).toHaveLength(1);
+      expect(manager.getArchivedLoopsReport({ loopId: "b" })).toContain("cancelled after 0 iteration(s)");
+    });
+
+    it("should not read archives outside the archive directory", () => {
+      const manager = new RalphLoopManager(stateDir);
+      expect(manager.getArchivedLoop("../a/state")).toBeNull();
+    });
+  });
+
+  describe("Verified completion", () => {
+    const failingTests = {
+      passed: false,
+      presets: ["javascript-test"],
+      results: [
+        { name: "npm-test", command: "npm", exitCode: 1, output: "1 failing", duration: 10 },
+      ],
+      diagnostics: ["javascript-test: Tests: 4 passing, 1 failing"],
+    };
+
+    it("should reject the promise when verification fails", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Fix it", {
+        loopId: "a",
+        completionPromise: "ALL_TESTS_PASSING",
+        verifyWith: ["javascript-test"],
+      });
+
+      const output = "<promise>ALL_TESTS_PASSING</promise>";
+      expect(manager.isCompletionClaimed(output, {}, "a")).toBe(true);
+
+      const result = manager.processIteration(output, { verification: failingTests }, "a");
+      expect(result.completed).toBe(false);
+      expect(result.promiseRejected).toContain("Tests: 4 passing, 1 failing");
+
+      const entry = manager.getHistory("a")[0];
+      expect(entry.completionDetected).toBe(false);
+      expect(entry.promiseRejected).toContain("Verification failed (javascript-test)");
+    });
+
+    it("should reject the promise when verification did not run", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Fix it", {
+        loopId: "a",
+        completionPromise: "DONE",
+        verifyWith: ["javascript-test"],
+      });
+
+      const result = manager.processIteration("<promise>DONE</promise>", {}, "a");
+      expect(result.completed).toBe(false);
+      expect(result.promiseRejected).toContain("did not run");
+    });
+
+    it("should accept the promise when verification passes", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Fix it", {
+        loopId: "a",
+        completionPromise: "DONE",
+        verifyWith: ["javascript-test"],
+      });
+
+      const result = manager.processIteration(
+        "<promise>DONE</promise>",
+        { verification: { ...failingTests, passed: true, diagnostics: [] } },
+        "a"
+      );
+      expect(result.completed).toBe(true);
+      expect(result.completionDetected).toBe(true);
+      // The finished loop's state includes the iteration that completed it
+      expect(result.state?.history.map((entry) => entry.iteration)).toEqual([1]);
+    });
+  });
+
+  describe("Completion conditions", () => {
+    it("should complete when the condition is met and report progress in status", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Ship it", {
+        loopId: "a",
+        completionCondition: {
+          type: "and",
+          conditions: [
+            { type: "any_promise", values: ["DONE", "SHIPPED"] },
+            { type: "no_changes", iterations: 1 },
+          ],
+        },
+      });
+
+      const first = manager.processIteration(
+        "<promise>NOT_YET</promise><promise>SHIPPED</promise>",
+        { filesModified: ["src/a.ts"] },
+        "a"
+      );
+      expect(first.completed).toBe(false);
+      expect(manager.getStatus("a")).toContain("✓ any of <promise>DONE</promise>, <promise>SHIPPED</promise>");
+      expect(manager.getStatus("a")).toContain("✗ no file changes for 1 iteration(s) (currently 0)");
+
+      expect(manager.isCompletionClaimed("<promise>SHIPPED</promise>", {}, "a")).toBe(true);
+      const second = manager.processIteration("<promise>SHIPPED</promise>", {}, "a");
+      expect(second.completed).toBe(true);
+      expect(second.reason).toContain("Completion condition met");
+    });
+
+    it("should count file changes measured with git when the client reports none", () => {
+      const repo = mkdtempSync(join(tmpdir(), "ralph-changes-test-"));
+      try {
+        execSync("git init -q", { cwd: repo, stdio: "pipe" });
+        const git = new GitManager(repo);
+        const measure = (previousSnapshot: string) => {
+          const snapshot = git.createSnapshot()!;
+          return { snapshot, filesChanged: Object.keys(git.getChangedFileVersions(previousSnapshot, snapshot)) };
+        };
+
+        const manager = new RalphLoopManager(stateDir);
+        manager.startLoop("Tidy up", { loopId: "a", completionCondition: { type: "no_changes", iterations: 1 } });
+        writeFileSync(join(repo, "a.txt"), "one\n");
+        const start = git.createSnapshot()!;
+
+        // files_modified is omitted, but the tree changed
+        writeFileSync(join(repo, "a.txt"), "two\n");
+        const edited = measure(start);
+        expect(manager.isCompletionClaimed("edited", edited, "a")).toBe(false);
+        expect(manager.processIteration("edited", edited, "a").completed).toBe(false);
+
+        expect(manager.processIteration("idle", measure(edited.snapshot), "a").completed).toBe(true);
+      } finally {
+        rmSync(repo, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("Budgets", () => {
+    it("should stop the loop when the token budget runs out", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Task", { loopId: "a", budgets: { maxTokens: 1000, maxCost: 10 } });
+
+      const first = manager.processIteration("work", { usage: { tokens: 850, cost: 1 } }, "a");
+      expect(first.completed).toBe(false);
+      expect(first.budgetWarnings).toEqual(["Tokens: 850 of 1000 (85%)"]);
+      expect(manager.getStatus("a")).toContain("⚠️  Tokens: 850 of 1000 (85%)");
+      expect(manager.getStatus("a")).toContain("Cost: $1.00 of $10.00 (10%)");
+
+      const second = manager.processIteration("more work", { usage: { tokens: 200 } }, "a");
+      expect(second.completed).toBe(true);
+      expect(second.budgetExhausted).toBe("tokens");
+      expect(second.reason).toContain("Budget exhausted - Tokens: 1050 of 1000");
+      expect(manager.getArchivedLoop(second.archiveId!)?.outcome).toBe("budget_exhausted");
+    });
+
+    it("should count tool runtime and wall-clock time excluding pauses", () => {
+      jest.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Task", {
+        loopId: "a",
+        budgets: { maxDurationMs: 60_000, maxToolRuntimeMs: 10_000 },
+      });
+
+      manager.pauseLoop("lunch", "a");
+      jest.advanceTimersByTime(60 * 60 * 1000);
+      manager.resumeLoop("a");
+      jest.advanceTimersByTime(30_000);
+
+      const tool = { name: "npm-test", command: "npm", exitCode: 0, output: "", duration: 4_000 };
+      const first = manager.processIteration("work", { externalToolsRun: [tool] }, "a");
+      expect(first.completed).toBe(false);
+      expect(manager.getStatus("a")).toContain("Wall-clock time: 30s of 60s (50%)");
+      expect(manager.getStatus("a")).toContain("Tool runtime: 4s of 10s (40%)");
+
+      jest.advanceTimersByTime(40_000);
+      const second = manager.processIteration("work", {}, "a");
+      expect(second.completed).toBe(true);
+      expect(second.budgetExhausted).toBe("duration");
+    });
+  });
+
+  describe("Feedback prompt", () => {
+    const failingTool = {
+      name: "npm-test",
+      command: "npm",
+      exitCode: 1,
+      output: "PASS a.test.ts\nFAIL b.test.ts\n  expected 2, received 3",
+      duration: 100,
+    };
+
+    it("should keep the original prompt unless feedback mode is on", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Base prompt", { loopId: "a" });
+
+      const result = manager.processIteration("work", { externalToolsRun: [failingTool] }, "a");
+      expect(result.nextPrompt).toBe("Base prompt");
+    });
+
+    it("should append failing tools, files touched and position", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Base prompt", {
+        loopId: "a",
+        maxIterations: 10,
+        feedbackPrompt: true,
+        budgets: { maxTokens: 1000 },
+      });
+
+      manager.processIteration("work", { filesModified: ["src/a.ts"], usage: { tokens: 100 } }, "a");
+      const result = manager.processIteration(
+        "work",
+        { filesModified: ["src/b.ts"], externalToolsRun: [failingTool] },
+        "a"
+      );
+
+      expect(result.nextPrompt).toMatch(/^Base prompt\n\n--- Feedback from iteration 2 ---/);
+      expect(result.nextPrompt).toContain("Position: Iteration 3 of 10 | Tokens: 100 of 1000 (10%)");
+      expect(result.nextPrompt).toContain("✗ npm-test (exit code 1)");
+      expect(result.nextPrompt).toContain("expected 2, received 3");
+      expect(result.nextPrompt).toContain("Files touched so far (2): src/a.ts, src/b.ts");
+    });
+
+    it("should cap the feedback size", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Base prompt", { loopId: "a", feedbackPrompt: true });
+
+      const files = Array.from({ length: 10 }, (_, i) => `src/${"x".repeat(150)}${i}.ts`);
+      const noisyTools = Array.from({ length: 10 }, (_, i) => ({
+        ...failingTool,
+        name: `tool-${i}`,
+        output: Array.from({ length: 50 }, () => "y".repeat(300)).join("\n"),
+      }));
+      const result = manager.processIteration("work", { filesModified: files, externalToolsRun: noisyTools }, "a");
+
+      expect(result.nextPrompt).toContain("(feedback truncated)");
+      expect(result.nextPrompt!.length).toBeLessThan(4200);
+    });
+  });
+
+  describe("Similarity stagnation", () => {
+    it("should not flag different outputs of similar length", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Build the feature", { loopId: "a" });
+
+      manager.processIteration("Added the request parser and its unit tests", {}, "a");
+      manager.processIteration("Wired the parser into the HTTP handler layer", {}, "a");
+      manager.processIteration("Documented the new endpoint in the README now", {}, "a");
+
+      expect(manager.getStatus("a")).not.toContain("Stagnation Detected");
+    });
+
+    it("should flag near-identical outputs", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Build the feature", { loopId: "a" });
+
+      const output = "Tried to fix the flaky test by adding a retry around the network call";
+      for (let i = 0; i < 3; i++) {
+        manager.processIteration(output, {}, "a");
+      }
+
+      const report = manager.getStatus("a");
+      expect(report).toContain("🔍 Similarity (last 3): outputs 100% (threshold 90%)");
+      expect(report).toContain("Outputs of the last 3 iterations are near-identical");
+    });
+
+    it("should flag repeated edits to the same hunks using per-loop thresholds", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Build the feature", {
+        loopId: "a",
+        similarity: { diffThreshold: 0.5, window: 2 },
+      });
+
+      const diff = "@@ -3 +3 @@\n-const retries = 1;\n+const retries = 3;";
+      manager.processIteration("Raised the retry count", { diff }, "a");
+      manager.processIteration("Bumped retries again to stabilise it", { diff }, "a");
+
+      const report = manager.getStatus("a");
+      expect(manager.getState("a")?.similarity).toEqual({
+        outputThreshold: 0.9,
+        diffThreshold: 0.5,
+        window: 2,
+      });
+      expect(report).toContain("diffs 100% (threshold 50%)");
+      expect(report).toContain("Last 2 iterations edited the same hunks");
+    });
+  });
+
+  describe("Oscillation", () => {
+    it("should name files that return to an earlier version", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Fix the build", { loopId: "a", feedbackPrompt: true });
+
+      manager.processIteration("Use a map", { fileVersions: { "src/a.ts": ["aaa", "bbb"], "src/b.ts": ["111", "222"] } }, "a");
+      manager.processIteration("Use a list", { fileVersions: { "src/a.ts": ["bbb", "aaa"], "src/b.ts": ["222", "333"] } }, "a");
+      const result = manager.processIteration("Use a map", { fileVersions: { "src/a.ts": ["aaa", "bbb"] } }, "a");
+
+      expect(result.progress?.oscillatingFiles).toEqual(["src/a.ts"]);
+      expect(result.progress?.stagnationReason).toContain("src/a.ts returned to an earlier version");
+      expect(result.progress?.suggestedActions[0]).toContain("Pin one approach for src/a.ts");
+      expect(result.nextPrompt).toContain("Files flipping back and forth between versions");
+      expect(manager.getStatus("a")).toContain("🔀 Oscillating Files:");
+    });
+
+    it("should not flag files that keep moving forward", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Fix the build", { loopId: "a" });
+
+      manager.processIteration("step one", { fileVersions: { "src/a.ts": ["aaa", "bbb"] } }, "a");
+      manager.processIteration("step two", { fileVersions: { "src/a.ts": ["bbb", "ccc"] } }, "a");
+      const result = manager.processIteration("step three", { fileVersions: { "src/a.ts": ["ccc", "ddd"] } }, "a");
+
+      expect(result.progress?.oscillatingFiles).toEqual([]);
+    });
+  });
+
+  describe("Recovery", () => {
+    it("should rebuild a loop from its history when the state file is corrupt", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Fix the build", { loopId: "a", maxIterations: 10 });
+      manager.processIteration("first", {}, "a");
+      manager.processIteration("second", {}, "a");
+
+      writeFileSync(join(stateDir, "a", "state.json"), "{\"id\": \"a\", \"histo");
+      appendFileSync(join(stateDir, "a", "history.jsonl"), "{\"iteration\": 3, \"outp");
+
+      const restarted = new RalphLoopManager(stateDir);
+      const state = restarted.getState("a");
+      expect(state?.active).toBe(true);
+      expect(state?.prompt).toBe("Fix the build");
+      expect(state?.maxIterations).toBe(10);
+      expect(state?.iteration).toBe(3);
+      expect(state?.history.map((e) => e.output)).toEqual(["first", "second"]);
+
+      const [recovery] = restarted.recoverLoops();
+      expect(recovery).toMatchObject({ loopId: "a", restored: true, restoredEntries: 2, skippedLines: 1 });
+      expect(recovery.reason).toContain("state file corrupt");
+      expect(existsSync(recovery.corruptStateFile!)).toBe(true);
+    });
+
+    it("should catch up a state file that is behind the history", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Fix the build", { loopId: "a" });
+      manager.processIteration("first", {}, "a");
+      const staleState = readFileSync(join(stateDir, "a", "state.json"), "utf-8");
+      manager.processIteration("second", {}, "a");
+      writeFileSync(join(stateDir, "a", "state.json"), staleState);
+
+      const restarted = new RalphLoopManager(stateDir);
+      expect(restarted.getState("a")?.iteration).toBe(3);
+      expect(restarted.getRecoveryReport()).toContain("history log ahead of state file");
+    });
+
+    it("should recover loops whose state disappeared while running", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Fix the build", { loopId: "a" });
+      const other = new RalphLoopManager(stateDir);
+      manager.startLoop("Write docs", { loopId: "b" });
+      unlinkSync(join(stateDir, "b", "state.json"));
+
+      expect(other.getState("b")).toBeNull();
+      expect(other.getRecoveryReport()).toContain("b - restored");
+      expect(other.getState("b")?.prompt).toBe("Write docs");
+      expect(existsSync(join(stateDir, "b", "state.json"))).toBe(true);
+    });
+
+    it("should keep measuring iteration durations across restarts", () => {
+      jest.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Fix the build", { loopId: "a" });
+
+      jest.advanceTimersByTime(5000);
+      const restarted = new RalphLoopManager(stateDir);
+      restarted.processIteration("first", {}, "a");
+
+      expect(restarted.getHistory("a")[0].duration).toBe(5000);
+    });
+  });
+
+  describe("Artifacts", () => {
+    it("should keep full outputs, tool logs and artifacts in the blob store", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Fix the build", { loopId: "a" });
+      const output = `Done. ${"x".repeat(2000)}`;
+      const toolLog = "FAIL ".repeat(2000);
+
+      // Checking for a completion claim stores nothing
+      manager.isCompletionClaimed(output, { artifacts: [{ name: "report.html", data: "<html>report</html>" }] }, "a");
+      expect(existsSync(join(stateDir, "_blobs"))).toBe(false);
+
+      manager.processIteration(output, {
+        externalToolsRun: [{ name: "jest", command: "npm test", exitCode: 1, output: toolLog, duration: 10 }],
+        artifacts: [{ name: "report.html", data: "<html>report</html>" }],
+      }, "a");
+
+      const [entry] = manager.getHistory("a");
+      expect(entry.output).toHaveLength(1000);
+      expect(manager.getArtifact(entry.outputBlob!)?.data.toString()).toBe(output);
+      expect(entry.externalToolsRun![0].output).toHaveLength(5000);
+      expect(manager.getArtifact(entry.externalToolsRun![0].outputBlob!.substring(0, 8))?.data.toString()).toBe(toolLog);
+      expect(entry.artifacts).toEqual([{ name: "report.html", hash: expect.any(String), size: 19 }]);
+      expect(manager.getHistoryReport("a")).toContain(`report.html: ${entry.artifacts![0].hash.substring(0, 12)}`);
+
+      // Short outputs are kept in full without a blob
+      manager.processIteration("short", {}, "a");
+      expect(manager.getHistory("a")[1].outputBlob).toBeUndefined();
+    });
+
+    it("should collect blobs of archived loops", () => {
+      jest.useFakeTimers({ now: new Date("2026-03-01T10:00:00Z") });
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Live loop", { loopId: "live" });
+      manager.processIteration("working", { artifacts: [{ name: "live.log", data: "live" }] }, "live");
+      manager.startLoop("Finished loop", { loopId: "done" });
+      manager.processIteration("finished", { artifacts: [{ name: "done.log", data: "done" }] }, "done");
+      manager.cancelLoop("done");
+      const [liveHash] = manager.getHistory("live")[0].artifacts!.map((a) => a.hash);
+
+      jest.advanceTimersByTime(2 * 24 * 60 * 60 * 1000);
+      expect(manager.collectGarbage(7)).toEqual({ removed: 0, freedBytes: 0, kept: 2 });
+      expect(manager.collectGarbage()).toEqual({ removed: 1, freedBytes: 4, kept: 1 });
+      expect(manager.getArtifact(liveHash)?.data.toString()).toBe("live");
+      expect(manager.listLoops().map((loop) => loop.id)).toEqual(["live"]);
+    });
+  });
+
+  describe("History search", () => {
+    it("should list matches oldest first with highlighted snippets", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Fix auth", { loopId: "a" });
+      manager.processIteration("first", { filesModified: ["src/index.ts"] }, "a");
+      manager.processIteration("second", {
+        filesModified: ["src/auth.ts"],
+        errors: [`${"x".repeat(60)} Error: token expired while refreshing the session`],
+      }, "a");
+      manager.processIteration("third", { errors: ["Error: token expired"] }, "a");
+
+      const report = manager.searchHistory({ errorSubstring: "token expired", limit: 1 });
+
+      expect(report).toContain("Matches: 2 iteration(s) in 1 loop(s)");
+      expect(report).toContain("First match: loop a, iteration 2");
+      expect(report).toContain(`error: ...${"x".repeat(32)} Error: **token expired** while refreshing the session`);
+      expect(report).not.toContain("#3");
+      expect(report).toContain("Showing the first 1 of 2 matches");
+      expect(manager.searchHistory({ file: "auth.*" })).toContain("file: src/**auth.ts**");
+      expect(manager.searchHistory({ command: "deploy" })).toContain("No matching iterations.");
+    });
+  });
+
+  describe("Usage", () => {
+    const prices = { "claude-sonnet-4": { input: 3, output: 15 } };
+
+    it("should price tokens and aggregate usage in the status", () => {
+      const manager = new RalphLoopManager(stateDir, { prices });
+      manager.startLoop("Task", { loopId: "a", budgets: { maxCost: 1 } });
+
+      manager.processIteration(
+        "work",
+        { usage: { inputTokens: 100_000, outputTokens: 10_000, model: "claude-sonnet-4-20250514" } },
+        "a"
+      );
+      manager.processIteration("work", { usage: { tokens: 5_000, cost: 0.2, model: "other-model" } }, "a");
+      manager.processIteration("work", {}, "a");
+
+      const entry = manager.getHistory("a")[0];
+      expect(entry.usage).toMatchObject({ tokens: 110_000, costEstimated: true });
+      expect(entry.usage?.cost).toBeCloseTo(0.45);
+
+      const status = manager.getStatus("a");
+      expect(status).toContain("💵 Usage:");
+      expect(status).toContain("Tokens: 115000 (input 100000, output 10000)");
+      expect(status).toContain("Cost: $0.6500 ($0.4500 estimated from the price table)");
+      expect(status).toContain("Per iteration: 57500 tokens, $0.3250 avg (2 of 3 iterations reported usage)");
+      expect(status).toContain("Cost: $0.65 of $1.00 (65%)");
+    });
+
+    it("should report usage per template across live and archived loops", () => {
+      const manager = new RalphLoopManager(stateDir, { prices });
+      manager.startLoop("Docs", { loopId: "docs", templateId: "documentation", maxIterations: 1 });
+      manager.processIteration("work", { usage: { tokens: 1_000, cost: 0.01 } }, "docs");
+      manager.startLoop("API", { loopId: "api", templateId: "rest-api" });
+      manager.processIteration("work", { usage: { tokens: 20_000, cost: 2 } }, "api");
+      manager.processIteration("work", { usage: { tokens: 10_000, cost: 1 } }, "api");
+
+      const report = manager.getUsageReport();
+      expect(report).toContain("Loops: 2 (live and archived)");
+      expect(report.indexOf("rest-api: 1 loop(s), 2 iteration(s)")).toBeLessThan(
+        report.indexOf("documentation: 1 loop(s), 1 iteration(s)")
+      );
+      expect(report).toContain("Per iteration: 15000 tokens, $1.50 avg");
+      expect(report).toContain("Per loop: $3.00 avg");
+      expect(manager.getUsageReport(false)).not.toContain("documentation");
+    });
+  });
+
+  describe("Progress signals", () => {
+    it("should score progress from tool results and report the ETA", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Task", { loopId: "a" });
+
+      let result;
+      for (const failed of [6, 4, 2]) {
+        result = manager.processIteration(
+          "work",
+          {
+            externalToolsRun: [
+              {
+                name: "npm-test",
+                command: "npm test",
+                preset: "javascript-test",
+                exitCode: 1,
+                output: `Tests:       ${failed} failed, ${10 - failed} passed, 10 total`,
+                duration: 1000,
+              },
+            ],
+            errors: ["npm-test failed"],
+          },
+          "a"
+        );
+      }
+
+      expect(manager.getHistory("a")[2].signals).toEqual({ testsPassed: 8, testsFailed: 2 });
+      expect(result?.progress?.signals.map((trend) => [trend.signal, trend.direction])).toEqual([
+        ["tests", "improving"],
+        ["errors", "flat"],
+      ]);
+      // Reported errors are not going down, so there is no overall ETA yet
+      expect(result?.progress?.eta).toBeUndefined();
+
+      const status = manager.getStatus("a");
+      expect(status).toContain("📊 Progress signals (convergence 40%):");
+      expect(status).toContain("tests: 2 failing, 8 passing - improving (-2/iteration), ETA 1 (90% CI 1-1)");
+    });
+  });
+
+  describe("Test deltas", () => {
+    const jestRun = (failing: string[], passing: string[] = []) => ({
+      externalToolsRun: [
+        {
+          name: "npm-test",
+          command: "npm test",
+          preset: "javascript-test",
+          exitCode: failing.length > 0 ? 1 : 0,
+          output: [
+            ...passing.map((name) => `    ✓ ${name} (1 ms)`),
+            ...failing.map((name) => `  ● Suite › ${name}`),
+          ].join("\n"),
+          duration: 1000,
+        },
+      ],
+    });
+
+    it("should compare failing tests with the last iteration that ran tests and flag regressions", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Task", { loopId: "a", feedbackPrompt: true });
+
+      const first = manager.processIteration("work", jestRun(["adds", "subtracts"]), "a");
+      expect(first.testDelta).toBeUndefined();
+      manager.processIteration("no tests run", {}, "a");
+      const third = manager.processIteration("work", jestRun(["subtracts", "divides"], ["adds"]), "a");
+
+      expect(third.testDelta).toEqual({
+        since: 1,
+        newlyPassing: ["Suite › adds"],
+        newlyFailing: ["Suite › divides"],
+        stillFailing: ["Suite › subtracts"],
+        noLongerFailing: [],
+      });
+      expect(third.progress?.regressions).toEqual(["Suite › divides"]);
+      expect(third.progress?.suggestedActions[0]).toContain("Fix the 1 test(s) that started failing");
+      expect(third.nextPrompt).toContain("Test changes since iteration 1:");
+      expect(manager.getStatus("a")).toContain("🚨 Newly failing (1): Suite › divides");
+
+      // "subtracts" was deleted rather than fixed: it is not reported as passing
+      const fourth = manager.processIteration("work", jestRun([], ["adds", "divides"]), "a");
+      expect(fourth.testDelta?.newlyPassing).toEqual(["Suite › divides"]);
+      expect(fourth.testDelta?.noLongerFailing).toEqual(["Suite › subtracts"]);
+      expect(manager.getStatus("a")).toContain(
+        "❔ No longer failing, not seen passing (renamed, removed or not run) (1): Suite › subtracts"
+      );
+      expect(fourth.progress?.regressions).toEqual([]);
+    });
+  });
+
+  describe("Regression policy", () => {
+    const testRun = (failed: number) => [
+      {
+        name: "npm-test",
+        command: "npm test",
+        preset: "javascript-test",
+        exitCode: failed > 0 ? 1 : 0,
+        output: `Tests: ${failed} failed, ${10 - failed} passed, 10 total`,
+        duration: 1000,
+      },
+    ];
+
+    it("should offer a rollback, record it when performed and leave a note", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Task", {
+        loopId: "a",
+        autoCommit: true,
+        regressionPolicy: { presets: ["javascript-test"], iterations: 2, mode: "offer" },
+      });
+
+      manager.processIteration("green", { externalToolsRun: testRun(0), gitCommit: "aaaa111" }, "a");
+      manager.processIteration("broke it", { externalToolsRun: testRun(2), gitCommit: "bbbb222" }, "a");
+      expect(manager.getRollbackCandidate(testRun(1), "a")).toMatchObject({
+        iteration: 1,
+        commit: "aaaa111",
+        failingIterations: [2, 3],
+      });
+
+      const offer = manager.getRollbackCandidate(testRun(3), "a")!;
+      const offered = manager.processIteration(
+        "still broken",
+        { externalToolsRun: testRun(3), gitCommit: "cccc333", rollbackOffer: offer },
+        "a"
+      );
+      expect(offered.rollbackOffer).toEqual(offer);
+      expect(manager.getStatus("a")).toContain("♻️  Rollback offered to iteration 1");
+
+      const rolledBack = manager.processIteration(
+        "accepted",
+        {
+          rollback: {
+            toIteration: 1,
+            commit: "aaaa111",
+            previousHead: "cccc333",
+            discardedCommits: ["cccc333", "bbbb222"],
+            stash: "dddd444",
+            files: ["src/a.ts"],
+            failingIterations: offer.failingIterations,
+            automatic: false,
+          },
+        },
+        "a"
+      );
+      expect(rolledBack.rollback?.toIteration).toBe(1);
+      expect(rolledBack.rollbackOffer).toBeUndefined();
+      expect(manager.getHistory("a")[3].rollback?.stash).toBe("dddd444");
+      expect(rolledBack.notes?.[0].text).toContain("Rolled back to iteration 1 (commit aaaa111)");
+      expect(rolledBack.notes?.[0].text).toContain("Discarded 2 commit(s): cccc333, bbbb222");
+      expect(manager.getStatus("a")).toContain("offer rollback after 2 failing iteration(s) of javascript-test (1 rollback(s) so far)");
+
+      // Failures before the rollback no longer count
+      expect(manager.getRollbackCandidate(testRun(1), "a")).toBeNull();
+    });
+  });
+
+  describe("Notes", () => {
+    it("should carry the latest notes into the next iterations", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Task", { loopId: "a", notesInPrompt: 2 });
+
+      manager.addNote("tried X, failed because Y", "a");
+      manager.addNote("  Z looks promising\nsee src/z.ts  ", "a");
+      const first = manager.processIteration("work", {}, "a");
+      expect(first.notes?.map((note) => note.id)).toEqual([1, 2]);
+
+      manager.addNote("Z worked", "a");
+      const second = manager.processIteration("work", {}, "a");
+      expect(second.notes?.map((note) => [note.id, note.iteration])).toEqual([[2, 1], [3, 2]]);
+
+      const report = new RalphLoopManager(stateDir).getNotesReport("a");
+      expect(report).toContain("📝 Notes for loop a (3)");
+      expect(report).toContain("Iteration 1:\n  #1 tried X, failed because Y\n  #2 Z looks promising\n     see src/z.ts");
+      expect(report).toContain("Iteration 2:\n  #3 Z worked");
+      expect(manager.getNotesReport("a", 2)).not.toContain("#1");
+      expect(manager.getStatus("a")).toContain("Notes: 3 (see ralph_note_list)");
+    });
+
+    it("should clear notes by ID, by iteration or all at once", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Task", { loopId: "a", notesInPrompt: 0 });
+      manager.addNote("one", "a");
+      manager.addNote("two", "a");
+      expect(manager.processIteration("work", {}, "a").notes).toBeUndefined();
+      manager.addNote("three", "a");
+      manager.addNote("four", "a");
+
+      expect(manager.clearNotes({ noteId: 2 }, "a")).toBe(1);
+      expect(manager.clearNotes({ noteId: 2 }, "a")).toBe(0);
+      expect(manager.clearNotes({ beforeIteration: 2 }, "a")).toBe(1);
+      expect(manager.getState("a")?.notes?.map((note) => note.text)).toEqual(["three", "four"]);
+      expect(manager.clearNotes({}, "a")).toBe(2);
+      expect(manager.getState("a")?.notes).toBeUndefined();
+      expect(manager.clearNotes({}, "missing")).toBeNull();
+
+      expect(() => manager.addNote("   ", "a")).toThrow("must not be empty");
+      expect(() => manager.addNote("x".repeat(2001), "a")).toThrow("at most 2000 characters");
+    });
+  });
+
+  describe("Lessons", () => {
+    const failing = { name: "npm test", command: "npm test", exitCode: 1, output: "", duration: 10 };
+    const passing = { ...failing, exitCode: 0 };
+
+    it("should record resolved errors and suggest them to later loops", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Fix the build", { loopId: "a", templateId: "bug-fix" });
+      manager.processIteration(
+        "work",
+        { errors: ["TypeError: user is undefined at /src/auth.ts:10:5", "npm test failed"], externalToolsRun: [failing] },
+        "a"
+      );
+      // No tools ran, so the missing error does not count as fixed
+      manager.processIteration("work", {}, "a");
+      manager.processIteration(
+        "work",
+        { errors: ["TypeError: user is undefined at /src/auth.ts:12:5"], externalToolsRun: [failing] },
+        "a"
+      );
+      expect(manager.getLessonsReport()).toContain("No lessons yet.");
+
+      manager.processIteration(
+        "fixed",
+        { filesModified: ["src/auth.ts"], gitCommit: "abc1234def", externalToolsRun: [passing] },
+        "a"
+      );
+      const report = manager.getLessonsReport();
+      expect(report).toContain("Lessons: 1");
+      expect(report).toContain("TypeError: user is undefined at /src/auth.ts:12:5");
+      expect(report).toContain("Fixed in loop a (bug-fix), iteration 4");
+      expect(report).not.toContain("npm test failed");
+
+      manager.startLoop("Another task", { loopId: "b" });
+      manager.processIteration(
+        "work",
+        { errors: ["TypeError: user is undefined at /lib/auth.ts:99:1"], externalToolsRun: [failing] },
+        "b"
+      );
+      const status = new RalphLoopManager(stateDir).getStatus("b");
+      expect(status).toContain("💡 Suggested actions:");
+      expect(status).toContain(
+        'Seen before: "TypeError: user is undefined at /src/auth.ts:12:5" was fixed in loop a (iteration 4) by changing src/auth.ts - see commit abc1234'
+      );
+    });
+
+    it("should browse and prune lessons", () => {
+      const manager = new RalphLoopManager(stateDir);
+      manager.startLoop("Task", { loopId: "a" });
+      manager.processIteration("work", { errors: ["lint: unused variable x", "type error in b.ts"], externalToolsRun: [failing] }, "a");
+      manager.processIteration("work", { filesModified: ["a.ts"], externalToolsRun: [passing] }, "a");
+
+      expect(manager.getLessonsReport({ search: "LINT" })).toContain("Lessons: 1 of 2");
+      expect(manager.getLessonsReport({ search: "nothing" })).toBe("No lessons match (2 in total).");
+      expect(manager.pruneLessons({ olderThanDays: 1 })).toBe(0);
+      expect(manager.pruneLessons({ search: "lint" })).toBe(1);
+      expect(manager.pruneLessons({ olderThanDays: 0 })).toBe(1);
+      expect(manager.getLessonsReport()).toContain("No lessons yet.");
+    });
+  });
+
+  describe("Shared state directory", () => {
+    it("should see changes made by another manager", () => {
+      const first = new RalphLoopManager(stateDir);
+      const second = new RalphLoopManager(stateDir);
+
+      first.startLoop("Fix the build", { loopId: "a" });
+      second.processIteration("work", {}, "a");
+      expect(first.getState("a")?.iteration).toBe(2);
+
+      first.pauseLoop("lunch", "a");
+      expect(second.getState("a")?.paused).toBe(true);
+
+      expect(first.resumeLoop("a")?.state).toMatchObject({ iteration: 2, paused: false });
+      second.cancelLoop("a");
+      expect(first.listLoops()).toEqual([]);
+    });
+
+    it("should reject output for an iteration another manager already processed", () => {
+      const first = new RalphLoopManager(stateDir);
+      const second = new RalphLoopManager(stateDir);
+      first.startLoop("Fix the build", { loopId: "a" });
+
+      first.processIteration("from the editor", {}, "a", 1);
+      expect(() => second.processIteration("from the terminal", {}, "a", 1)).toThrow(
+        "Conflict: loop a is at iteration 2, but this output is for iteration 1"
+      );
+      expect(first.getHistory("a")).toHaveLength(1);
+    });
+  });
+});
@@ -5,39 +5,272 @@
  * Includes iteration history tracking, progress metrics, and stagnation detection.
  */
 
+import { randomBytes } from "crypto";
+import {
+  FileStorage,
+  RalphHistoryHighlight,
+  RalphHistoryLog,
+  RalphHistoryMatch,
+  RalphHistoryQuery,
+  RalphStorage,
+  createEntryMatcher,
+} from "./storage.js";
+import {
+  CompletionConditionStatus,
+  RalphCompletionCondition,
+  describeCompletionCondition,
+  evaluateCompletionCondition,
+  extractPromises,
+  formatConditionStatus,
+} from "./completion.js";
+import { BlobGarbageReport } from "./blobs.js";
+import type { RalphExportSource } from "./export.js";
+import {
+  clusterErrors,
+  fingerprintError,
+  formatErrorCluster,
+  RalphErrorCluster,
+} from "./fingerprint.js";
+import { RalphLesson, RalphLessonFilter } from "./lessons.js";
+import {
+  analyzeSignals,
+  formatEta,
+  formatSignalTrend,
+  getConvergenceScore,
+  getOverallEta,
+  measureSignals,
+  RalphEta,
+  RalphIterationSignals,
+  RalphSignalTrend,
+} from "./progress.js";
+import {
+  countPresetFailures,
+  describeRollback,
+  findRollbackCandidate,
+  RalphRegressionPolicy,
+  RalphRollback,
+  RalphRollbackCandidate,
+} from "./rollback.js";
+import { computeTestDelta, formatTestDelta, getFailedTests, getPassedTests, RalphTestDelta } from "./test-results.js";
+import { renderMetrics } from "./metrics.js";
+import {
+  formatCost,
+  priceUsage,
+  RalphPriceTable,
+  RalphUsageSummary,
+  summarizeUsage,
+} from "./usage.js";
+import {
+  newLoopTrace,
+  newSpanId,
+  RalphLoopTrace,
+  Tracer,
+} from "./tracing.js";
+import {
+  estimateSimilarity,
+  minHash,
+  shingleDiff,
+  shingleOutput,
+} from "./similarity.js";
+
 export interface RalphLoopState {
+  id: string;
   active: boolean;
   iteration: number;
   maxIterations: number;
   completionPromise: string | null;
+  completionCondition?: RalphCompletionCondition; // replaces completionPromise when set
   startedAt: string;
   prompt: string;
+  templateId?: string; // template the prompt came from
   history: RalphIterationHistoryEntry[];
   gitEnabled: boolean;
   autoCommit: boolean;
+  verifyWith?: string[]; // tool presets that must pass before the promise is accepted
+  budgets?: RalphLoopBudgets;
+  feedbackPrompt?: boolean; // append feedback from the previous iteration to nextPrompt
+  similarity?: RalphSimilaritySettings;
+  startSnapshot?: string; // working-tree snapshot taken when the loop started
+  paused?: boolean;
+  pausedAt?: string;
+  pauseReason?: string;
+  totalPausedMs?: number; // wall-clock time spent paused, excluded from durations
+  lastIterationStartTime?: number; // epoch ms when the current iteration started
+  trace?: RalphLoopTrace; // span IDs of the loop and its current iteration
+  notes?: RalphLoopNote[]; // scratchpad carried across iterations, oldest first
+  notesInPrompt?: number; // latest notes shown when continuing (0 = none)
+  regressionPolicy?: RalphRegressionPolicy; // roll back to the last green iteration on regression
+  rollbackOffer?: RalphRollbackCandidate; // rollback offered by the last iteration
+}
+
+export interface RalphLoopNote {
+  id: number;
+  iteration: number; // iteration the note was written in
+  createdAt: string;
+  text: string;
+}
+
+export type RalphLoopOutcome =
+  | "completed"
+  | "cancelled"
+  | "max_iterations"
+  | "budget_exhausted"
+  | "abandoned";
+
+export interface RalphLoopBudgets {
+  maxDurationMs?: number; // wall-clock, excluding time spent paused
+  maxToolRuntimeMs?: number;
+  maxTokens?: number;
+  maxCost?: number;
+}
+
+export interface RalphBudgetUsage {
+  budget: "duration" | "tool_runtime" | "tokens" | "cost";
+  used: number;
+  limit: number;
+  percent: number;
+}
+
+export interface RalphSimilaritySettings {
+  outputThreshold: number; // 0-1, outputs at least this similar count as repeats
+  diffThreshold: number; // 0-1, diffs at least this similar count as repeated edits
+  window: number; // consecutive iterations compared
+}
+
+/**
+ * First line of a loop's history log, so the loop can be rebuilt from the
+ * log alone if its state file is lost
+ */
+export interface RalphHistoryStartRecord {
+  event: "loop_started";
+  state: RalphLoopState; // settings at start, with an empty history
+}
+
+export interface RalphRecoveryResult {
+  loopId: string;
+  restored: boolean;
+  reason: string; // what was wrong with the stored state
+  iteration?: number; // iteration the restored loop continues from
+  restoredEntries: number; // history entries taken from the log
+  skippedLines: number; // unreadable log lines, e.g. a write cut off by a crash
+  corruptStateFile?: string; // where the unreadable state file was moved
+}
+
+export interface RalphArchivedLoop {
+  archiveId: string;
+  outcome: RalphLoopOutcome;
+  reason: string;
+  endedAt: string;
+  state: RalphLoopState; // prompt, settings and full history at the end of the loop
+}
+
+export interface RalphLoopOptions {
+  loopId?: string;
+  maxIterations?: number;
+  completionPromise?: string | null;
+  completionCondition?: RalphCompletionCondition;
+  gitEnabled?: boolean;
+  autoCommit?: boolean;
+  verifyWith?: string[];
+  budgets?: RalphLoopBudgets;
+  feedbackPrompt?: boolean;
+  similarity?: Partial<RalphSimilaritySettings>;
+  startSnapshot?: string;
+  templateId?: string;
+  notesInPrompt?: number;
+  regressionPolicy?: RalphRegressionPolicy;
+}
+
+export interface RalphIterationUsage {
+  tokens?: number; // total; input plus output tokens unless reported
+  inputTokens?: number;
+  outputTokens?: number;
+  model?: string;
+  cost?: number; // USD
+  costEstimated?: boolean; // cost came from the price table
 }
 
 export interface RalphIterationHistoryEntry {
   iteration: number;
   timestamp: string;
-  duration?: number; // milliseconds
-  output: string;
+  duration?: number; // milliseconds, excluding time spent paused
+  output: string; // preview; see outputBlob
+  outputBlob?: string; // blob hash of the full output, when longer than the preview
+  promises?: string[]; // text of every <promise> tag in the output
   completionDetected: boolean;
+  promiseRejected?: string; // why a detected promise was not accepted
   filesModified?: string[];
+  filesChanged?: string[]; // files changed since the previous iteration, measured from git snapshots
   commandsRun?: string[];
   errors?: string[];
   gitCommit?: string;
   externalToolsRun?: ExternalToolResult[];
+  usage?: RalphIterationUsage;
+  signals?: RalphIterationSignals; // test, lint and build results and diff size
+  failedTests?: string[]; // failing tests, when a test tool ran
+  testDelta?: RalphTestDelta; // failing tests compared with the last iteration that ran tests
+  presetFailures?: number; // failures of the regression policy's presets, when they all ran
+  rollback?: RalphRollback; // rollback performed before the iteration was recorded
+  snapshot?: string; // working-tree snapshot at the end of the iteration
+  outputSignature?: number[]; // MinHash of the full output
+  diffSignature?: number[]; // MinHash of the iteration's diff
+  fileVersions?: Record<string, [string, string]>; // content hash before and after, per changed file
+  artifacts?: RalphArtifactRef[];
+  compacted?: boolean; // summary kept in the state; the full entry is in the history log
 }
 
 export interface ExternalToolResult {
   name: string;
   command: string;
+  preset?: string; // preset the tool was run from
   exitCode: number;
-  output: string;
+  output: string; // a preview once recorded in history; see outputBlob
+  outputBlob?: string; // blob hash of the full tool log, when longer than the preview
+  startTime?: number; // epoch ms
   duration: number;
 }
 
+export interface RalphArtifactRef {
+  name: string;
+  hash: string; // blob hash, retrievable with ralph_get_artifact
+  size: number; // bytes
+}
+
+export interface RalphArtifact {
+  name: string;
+  data: string | Uint8Array;
+}
+
+export interface RalphVerificationResult {
+  passed: boolean;
+  presets: string[];
+  results: ExternalToolResult[];
+  diagnostics: string[];
+}
+
+export interface RalphIterationMetadata {
+  filesModified?: string[];
+  filesChanged?: string[]; // measured by the server from git snapshots
+  commandsRun?: string[];
+  errors?: string[];
+  gitCommit?: string;
+  externalToolsRun?: ExternalToolResult[];
+  verification?: RalphVerificationResult;
+  usage?: RalphIterationUsage;
+  snapshot?: string;
+  diff?: string; // unified diff of the iteration's changes
+  fileVersions?: Record<string, [string, string]>;
+  artifacts?: RalphArtifact[]; // stored in the blob store
+  rollback?: RalphRollback; // performed by the server before processing the iteration
+  rollbackOffer?: RalphRollbackCandidate; // rollback to offer for the next iteration
+}
+
+export interface RalphLoopManagerOptions {
+  fullHistoryEntries?: number; // recent iterations kept in full in the state (older ones are compacted)
+  tracer?: Tracer; // records loop, iteration and analysis spans
+  prices?: RalphPriceTable; // prices tokens when an iteration reports no cost
+}
+
 export interface RalphIterationResult {
   completed: boolean;
   iteration: number;
@@ -45,375 +278,1871 @@ export interface RalphIterationResult {
   nextPrompt?: string;
   completionDetected?: boolean;
   progress?: RalphProgressMetrics;
+  archiveId?: string;
+  promiseRejected?: string;
+  budgetExhausted?: RalphBudgetUsage["budget"];
+  budgetWarnings?: string[];
+  notes?: RalphLoopNote[]; // latest notes to carry into the next iteration
+  testDelta?: RalphTestDelta; // failing tests compared with the last iteration that ran tests
+  rollback?: RalphRollback; // rollback performed in this iteration
+  rollbackOffer?: RalphRollbackCandidate; // rollback the next iteration can accept
+  state?: RalphLoopState; // the loop after this iteration, also when it finished
 }
 
 export interface RalphProgressMetrics {
   stagnationDetected: boolean;
   stagnationReason?: string;
-  convergenceRate: number; // 0-1, higher = better
-  repeatedErrors: string[];
+  convergenceRate: number; // 0-1, mean progress of the signals towards their targets
+  signals: RalphSignalTrend[]; // per-signal trends: tests, lint, build, errors, diff size
+  repeatedErrors: RalphErrorCluster[]; // errors seen 3+ times, most frequent first
+  regressions: string[]; // tests the latest iteration broke
   suggestedActions: string[];
   estimatedIterationsRemaining?: number;
+  eta?: RalphEta; // estimatedIterationsRemaining with its confidence interval
+  outputSimilarity?: number; // lowest similarity between consecutive outputs in the window
+  diffSimilarity?: number; // lowest similarity between consecutive diffs in the window
+  similarityThresholds: RalphSimilaritySettings;
+  oscillatingFiles: string[]; // files whose content returned to an earlier version
+}
+
+const BUDGET_WARNING_THRESHOLD = 80; // percent
+const FEEDBACK_MAX_CHARS = 4000; // cap on the feedback section appended to the prompt
+const DEFAULT_SIMILARITY: RalphSimilaritySettings = {
+  outputThreshold: 0.9,
+  diffThreshold: 0.8,
+  window: 3,
+};
+const OSCILLATION_WINDOW = 10; // iterations searched for files flipping between versions
+const DEFAULT_FULL_HISTORY_ENTRIES = 100;
+const MIN_FULL_HISTORY_ENTRIES = 20; // covers the largest similarity and oscillation windows
+const COMPACT_OUTPUT_CHARS = 200; // output kept in a compacted history entry
+const OUTPUT_PREVIEW_CHARS = 1000; // output kept in a history entry; the rest is in the blob store
+const TOOL_OUTPUT_PREVIEW_CHARS = 5000;
+const MAX_NOTES = 100; // per loop; the oldest notes are dropped
+const MAX_NOTE_CHARS = 2000;
+const DEFAULT_NOTES_IN_PROMPT = 5;
+const MAX_LESSON_SUGGESTIONS = 3;
+
+/**
+ * Get an iteration's errors, leaving out the generic "<tool> failed" added
+ * for each failing tool run, which says nothing about the cause
+ */
+function getSpecificErrors(entry: RalphIterationHistoryEntry): string[] {
+  const toolFailures = new Set((entry.externalToolsRun || []).map((tool) => `${tool.name} failed`));
+  return (entry.errors || []).filter((error) => !toolFailures.has(error));
+}
+
+/**
+ * Summarize a history entry for the state file: large fields (full output,
+ * tool output, signatures, snapshots) are dropped, while the fields used
+ * by progress analysis, budgets and completion conditions are kept
+ */
+function compactHistoryEntry(entry: RalphIterationHistoryEntry): RalphIterationHistoryEntry {
+  return {
+    iteration: entry.iteration,
+    timestamp: entry.timestamp,
+    duration: entry.duration,
+    output:
+      entry.output.length > COMPACT_OUTPUT_CHARS
+        ? `${entry.output.substring(0, COMPACT_OUTPUT_CHARS)}...`
+        : entry.output,
+    outputBlob: entry.outputBlob,
+    promises: entry.promises,
+    completionDetected: entry.completionDetected,
+    promiseRejected: entry.promiseRejected?.split("\n")[0],
+    filesModified: entry.filesModified,
+    filesChanged: entry.filesChanged,
+    commandsRun: entry.commandsRun,
+    errors: entry.errors,
+    gitCommit: entry.gitCommit,
+    externalToolsRun: entry.externalToolsRun?.map((tool) => ({ ...tool, output: "" })),
+    usage: entry.usage,
+    signals: entry.signals,
+    failedTests: entry.failedTests,
+    testDelta: entry.testDelta,
+    presetFailures: entry.presetFailures,
+    rollback: entry.rollback,
+    artifacts: entry.artifacts,
+    compacted: true,
+  };
 }
 
 /**
  * Ralph Loop Manager
  *
  * Manages Ralph loop state, iteration logic, history tracking, and progress analysis.
+ * Several named loops can run side by side; each one keeps its own state and
+ * history. Persistence goes through a RalphStorage backend (files by
+ * default). Several server processes may share the same storage: changes
+ * are made under its lock, on state reloaded from storage.
  */
 export class RalphLoopManager {
-  private state: RalphLoopState | null = null;
-  private stateFilePath: string;
-  private historyFilePath: string;
-  private lastIterationStartTime: number | null = null;
+  private loops: Map<string, RalphLoopState> = new Map();
+  private storage: RalphStorage;
+  private recoveries: RalphRecoveryResult[] = [];
+  private stateVersions: Map<string, string> = new Map(); // state version last read or written
+  private fullHistoryEntries: number;
+  private tracer?: Tracer;
+  private prices: RalphPriceTable;
 
-  constructor(stateFilePath: string = ".REMOVED/ralph-loop-state.json") {
-    this.stateFilePath = stateFilePath;
-    this.historyFilePath = stateFilePath.replace("-state.json", "-history.jsonl");
-    this.loadState();
+  /**
+   * @param storage Storage backend, or a state directory for file storage
+   */
+  constructor(
+    storage: RalphStorage | string = ".REMOVED/ralph-loops",
+    options: RalphLoopManagerOptions = {}
+  ) {
+    this.storage = typeof storage === "string" ? new FileStorage(storage) : storage;
+    this.fullHistoryEntries = Math.max(
+      options.fullHistoryEntries ?? DEFAULT_FULL_HISTORY_ENTRIES,
+      MIN_FULL_HISTORY_ENTRIES
+    );
+    this.tracer = options.tracer;
+    this.prices = options.prices ?? {};
+    if (this.storage.listLoopIds().length > 0) {
+      this.storage.withLock(() => this.loadAllStates(true));
+    }
   }
 
   /**
-   * Load state from file if it exists
+   * Sync loaded loops with storage, which other server processes may have
+   * changed. Only states that changed since they were last read are
+   * reloaded, and loops finished elsewhere are dropped.
+   *
+   * @param recover Re-read every loop and rebuild damaged ones from their
+   *   history logs. Recovery writes, so the lock must be held.
    */
-  private loadState(): void {
+  private loadAllStates(recover: boolean = false): void {
+    const found = new Set<string>();
     try {
-      const fs = require("fs");
-      if (fs.existsSync(this.stateFilePath)) {
-        const data = fs.readFileSync(this.stateFilePath, "utf-8");
-        this.state = JSON.parse(data);
+      for (const loopId of this.storage.listLoopIds()) {
+        found.add(loopId);
+        if (
+          recover ||
+          !this.loops.has(loopId) ||
+          this.storage.getStateVersion(loopId) !== this.stateVersions.get(loopId)
+        ) {
+          this.loadState(loopId, recover);
+        }
       }
     } catch (error) {
-      console.error(`Failed to load Ralph state: ${error}`);
-      this.state = null;
+      console.error(`Failed to read Ralph loops from ${this.storage.description}: ${error}`);
+      return;
+    }
+
+    for (const loopId of this.loops.keys()) {
+      if (!found.has(loopId)) {
+        this.loops.delete(loopId);
+        this.stateVersions.delete(loopId);
+      }
     }
   }
 
   /**
-   * Save state to file
+   * Load a loop's state from storage. With `recover`, rebuild it from the
+   * history log if the state file is missing, corrupt or behind the log;
+   * otherwise a loop that cannot be read keeps its last loaded state.
    */
-  private saveState(): void {
-    try {
-      const fs = require("fs");
-      const path = require("path");
-      const dir = path.dirname(this.stateFilePath);
+  private loadState(loopId: string, recover: boolean): void {
+    let state: RalphLoopState | null = null;
+    let problem = "state file missing";
 
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
+    try {
+      state = this.storage.readState(loopId);
+      if (state) {
+        state.id = loopId;
+        this.compactHistory(state);
       }
-
-      fs.writeFileSync(this.stateFilePath, JSON.stringify(this.state, null, 2));
     } catch (error) {
-      console.error(`Failed to save Ralph state: ${error}`);
+      console.error(`Failed to load Ralph state for loop ${loopId}: ${error}`);
+      problem = `state file corrupt (${error instanceof Error ? error.message : String(error)})`;
+      state = null;
+    }
+
+    if (state) {
+      this.loops.set(loopId, state);
+      this.stateVersions.set(loopId, this.storage.getStateVersion(loopId) ?? "");
+    } else if (recover) {
+      this.loops.delete(loopId);
+      this.stateVersions.delete(loopId);
+    }
+
+    if (!recover) {
+      return;
+    }
+
+    const recovery = this.recoverFromHistory(loopId, state, problem);
+    const alreadyReported =
+      recovery !== null &&
+      !recovery.restored &&
+      this.recoveries.some(
+        (r) => r.loopId === loopId && !r.restored && r.reason === recovery.reason
+      );
+    if (recovery && !alreadyReported) {
+      this.recoveries.push(recovery);
+      console.error(
+        `Ralph loop ${loopId}: ${recovery.reason} - ${
+          recovery.restored
+            ? `restored ${recovery.restoredEntries} iteration(s) from history`
+            : "could not restore"
+        }`
+      );
     }
   }
 
   /**
-   * Append to history log (append-only for durability)
+   * Rebuild or catch up a loop's state from its history log. An intact but
+   * outdated `state` is updated in place; a rebuilt one is registered.
+   *
+   * @param state State read from the state file, or null if it was unusable
+   * @returns What was recovered, or null if the state was intact
    */
-  private appendToHistory(entry: RalphIterationHistoryEntry): void {
+  private recoverFromHistory(
+    loopId: string,
+    state: RalphLoopState | null,
+    problem: string
+  ): RalphRecoveryResult | null {
+    let log: RalphHistoryLog | null;
     try {
-      const fs = require("fs");
-      const path = require("path");
-      const dir = path.dirname(this.historyFilePath);
+      log = this.storage.readHistoryLog(loopId);
+    } catch (error) {
+      console.error(`Failed to read Ralph history for loop ${loopId}: ${error}`);
+      return null;
+    }
+    if (!log) {
+      return null;
+    }
+
+    const lastLogged = log.entries[log.entries.length - 1]?.iteration ?? 0;
 
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
+    // Intact state: only catch up on iterations logged after the last save
+    if (state) {
+      const lastSaved = state.history[state.history.length - 1]?.iteration ?? 0;
+      if (lastLogged <= lastSaved) {
+        return null;
+      }
+      const missing = log.entries.filter((entry) => entry.iteration > lastSaved);
+      state.history.push(...missing);
+      state.iteration = lastLogged + 1;
+      state.lastIterationStartTime = undefined;
+      this.saveState(state);
+      return {
+        loopId,
+        restored: true,
+        reason: "history log ahead of state file",
+        iteration: state.iteration,
+        restoredEntries: missing.length,
+        skippedLines: log.skippedLines,
+      };
+    }
+
+    if (!log.start) {
+      return {
+        loopId,
+        restored: false,
+        reason: `${problem}; history log has no loop settings to rebuild from`,
+        restoredEntries: 0,
+        skippedLines: log.skippedLines,
+      };
+    }
+
+    // Keep the unreadable state for inspection
+    const corruptStateFile = this.storage.setStateAside(loopId);
+
+    const restored: RalphLoopState = {
+      ...log.start.state,
+      id: loopId,
+      active: true,
+      iteration: lastLogged > 0 ? lastLogged + 1 : log.start.state.iteration,
+      history: log.entries,
+      paused: undefined,
+      pausedAt: undefined,
+      pauseReason: undefined,
+      lastIterationStartTime: undefined, // unknown, so the next duration is not recorded
+      trace: log.start.state.trace && { ...log.start.state.trace, iterationSpanId: newSpanId() },
+    };
+    this.saveState(restored);
+    this.loops.set(loopId, restored);
+
+    return {
+      loopId,
+      restored: true,
+      reason: problem,
+      iteration: restored.iteration,
+      restoredEntries: log.entries.length,
+      skippedLines: log.skippedLines,
+      corruptStateFile,
+    };
+  }
+
+  /**
+   * Compact all but the most recent history entries, so the state stays
+   * small however long the loop runs
+   */
+  private compactHistory(state: RalphLoopState): void {
+    const cutoff = state.history.length - this.fullHistoryEntries;
+    for (let i = 0; i < cutoff; i++) {
+      if (!state.history[i].compacted) {
+        state.history[i] = compactHistoryEntry(state.history[i]);
       }
+    }
+  }
+
+  /**
+   * Get a loop's history with compacted entries replaced by the full entries
+   * from the history log (falling back to the summaries if it is unreadable)
+   */
+  private getFullHistory(state: RalphLoopState): RalphIterationHistoryEntry[] {
+    if (!state.history[0]?.compacted) {
+      return state.history;
+    }
+
+    let log: RalphHistoryLog | null = null;
+    try {
+      log = this.storage.readHistoryLog(state.id);
+    } catch (error) {
+      console.error(`Failed to read Ralph history for loop ${state.id}: ${error}`);
+    }
+
+    const fullEntries = new Map((log?.entries || []).map((entry) => [entry.iteration, entry]));
+    return state.history.map((entry) =>
+      entry.compacted ? fullEntries.get(entry.iteration) ?? entry : entry
+    );
+  }
 
-      // Append as JSONL (one JSON object per line)
-      const line = JSON.stringify(entry) + "\n";
-      fs.appendFileSync(this.historyFilePath, line);
+  /**
+   * Save a loop's state
+   */
+  private saveState(state: RalphLoopState): void {
+    this.compactHistory(state);
+    try {
+      this.storage.writeState(state);
+      this.stateVersions.set(state.id, this.storage.getStateVersion(state.id) ?? "");
+    } catch (error) {
+      console.error(`Failed to save Ralph state: ${error}`);
+    }
+  }
+
+  /**
+   * Append to a loop's history log (append-only for durability)
+   */
+  private appendToHistory(
+    loopId: string,
+    entry: RalphIterationHistoryEntry | RalphHistoryStartRecord
+  ): void {
+    try {
+      this.storage.appendHistory(loopId, entry);
     } catch (error) {
       console.error(`Failed to append to history: ${error}`);
     }
   }
 
+  /**
+   * Validate a loop ID (SECURE: IDs become directory names, so prevent traversal)
+   */
+  private validateLoopId(loopId: string): string {
+    if (!/^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/.test(loopId)) {
+      throw new Error(
+        `Invalid loop ID: ${loopId}. Use 1-64 letters, digits, '-' or '_'.`
+      );
+    }
+    return loopId;
+  }
+
+  /**
+   * Generate a short unique loop ID
+   */
+  private generateLoopId(): string {
+    let loopId: string;
+    do {
+      loopId = `loop-${randomBytes(3).toString("hex")}`;
+    } while (this.loops.has(loopId));
+    return loopId;
+  }
+
+  /**
+   * Resolve a loop by ID, as currently stored on disk. Without an ID, the
+   * only active loop is used; if several loops are active the caller must
+   * say which one.
+   */
+  private resolveLoop(loopId?: string): RalphLoopState | null {
+    if (loopId) {
+      this.loadAllStates();
+      return this.loops.get(loopId) || null;
+    }
+
+    const activeLoops = this.listLoops().filter((s) => s.active);
+    if (activeLoops.length > 1) {
+      throw new Error(
+        `Multiple Ralph loops are active (${activeLoops
+          .map((s) => s.id)
+          .join(", ")}). Specify loop_id to choose one.`
+      );
+    }
+
+    return activeLoops[0] || null;
+  }
+
   /**
    * Start a new Ralph loop
    */
-  startLoop(
-    prompt: string,
-    maxIterations: number = 0,
-    completionPromise: string | null = null,
-    gitEnabled: boolean = true,
-    autoCommit: boolean = false
-  ): RalphLoopState {
-    this.state = {
-      active: true,
-      iteration: 1,
-      maxIterations,
-      completionPromise,
-      startedAt: new Date().toISOString(),
-      prompt,
-      history: [],
-      gitEnabled,
-      autoCommit,
+  startLoop(prompt: string, options: RalphLoopOptions = {}): RalphLoopState {
+    return this.storage.withLock(() => {
+      const {
+        maxIterations = 0,
+        completionPromise = null,
+        completionCondition,
+        gitEnabled = true,
+        autoCommit = false,
+        verifyWith = [],
+        budgets,
+        feedbackPrompt = false,
+        similarity,
+        startSnapshot,
+        templateId,
+        notesInPrompt,
+        regressionPolicy,
+      } = options;
+
+      const loopId = options.loopId
+        ? this.validateLoopId(options.loopId)
+        : this.generateLoopId();
+
+      this.loadAllStates();
+      if (this.loops.get(loopId)?.active) {
+        throw new Error(`A Ralph loop with ID ${loopId} is already active`);
+      }
+
+      const state: RalphLoopState = {
+        id: loopId,
+        active: true,
+        iteration: 1,
+        maxIterations,
+        completionPromise,
+        completionCondition,
+        startedAt: new Date().toISOString(),
+        prompt,
+        templateId,
+        history: [],
+        gitEnabled,
+        autoCommit,
+        verifyWith: verifyWith.length > 0 ? verifyWith : undefined,
+        budgets,
+        feedbackPrompt: feedbackPrompt || undefined,
+        similarity: similarity ? { ...DEFAULT_SIMILARITY, ...similarity } : undefined,
+        startSnapshot,
+        lastIterationStartTime: Date.now(),
+        trace: newLoopTrace(),
+        notesInPrompt,
+        regressionPolicy,
+      };
+      this.loops.set(loopId, state);
+      this.saveState(state);
+      this.appendToHistory(loopId, {
+        event: "loop_started",
+        state: { ...state, history: [] },
+      });
+      return state;
+    });
+  }
+
+  /**
+   * Cancel an active Ralph loop, archiving it as cancelled (or abandoned)
+   */
+  cancelLoop(
+    loopId?: string,
+    outcome: "cancelled" | "abandoned" = "cancelled"
+  ): RalphArchivedLoop | null {
+    return this.storage.withLock(() => {
+      const state = this.resolveLoop(loopId);
+      if (!state || !state.active) {
+        return null;
+      }
+
+      return this.finishLoop(
+        state,
+        outcome,
+        outcome === "abandoned" ? "Loop abandoned" : "Loop cancelled"
+      );
+    });
+  }
+
+  /**
+   * End a loop: archive its final state and history, then remove its live state
+   */
+  private finishLoop(
+    state: RalphLoopState,
+    outcome: RalphLoopOutcome,
+    reason: string
+  ): RalphArchivedLoop {
+    const endedAt = new Date().toISOString();
+    const archived: RalphArchivedLoop = {
+      archiveId: `${state.id}-${endedAt.replace(/[-:]|\.\d+/g, "")}`,
+      outcome,
+      reason,
+      endedAt,
+      state: { ...state, active: false, history: this.getFullHistory(state) },
     };
-    this.saveState();
-    this.lastIterationStartTime = Date.now();
-    return this.state;
+
+    this.loops.delete(state.id);
+    this.stateVersions.delete(state.id);
+
+    if (this.tracer && state.trace) {
+      this.tracer.recordSpan({
+        name: "ralph.loop",
+        traceId: state.trace.traceId,
+        spanId: state.trace.spanId,
+        startTime: Date.parse(state.startedAt),
+        endTime: Date.parse(endedAt),
+        attributes: {
+          "ralph.loop.id": state.id,
+          "ralph.template.id": state.templateId,
+          "ralph.outcome": outcome,
+          "ralph.reason": reason,
+          "ralph.iterations": state.history.length,
+          "ralph.max_iterations": state.maxIterations,
+          "ralph.total_paused_ms": state.totalPausedMs,
+        },
+        // Running out of iterations or budget means the task was not done
+        error: outcome === "max_iterations" || outcome === "budget_exhausted" ? reason : undefined,
+      });
+    }
+
+    try {
+      this.storage.archiveLoop(archived);
+    } catch (error) {
+      console.error(`Failed to archive Ralph loop ${state.id}: ${error}`);
+    }
+
+    return archived;
   }
 
   /**
-   * Cancel the active Ralph loop
+   * List archived loops, newest first
    */
-  cancelLoop(): boolean {
-    if (!this.state || !this.state.active) {
-      return false;
+  listArchivedLoops(filter: { loopId?: string; outcome?: RalphLoopOutcome } = {}): RalphArchivedLoop[] {
+    let archived: RalphArchivedLoop[];
+    try {
+      archived = this.storage.listArchived();
+    } catch (error) {
+      console.error(`Failed to list archived loops: ${error}`);
+      return [];
+    }
+
+    return archived
+      .filter((record) => !filter.loopId || record.state.id === filter.loopId)
+      .filter((record) => !filter.outcome || record.outcome === filter.outcome)
+      .sort((a, b) => b.endedAt.localeCompare(a.endedAt));
+  }
+
+  /**
+   * Get an archived loop by its archive ID
+   */
+  getArchivedLoop(archiveId: string): RalphArchivedLoop | null {
+    // SECURE: archive IDs become file names, so prevent traversal
+    if (!/^[A-Za-z0-9][A-Za-z0-9_-]{0,127}$/.test(archiveId)) {
+      return null;
     }
 
-    const iteration = this.state.iteration;
-    this.state = null;
     try {
-      const fs = require("fs");
-      if (fs.existsSync(this.stateFilePath)) {
-        fs.unlinkSync(this.stateFilePath);
-      }
+      return this.storage.getArchived(archiveId);
     } catch (error) {
-      console.error(`Failed to delete state file: ${error}`);
+      console.error(`Failed to read archived loop ${archiveId}: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Get model usage per template across live and (optionally) archived
+   * loops, most expensive per iteration first
+   */
+  getUsageReport(includeArchived: boolean = true): string {
+    const states = [
+      ...this.listLoops(),
+      ...(includeArchived ? this.listArchivedLoops().map((record) => record.state) : []),
+    ];
+
+    const byTemplate = new Map<string, RalphLoopState[]>();
+    for (const state of states) {
+      const templateId = state.templateId ?? "(no template)";
+      byTemplate.set(templateId, [...(byTemplate.get(templateId) || []), state]);
+    }
+
+    const templates = Array.from(byTemplate.entries())
+      .map(([templateId, loops]) => {
+        const history = loops.flatMap((state) => state.history);
+        return { templateId, loops, history, usage: summarizeUsage(history) };
+      })
+      .filter((template) => template.usage.iterations > 0)
+      .sort(
+        (a, b) =>
+          b.usage.cost / b.usage.iterations - a.usage.cost / a.usage.iterations ||
+          b.usage.tokens / b.usage.iterations - a.usage.tokens / a.usage.iterations
+      );
+
+    if (templates.length === 0) {
+      return "No model usage reported yet.\n\nPass usage (tokens, model, cost) to ralph_iterate to track it.";
+    }
+
+    const lines: string[] = [];
+    lines.push("💵 Usage by Template");
+    lines.push("===================");
+    lines.push(`Loops: ${states.length}${includeArchived ? " (live and archived)" : " (live)"}`);
+    for (const { templateId, loops, history, usage } of templates) {
+      lines.push("");
+      lines.push(`${templateId}: ${loops.length} loop(s), ${history.length} iteration(s)`);
+      lines.push(...this.formatUsageSummary(usage, history.length));
+      lines.push(`  Per loop: ${formatCost(usage.cost / loops.length)} avg`);
+    }
+    return lines.join("\n");
+  }
+
+  /**
+   * Get lessons learned from resolved errors, most recently resolved first
+   */
+  getLessonsReport(filter: RalphLessonFilter = {}, limit: number = 20): string {
+    const lessons = this.storage.lessons.search(filter);
+    const total = this.storage.lessons.list().length;
+    if (lessons.length === 0) {
+      return total === 0
+        ? "No lessons yet.\n\nLessons are recorded when an error reported in one iteration is gone in the next iteration that runs tools."
+        : `No lessons match (${total} in total).`;
+    }
+
+    const lines: string[] = [];
+    lines.push("🎓 Lessons from Resolved Errors");
+    lines.push("==============================");
+    lines.push(`Lessons: ${lessons.length}${lessons.length < total ? ` of ${total}` : ""}`);
+    for (const lesson of lessons.slice(0, limit)) {
+      lines.push("");
+      lines.push(`[${lesson.id}] ${lesson.error}`);
+      lines.push(
+        `  Fixed in loop ${lesson.loopId}${lesson.templateId ? ` (${lesson.templateId})` : ""}, iteration ${
+          lesson.iteration
+        } at ${lesson.resolvedAt}${lesson.timesResolved > 1 ? ` - resolved ${lesson.timesResolved} times` : ""}`
+      );
+      if (lesson.files.length > 0) {
+        lines.push(`  Files: ${lesson.files.join(", ")}`);
+      }
+      if (lesson.commit) {
+        lines.push(`  Commit: ${lesson.commit}`);
+      }
+    }
+    if (lessons.length > limit) {
+      lines.push("");
+      lines.push(`Showing the first ${limit} of ${lessons.length} lessons. Narrow the search or raise the limit.`);
+    }
+    return lines.join("\n");
+  }
+
+  /**
+   * Remove lessons matching a filter
+   *
+   * @returns Number of lessons removed
+   */
+  pruneLessons(filter: RalphLessonFilter): number {
+    return this.storage.withLock(() => this.storage.lessons.remove(filter));
+  }
+
+  /**
+   * Get Prometheus metrics for all live loops
+   */
+  getMetrics(): string {
+    return renderMetrics(
+      this.listLoops().map((state) => ({
+        state,
+        progress: this.analyzeProgress(state),
+        budgetUsage: this.getBudgetUsage(state),
+      }))
+    );
+  }
+
+  /**
+   * Get a live or archived loop with its full history, for exporting
+   */
+  getExportSource(target: { loopId?: string; archiveId?: string }): RalphExportSource | null {
+    if (target.archiveId) {
+      const record = this.getArchivedLoop(target.archiveId);
+      return record
+        ? {
+            state: record.state,
+            status: record.outcome,
+            archiveId: record.archiveId,
+            reason: record.reason,
+            endedAt: record.endedAt,
+          }
+        : null;
+    }
+
+    const state = this.resolveLoop(target.loopId);
+    if (!state) {
+      return null;
+    }
+    return {
+      state: { ...state, history: this.getFullHistory(state) },
+      status: this.getLoopStatusLabel(state),
+    };
+  }
+
+  /**
+   * Pause an active loop, recording why
+   */
+  pauseLoop(reason?: string, loopId?: string): boolean {
+    return this.storage.withLock(() => {
+      const state = this.resolveLoop(loopId);
+      if (!state || !state.active || state.paused) {
+        return false;
+      }
+
+      state.paused = true;
+      state.pausedAt = new Date().toISOString();
+      state.pauseReason = reason;
+      this.saveState(state);
+      return true;
+    });
+  }
+
+  /**
+   * Resume a paused loop. The paused time is excluded from the current
+   * iteration's duration.
+   *
+   * @returns The resumed loop's state and the milliseconds it spent paused,
+   *   or null if it was not paused
+   */
+  resumeLoop(loopId?: string): { state: RalphLoopState; pausedMs: number } | null {
+    return this.storage.withLock(() => {
+      const state = this.resolveLoop(loopId);
+      if (!state || !state.active || !state.paused) {
+        return null;
+      }
+
+      const pausedMs = state.pausedAt
+        ? Math.max(0, Date.now() - Date.parse(state.pausedAt))
+        : 0;
+
+      if (state.lastIterationStartTime !== undefined) {
+        state.lastIterationStartTime += pausedMs;
+      }
+
+      state.paused = false;
+      state.pausedAt = undefined;
+      state.pauseReason = undefined;
+      state.totalPausedMs = (state.totalPausedMs || 0) + pausedMs;
+      this.saveState(state);
+      return { state, pausedMs };
+    });
+  }
+
+  /**
+   * Add a note to a loop's scratchpad, tagged with the current iteration.
+   * Beyond MAX_NOTES, the oldest notes are dropped.
+   *
+   * @returns The note, or null if the loop is not active
+   */
+  addNote(text: string, loopId?: string): RalphLoopNote | null {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      throw new Error("Note text must not be empty");
     }
-    return true;
+    if (trimmed.length > MAX_NOTE_CHARS) {
+      throw new Error(`Note text must be at most ${MAX_NOTE_CHARS} characters`);
+    }
+
+    return this.storage.withLock(() => {
+      const state = this.resolveLoop(loopId);
+      if (!state || !state.active) {
+        return null;
+      }
+
+      const note = this.pushNote(state, trimmed);
+      this.saveState(state);
+      return note;
+    });
+  }
+
+  /**
+   * Add a note to a loop's scratchpad, dropping the oldest beyond the limit
+   */
+  private pushNote(state: RalphLoopState, text: string): RalphLoopNote {
+    const notes = state.notes || [];
+    const note: RalphLoopNote = {
+      id: notes.reduce((max, n) => Math.max(max, n.id), 0) + 1,
+      iteration: state.iteration,
+      createdAt: new Date().toISOString(),
+      text,
+    };
+    state.notes = [...notes, note].slice(-MAX_NOTES);
+    return note;
+  }
+
+  /**
+   * Check the regression policy against the current iteration's tool runs
+   *
+   * @returns The green iteration to roll back to, or null
+   */
+  getRollbackCandidate(
+    toolResults: ExternalToolResult[],
+    loopId?: string
+  ): RalphRollbackCandidate | null {
+    const state = this.resolveLoop(loopId);
+    if (!state?.regressionPolicy) {
+      return null;
+    }
+    return findRollbackCandidate(
+      state.history,
+      state.regressionPolicy,
+      state.iteration,
+      countPresetFailures(state.regressionPolicy.presets, toolResults)
+    );
+  }
+
+  /**
+   * Run a function (e.g. a git rollback) under the storage lock, so no other
+   * process writes the loop's state meanwhile. Fails with a conflict if the
+   * loop has moved on from the expected iteration.
+   */
+  withLoopLock<T>(loopId: string, expectedIteration: number, fn: () => T): T {
+    return this.storage.withLock(() => {
+      const state = this.resolveLoop(loopId);
+      if (state) {
+        this.checkIteration(state, expectedIteration);
+      }
+      return fn();
+    });
+  }
+
+  /**
+   * Files and directories the storage writes to, which git operations on
+   * the project must leave alone
+   */
+  getStoragePaths(): string[] {
+    return this.storage.paths;
+  }
+
+  /**
+   * Remove notes from a loop's scratchpad: one note, the notes written
+   * before an iteration, or all of them
+   *
+   * @returns Number of notes removed, or null if the loop is not active
+   */
+  clearNotes(
+    filter: { noteId?: number; beforeIteration?: number } = {},
+    loopId?: string
+  ): number | null {
+    return this.storage.withLock(() => {
+      const state = this.resolveLoop(loopId);
+      if (!state || !state.active) {
+        return null;
+      }
+
+      const notes = state.notes || [];
+      const kept = notes.filter((note) => {
+        if (filter.noteId !== undefined) return note.id !== filter.noteId;
+        if (filter.beforeIteration !== undefined) return note.iteration >= filter.beforeIteration;
+        return false;
+      });
+      if (kept.length !== notes.length) {
+        state.notes = kept.length > 0 ? kept : undefined;
+        this.saveState(state);
+      }
+      return notes.length - kept.length;
+    });
+  }
+
+  /**
+   * Get the latest notes to show when continuing a loop
+   */
+  private getPromptNotes(state: RalphLoopState): RalphLoopNote[] | undefined {
+    const count = state.notesInPrompt ?? DEFAULT_NOTES_IN_PROMPT;
+    const notes = state.notes || [];
+    return count > 0 && notes.length > 0 ? notes.slice(-count) : undefined;
+  }
+
+  /**
+   * Get a loop's notes, grouped by the iteration they were written in
+   */
+  getNotesReport(loopId?: string, sinceIteration?: number): string {
+    const state = this.resolveLoop(loopId);
+    if (!state || !state.active) {
+      return loopId ? `No active Ralph loop with ID ${loopId}` : "No active Ralph loop";
+    }
+
+    const notes = (state.notes || []).filter(
+      (note) => sinceIteration === undefined || note.iteration >= sinceIteration
+    );
+    if (notes.length === 0) {
+      return state.notes?.length
+        ? `No notes in loop ${state.id} since iteration ${sinceIteration}.`
+        : `No notes in loop ${state.id} yet.\n\nUse ralph_note_add to leave notes for the next iterations.`;
+    }
+
+    const lines: string[] = [];
+    lines.push(`📝 Notes for loop ${state.id} (${notes.length})`);
+    lines.push("==================");
+    let iteration: number | undefined;
+    for (const note of notes) {
+      if (note.iteration !== iteration) {
+        iteration = note.iteration;
+        lines.push("");
+        lines.push(`Iteration ${iteration}:`);
+      }
+      lines.push(...this.formatNote(note));
+    }
+    return lines.join("\n");
+  }
+
+  /**
+   * Format a note as an indented bullet, e.g. "  #3 tried X, failed because Y"
+   */
+  private formatNote(note: RalphLoopNote): string[] {
+    const [first, ...rest] = note.text.split("\n");
+    return [`  #${note.id} ${first}`, ...rest.map((line) => `     ${line}`)];
+  }
+
+  /**
+   * Re-check every loop on disk (e.g. a state file lost or damaged while the
+   * server was running) and rebuild damaged ones from their history logs
+   *
+   * @returns Every recovery attempted since the server started
+   */
+  recoverLoops(): RalphRecoveryResult[] {
+    if (this.storage.listLoopIds().length === 0) {
+      return [...this.recoveries];
+    }
+
+    return this.storage.withLock(() => {
+      this.loadAllStates(true);
+      return [...this.recoveries];
+    });
+  }
+
+  /**
+   * Search iteration history (see RalphHistoryQuery for the filters)
+   */
+  queryHistory(query: RalphHistoryQuery): RalphHistoryMatch[] {
+    return this.storage.queryHistory(query);
   }
 
   /**
-   * Get the current loop state
+   * Read a stored output, tool log or artifact by hash or unique hash prefix
    */
-  getState(): RalphLoopState | null {
-    return this.state;
+  getArtifact(hash: string): { hash: string; data: Buffer } | null {
+    const resolved = this.storage.blobs.resolve(hash);
+    const data = resolved ? this.storage.blobs.get(resolved) : null;
+    return resolved && data ? { hash: resolved, data } : null;
   }
 
   /**
-   * Check if a loop is active
+   * Remove blobs no longer referenced by a live loop. Blobs of archived
+   * loops are removed too, unless the loop ended within `keepArchivedDays`.
    */
-  isLoopActive(): boolean {
-    return this.state !== null && this.state.active;
+  collectGarbage(keepArchivedDays: number = 0): BlobGarbageReport {
+    return this.storage.withLock(() => {
+      this.loadAllStates();
+
+      const referenced = new Set<string>();
+      const addReferences = (history: RalphIterationHistoryEntry[]) => {
+        for (const entry of history) {
+          if (entry.outputBlob) referenced.add(entry.outputBlob);
+          for (const tool of entry.externalToolsRun || []) {
+            if (tool.outputBlob) referenced.add(tool.outputBlob);
+          }
+          for (const artifact of entry.artifacts || []) {
+            referenced.add(artifact.hash);
+          }
+        }
+      };
+
+      // Compacted entries keep their blob references, so the state is enough
+      for (const state of this.loops.values()) {
+        addReferences(state.history);
+      }
+
+      const cutoff = Date.now() - keepArchivedDays * 24 * 60 * 60 * 1000;
+      for (const archived of this.storage.listArchived()) {
+        if (Date.parse(archived.endedAt) >= cutoff) {
+          addReferences(archived.state.history);
+        }
+      }
+
+      return this.storage.blobs.collectGarbage(referenced);
+    });
+  }
+
+  /**
+   * Get a loop's state (the only active loop if no ID is given)
+   */
+  getState(loopId?: string): RalphLoopState | null {
+    return this.resolveLoop(loopId);
+  }
+
+  /**
+   * Check if a loop is active (any loop if no ID is given)
+   */
+  isLoopActive(loopId?: string): boolean {
+    if (loopId) {
+      return this.resolveLoop(loopId)?.active === true;
+    }
+    return this.listLoops().some((s) => s.active);
+  }
+
+  /**
+   * List all known loops, oldest first
+   */
+  listLoops(): RalphLoopState[] {
+    this.loadAllStates();
+    return Array.from(this.loops.values()).sort((a, b) =>
+      a.startedAt.localeCompare(b.startedAt)
+    );
   }
 
   /**
    * Get iteration history
    */
-  getHistory(): RalphIterationHistoryEntry[] {
-    if (!this.state) {
+  getHistory(loopId?: string): RalphIterationHistoryEntry[] {
+    const state = this.resolveLoop(loopId);
+    if (!state) {
       return [];
     }
-    return this.state.history;
+    return this.getFullHistory(state);
   }
 
   /**
    * Analyze progress and detect patterns (optimized single-pass)
    */
-  private analyzeProgress(): RalphProgressMetrics {
-    const history = this.state?.history || [];
+  private analyzeProgress(state: RalphLoopState): RalphProgressMetrics {
+    const history = state.history;
+    const thresholds = state.similarity || DEFAULT_SIMILARITY;
     const metrics: RalphProgressMetrics = {
       stagnationDetected: false,
       convergenceRate: 0,
+      signals: analyzeSignals(history),
       repeatedErrors: [],
+      regressions: history[history.length - 1]?.testDelta?.newlyFailing ?? [],
       suggestedActions: [],
+      similarityThresholds: thresholds,
+      oscillatingFiles: [],
     };
 
+    this.analyzeSimilarity(history, thresholds, metrics);
+    this.analyzeOscillation(history, metrics);
+    if (metrics.regressions.length > 0) {
+      metrics.suggestedActions.push(
+        `Fix the ${metrics.regressions.length} test(s) that started failing in the last iteration before moving on: ${metrics.regressions
+          .slice(0, 5)
+          .join(", ")}`
+      );
+    }
+    this.suggestLessons(state, metrics);
+
+    // Score progress from the signals' trends; the ETA is that of the slowest one
+    metrics.convergenceRate = getConvergenceScore(metrics.signals) ?? 0;
+    metrics.eta = getOverallEta(metrics.signals);
+    metrics.estimatedIterationsRemaining = metrics.eta?.iterations;
+    const worsening = metrics.signals.filter(
+      (trend) => trend.direction === "worsening" && trend.signal !== "diff_size"
+    );
+    if (worsening.length > 0) {
+      metrics.suggestedActions.push(
+        `Getting worse: ${worsening.map((trend) => trend.signal).join(", ")} - check what the last iterations changed`
+      );
+    }
+
     if (history.length < 3) {
       return metrics;
     }
 
-    // Single-pass analysis: collect all metrics in one iteration
-    const errorFrequency = new Map<string, number>();
-    let totalErrors = 0;
-    let totalOutputLength = 0;
-    let completionCount = 0;
-    const recentLengths: number[] = [];
-    const recentCompletions: boolean[] = [];
-
-    // Process all history in one loop
-    for (let i = 0; i < history.length; i++) {
-      const entry = history[i];
-
-      // Track errors with normalization
-      const errors = entry.errors || [];
-      for (const error of errors) {
-        // Normalize error messages (remove file paths, line numbers, timestamps)
-        // Use single regex with alternation for better performance
-        const normalized = error
-          .replace(/\/[^\s]+|\d+:\d+|\b\d+\b/g, "<n>")
-          .trim();
-        const count = (errorFrequency.get(normalized) || 0) + 1;
-        errorFrequency.set(normalized, count);
-        totalErrors++;
-      }
-
-      // Track output patterns for last 3 iterations
-      if (i >= history.length - 3) {
-        recentLengths.push(entry.output.length);
-        recentCompletions.push(entry.completionDetected);
-      }
-
-      totalOutputLength += entry.output.length;
-      if (entry.completionDetected) completionCount++;
-    }
+    // Cluster errors by fingerprint (paths, positions, IDs and other noise removed)
+    const occurrences = history.flatMap((entry) =>
+      (entry.errors || []).map((error) => ({ error, iteration: entry.iteration }))
+    );
+    const clusters = clusterErrors(occurrences);
 
-    // Find errors that repeat 3+ times
-    for (const [error, count] of errorFrequency.entries()) {
-      if (count >= 3) {
-        metrics.repeatedErrors.push(error);
-      }
-    }
+    // Errors that occurred 3+ times, most frequent first
+    metrics.repeatedErrors = clusters
+      .filter((cluster) => cluster.count >= 3)
+      .sort((a, b) => b.count - a.count);
 
     // Detect stagnation - same error repeating
-    if (metrics.repeatedErrors.length > 0) {
+    if (metrics.repeatedErrors.length > 0 && !metrics.stagnationDetected) {
       metrics.stagnationDetected = true;
-      metrics.stagnationReason = `Same error(s) repeating across iterations: ${metrics.repeatedErrors.slice(0, 2).join(", ")}`;
+      metrics.stagnationReason = `Same error(s) repeating across iterations: ${metrics.repeatedErrors
+        .slice(0, 2)
+        .map((cluster) => formatErrorCluster(cluster, 80))
+        .join(", ")}`;
       metrics.suggestedActions.push(
         "Consider a different approach - current strategy is not working",
         "Review the repeated error patterns and try addressing them differently"
       );
     }
 
-    // Check if last 3 iterations had similar output length and no completion
-    if (recentLengths.length === 3) {
-      const avgLength = recentLengths[0];
-      const allSameLength = recentLengths.every(
-        (len) => Math.abs(len - avgLength) < len * 0.1
-      );
+    return metrics;
+  }
 
-      if (allSameLength && recentCompletions.every((c) => !c)) {
-        metrics.stagnationDetected = true;
-        metrics.stagnationReason =
-          "Output length and structure similar across last 3 iterations - may be stuck in loop";
-        metrics.suggestedActions.push(
-          "Try breaking down the task into smaller sub-tasks",
-          "Consider reviewing the prompt for clarity"
-        );
+  /**
+   * Point at earlier resolutions of the errors in the latest iteration
+   */
+  private suggestLessons(state: RalphLoopState, metrics: RalphProgressMetrics): void {
+    const lastEntry = state.history[state.history.length - 1];
+    if (!lastEntry) {
+      return;
+    }
+
+    const keys = new Set(getSpecificErrors(lastEntry).map((error) => fingerprintError(error).key));
+    let suggested = 0;
+    for (const key of keys) {
+      if (suggested >= MAX_LESSON_SUGGESTIONS) break;
+
+      let lesson: RalphLesson | undefined;
+      try {
+        lesson = this.storage.lessons.find(key);
+      } catch (error) {
+        console.error(`Failed to read Ralph lessons: ${error}`);
+        return;
       }
+      if (!lesson) continue;
+
+      const files = lesson.files.slice(0, 5).join(", ");
+      metrics.suggestedActions.push(
+        `Seen before: "${lesson.error.substring(0, 80)}" was fixed in loop ${lesson.loopId} (iteration ${lesson.iteration})${
+          files ? ` by changing ${files}${lesson.files.length > 5 ? ", ..." : ""}` : ""
+        }${lesson.commit ? ` - see commit ${lesson.commit.substring(0, 7)}` : ""}`
+      );
+      suggested++;
     }
+  }
 
-    // Calculate convergence rate
-    const uniqueErrors = errorFrequency.size;
-    metrics.convergenceRate =
-      totalErrors > 0 ? 1 - uniqueErrors / totalErrors : 0.5;
+  /**
+   * Record errors of the previous iteration that this iteration no longer
+   * reports. Only iterations that ran tools (or completed the loop) count,
+   * as otherwise a missing error says nothing about whether it was fixed.
+   */
+  private recordLessons(state: RalphLoopState, entry: RalphIterationHistoryEntry): void {
+    const previous = state.history[state.history.length - 2];
+    if (!previous || (!entry.externalToolsRun?.length && !entry.completionDetected)) {
+      return;
+    }
 
-    // Estimate iterations remaining
-    if (metrics.convergenceRate > 0) {
-      const progressPerIteration = metrics.convergenceRate / history.length;
-      if (progressPerIteration > 0) {
-        metrics.estimatedIterationsRemaining = Math.ceil(
-          (1 - metrics.convergenceRate) / progressPerIteration
-        );
+    const remaining = new Set(getSpecificErrors(entry).map((error) => fingerprintError(error).key));
+    const resolved = new Map<string, string>();
+    for (const error of getSpecificErrors(previous)) {
+      const key = fingerprintError(error).key;
+      if (!remaining.has(key)) {
+        resolved.set(key, error);
       }
     }
 
-    return metrics;
+    try {
+      for (const [errorKey, error] of resolved) {
+        this.storage.lessons.record({
+          errorKey,
+          error,
+          files: entry.filesModified || [],
+          commit: entry.gitCommit,
+          loopId: state.id,
+          templateId: state.templateId,
+          iteration: entry.iteration,
+          resolvedAt: entry.timestamp,
+        });
+      }
+    } catch (error) {
+      console.error(`Failed to record Ralph lessons: ${error}`);
+    }
   }
 
   /**
-   * Process the next iteration with history tracking
-   *
-   * @param lastOutput The last output from the AI assistant
-   * @param metadata Optional metadata about the iteration
-   * @returns Result indicating if loop should continue or stop
+   * Compare outputs and diffs of the last `window` iterations. Each score is
+   * the lowest similarity between consecutive iterations, so a single
+   * genuinely different iteration breaks the streak.
    */
-  processIteration(
-    lastOutput: string,
-    metadata?: {
-      filesModified?: string[];
-      commandsRun?: string[];
-      errors?: string[];
-      gitCommit?: string;
-      externalToolsRun?: ExternalToolResult[];
+  private analyzeSimilarity(
+    history: RalphIterationHistoryEntry[],
+    thresholds: RalphSimilaritySettings,
+    metrics: RalphProgressMetrics
+  ): void {
+    if (history.length < thresholds.window) {
+      return;
     }
-  ): RalphIterationResult {
-    if (!this.state || !this.state.active) {
-      return {
-        completed: true,
-        iteration: 0,
-        reason: "No active Ralph loop found",
-      };
+
+    const recent = history.slice(-thresholds.window);
+    const lowestPairSimilarity = (signatures: number[][]): number => {
+      let lowest = 1;
+      for (let i = 1; i < signatures.length; i++) {
+        lowest = Math.min(lowest, estimateSimilarity(signatures[i - 1], signatures[i]));
+      }
+      return lowest;
+    };
+
+    // Entries recorded before signatures existed fall back to the stored output
+    metrics.outputSimilarity = lowestPairSimilarity(
+      recent.map((entry) => entry.outputSignature || minHash(shingleOutput(entry.output)))
+    );
+
+    if (recent.every((entry) => entry.diffSignature)) {
+      metrics.diffSimilarity = lowestPairSimilarity(
+        recent.map((entry) => entry.diffSignature!)
+      );
     }
 
-    const { iteration, maxIterations, completionPromise, prompt } = this.state;
+    if (
+      metrics.diffSimilarity !== undefined &&
+      metrics.diffSimilarity >= thresholds.diffThreshold
+    ) {
+      metrics.stagnationDetected = true;
+      metrics.stagnationReason = `Last ${thresholds.window} iterations edited the same hunks (diff similarity ${this.formatSimilarity(metrics.diffSimilarity)}) - changes are being rewritten rather than advanced`;
+      metrics.suggestedActions.push(
+        "Stop rewriting the same code - decide on one approach and move on to the next part of the task",
+        "Check whether the tool output actually changes after these edits"
+      );
+    } else if (
+      metrics.outputSimilarity >= thresholds.outputThreshold &&
+      recent.every((entry) => !entry.completionDetected)
+    ) {
+      metrics.stagnationDetected = true;
+      metrics.stagnationReason = `Outputs of the last ${thresholds.window} iterations are near-identical (similarity ${this.formatSimilarity(metrics.outputSimilarity)}) - may be stuck in loop`;
+      metrics.suggestedActions.push(
+        "Try breaking down the task into smaller sub-tasks",
+        "Consider reviewing the prompt for clarity"
+      );
+    }
+  }
 
-    // Check for completion promise
-    let completionDetected = false;
-    if (completionPromise) {
-      // Extract text from <promise> tags
-      const promiseMatch = lastOutput.match(/<promise>(.*?)<\/promise>/s);
-      if (promiseMatch) {
-        const extractedPromise = promiseMatch[1].trim();
-        if (extractedPromise === completionPromise) {
-          completionDetected = true;
+  /**
+   * Find files whose content returns to an earlier version (A→B→A) within
+   * the recent iterations, ranked by how often they flipped back.
+   */
+  private analyzeOscillation(
+    history: RalphIterationHistoryEntry[],
+    metrics: RalphProgressMetrics
+  ): void {
+    const versionsByFile = new Map<string, string[]>();
+    const flips = new Map<string, number>();
+
+    for (const entry of history.slice(-OSCILLATION_WINDOW)) {
+      for (const [path, [before, after]] of Object.entries(entry.fileVersions || {})) {
+        const versions = versionsByFile.get(path) || [before];
+        if (versions[versions.length - 1] !== before) {
+          versions.push(before); // changed between recorded iterations
         }
+        if (versions.includes(after)) {
+          flips.set(path, (flips.get(path) || 0) + 1);
+        }
+        versions.push(after);
+        versionsByFile.set(path, versions);
       }
     }
 
+    if (flips.size === 0) {
+      return;
+    }
+
+    metrics.oscillatingFiles = Array.from(flips.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([path]) => path);
+
+    const named = metrics.oscillatingFiles.slice(0, 3).join(", ");
+    metrics.stagnationDetected = true;
+    metrics.stagnationReason = `Changes are being reverted and reapplied: ${named}${
+      metrics.oscillatingFiles.length > 3 ? ` and ${metrics.oscillatingFiles.length - 3} more` : ""
+    } returned to an earlier version`;
+    metrics.suggestedActions.push(
+      `Pin one approach for ${named} - decide which version is correct and stop reverting it`,
+      "If both versions break something, fix the conflicting requirement instead of flipping between them"
+    );
+  }
+
+  /**
+   * Format a 0-1 similarity score as a percentage
+   */
+  private formatSimilarity(score: number): string {
+    return `${Math.round(score * 100)}%`;
+  }
+
+  /**
+   * Get a loop's completion condition (a plain promise becomes a promise condition)
+   */
+  private getCompletionCondition(state: RalphLoopState): RalphCompletionCondition | null {
+    if (state.completionCondition) {
+      return state.completionCondition;
+    }
+    return state.completionPromise
+      ? { type: "promise", value: state.completionPromise }
+      : null;
+  }
+
+  /**
+   * Evaluate a loop's completion condition against a history
+   */
+  private evaluateCompletion(
+    state: RalphLoopState,
+    history: RalphIterationHistoryEntry[]
+  ): CompletionConditionStatus | null {
+    const condition = this.getCompletionCondition(state);
+    return condition ? evaluateCompletionCondition(condition, history) : null;
+  }
+
+  /**
+   * Build the history entry for an iteration
+   */
+  private buildHistoryEntry(
+    state: RalphLoopState,
+    lastOutput: string,
+    metadata?: RalphIterationMetadata
+  ): RalphIterationHistoryEntry {
+    const promises = extractPromises(lastOutput);
+
     // Calculate duration
     const duration =
-      this.lastIterationStartTime !== null
-        ? Date.now() - this.lastIterationStartTime
+      state.lastIterationStartTime !== undefined
+        ? Date.now() - state.lastIterationStartTime
         : undefined;
 
-    // Create history entry
-    const historyEntry: RalphIterationHistoryEntry = {
-      iteration,
+    // Compare failing tests with the last iteration that ran tests
+    const failedTests = getFailedTests(metadata?.externalToolsRun);
+    const previousTestRun = [...state.history].reverse().find((entry) => entry.failedTests !== undefined);
+    const testDelta =
+      failedTests && previousTestRun
+        ? computeTestDelta(
+            previousTestRun.failedTests!,
+            failedTests,
+            previousTestRun.iteration,
+            getPassedTests(metadata?.externalToolsRun)
+          )
+        : undefined;
+
+    return {
+      iteration: state.iteration,
       timestamp: new Date().toISOString(),
       duration,
-      output: lastOutput.substring(0, 1000), // Truncate for storage
-      completionDetected,
+      output: lastOutput.substring(0, OUTPUT_PREVIEW_CHARS),
+      outputBlob:
+        lastOutput.length > OUTPUT_PREVIEW_CHARS ? this.storeBlob(lastOutput) : undefined,
+      promises: promises.length > 0 ? promises : undefined,
+      completionDetected: false,
       filesModified: metadata?.filesModified,
+      filesChanged: metadata?.filesChanged,
       commandsRun: metadata?.commandsRun,
       errors: metadata?.errors,
       gitCommit: metadata?.gitCommit,
+      externalToolsRun: metadata?.externalToolsRun?.map((tool) =>
+        tool.output.length > TOOL_OUTPUT_PREVIEW_CHARS
+          ? {
+              ...tool,
+              output: tool.output.substring(0, TOOL_OUTPUT_PREVIEW_CHARS),
+              outputBlob: this.storeBlob(tool.output),
+            }
+          : tool
+      ),
+      usage: metadata?.usage && priceUsage(metadata.usage, this.prices),
+      signals: measureSignals(metadata?.externalToolsRun, metadata?.diff),
+      failedTests,
+      testDelta,
+      presetFailures: state.regressionPolicy
+        ? countPresetFailures(state.regressionPolicy.presets, metadata?.externalToolsRun)
+        : undefined,
+      rollback: metadata?.rollback,
+      snapshot: metadata?.snapshot,
+      outputSignature: minHash(shingleOutput(lastOutput)),
+      diffSignature: metadata?.diff !== undefined ? minHash(shingleDiff(metadata.diff)) : undefined,
+      fileVersions: metadata?.fileVersions,
+      artifacts: this.storeArtifacts(metadata?.artifacts),
+    };
+  }
+
+  /**
+   * Store content in the blob store (undefined if it could not be written;
+   * the history entry then keeps only the preview)
+   */
+  private storeBlob(data: string | Uint8Array): string | undefined {
+    try {
+      return this.storage.blobs.put(data);
+    } catch (error) {
+      console.error(`Failed to store Ralph blob: ${error}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Store an iteration's artifacts in the blob store
+   */
+  private storeArtifacts(artifacts?: RalphArtifact[]): RalphArtifactRef[] | undefined {
+    const refs: RalphArtifactRef[] = [];
+    for (const artifact of artifacts || []) {
+      const hash = this.storeBlob(artifact.data);
+      if (hash) {
+        refs.push({ name: artifact.name, hash, size: Buffer.byteLength(artifact.data) });
+      }
+    }
+    return refs.length > 0 ? refs : undefined;
+  }
+
+  /**
+   * Check whether an iteration would complete the loop, so verification can run first
+   */
+  isCompletionClaimed(
+    lastOutput: string,
+    metadata?: RalphIterationMetadata,
+    loopId?: string
+  ): boolean {
+    const state = this.resolveLoop(loopId);
+    if (!state) {
+      return false;
+    }
+
+    // Only the fields completion conditions look at; nothing is stored
+    const promises = extractPromises(lastOutput);
+    const entry: RalphIterationHistoryEntry = {
+      iteration: state.iteration,
+      timestamp: new Date().toISOString(),
+      output: "",
+      promises: promises.length > 0 ? promises : undefined,
+      completionDetected: false,
+      filesModified: metadata?.filesModified,
+      filesChanged: metadata?.filesChanged,
       externalToolsRun: metadata?.externalToolsRun,
     };
+    return this.evaluateCompletion(state, [...state.history, entry])?.met === true;
+  }
+
+  /**
+   * Process the next iteration with history tracking
+   *
+   * @param lastOutput The last output from the AI assistant
+   * @param metadata Optional metadata about the iteration
+   * @param loopId Loop to iterate (the only active loop if omitted)
+   * @param expectedIteration Iteration the output belongs to; if another
+   *   process has moved the loop on since, the call fails with a conflict
+   * @returns Result indicating if loop should continue or stop
+   */
+  processIteration(
+    lastOutput: string,
+    metadata?: RalphIterationMetadata,
+    loopId?: string,
+    expectedIteration?: number
+  ): RalphIterationResult {
+    return this.storage.withLock(() => {
+      const state = this.resolveLoop(loopId);
+      if (!state || !state.active) {
+        return {
+          completed: true,
+          iteration: 0,
+          reason: "No active Ralph loop found",
+        };
+      }
+
+      if (state.paused) {
+        return {
+          completed: false,
+          iteration: state.iteration,
+          reason: `Ralph loop ${state.id} is paused${
+            state.pauseReason ? ` (${state.pauseReason})` : ""
+          } - use ralph_resume before iterating`,
+        };
+      }
+
+      if (expectedIteration !== undefined) {
+        this.checkIteration(state, expectedIteration);
+      }
+
+      const trace = state.trace ? { ...state.trace } : undefined;
+      const analysisStart = Date.now();
+      const result = this.advanceLoop(state, lastOutput, metadata);
+      if (trace) {
+        this.traceIteration(state, trace, analysisStart, result);
+      }
+      return { ...result, state };
+    });
+  }
+
+  /**
+   * Fail with a conflict if another process has moved the loop on
+   */
+  private checkIteration(state: RalphLoopState, expectedIteration: number): void {
+    if (state.iteration !== expectedIteration) {
+      throw new Error(
+        `Conflict: loop ${state.id} is at iteration ${state.iteration}, but this output is for iteration ${expectedIteration}. ` +
+          "Another server process iterated the loop in the meantime - check ralph_status before continuing."
+      );
+    }
+  }
+
+  /**
+   * Record an iteration and decide whether the loop continues
+   */
+  private advanceLoop(
+    state: RalphLoopState,
+    lastOutput: string,
+    metadata?: RalphIterationMetadata
+  ): RalphIterationResult {
+    const { iteration, maxIterations, completionPromise, prompt } = state;
+    const historyEntry = this.buildHistoryEntry(state, lastOutput, metadata);
+
+    // Check the completion condition (the plain promise unless one was configured)
+    const completion = this.evaluateCompletion(state, [...state.history, historyEntry]);
+    let completionDetected = completion?.met === true;
+
+    // A promise only counts once the configured verification presets pass
+    let promiseRejected: string | undefined;
+    if (completionDetected && state.verifyWith && state.verifyWith.length > 0) {
+      const verification = metadata?.verification;
+      if (!verification) {
+        promiseRejected = `Verification with ${state.verifyWith.join(", ")} did not run`;
+      } else if (!verification.passed) {
+        promiseRejected = [
+          `Verification failed (${verification.presets.join(", ")})`,
+          ...verification.diagnostics,
+        ].join("\n");
+      }
+
+      if (promiseRejected) {
+        completionDetected = false;
+      }
+    }
+
+    historyEntry.completionDetected = completionDetected;
+    historyEntry.promiseRejected = promiseRejected;
+
+    state.history.push(historyEntry);
+    this.appendToHistory(state.id, historyEntry);
+    this.recordLessons(state, historyEntry);
 
-    this.state.history.push(historyEntry);
-    this.appendToHistory(historyEntry);
+    // Tell the agent what a rollback discarded; an offer lasts one iteration
+    if (historyEntry.rollback) {
+      this.pushNote(state, describeRollback(historyEntry.rollback, state.regressionPolicy?.presets ?? []));
+    }
+    state.rollbackOffer = metadata?.rollbackOffer;
 
     if (completionDetected) {
-      this.cancelLoop();
+      const reason = state.completionCondition
+        ? `Completion condition met: ${completion?.description}`
+        : `Completion promise detected: <promise>${completionPromise}</promise>`;
+      const archived = this.finishLoop(state, "completed", reason);
       return {
         completed: true,
         iteration,
-        reason: `Completion promise detected: <promise>${completionPromise}</promise>`,
+        reason,
         completionDetected: true,
+        archiveId: archived.archiveId,
       };
     }
 
     // Check max iterations
     if (maxIterations > 0 && iteration >= maxIterations) {
-      this.cancelLoop();
+      const reason = `Max iterations (${maxIterations}) reached`;
+      const archived = this.finishLoop(state, "max_iterations", reason);
+      return {
+        completed: true,
+        iteration,
+        reason,
+        archiveId: archived.archiveId,
+      };
+    }
+
+    // Check budgets
+    const budgetUsage = this.getBudgetUsage(state);
+    const exhausted = budgetUsage.find((usage) => usage.used >= usage.limit);
+    if (exhausted) {
+      const reason = `Budget exhausted - ${this.formatBudgetUsage(exhausted)}`;
+      const archived = this.finishLoop(state, "budget_exhausted", reason);
       return {
         completed: true,
         iteration,
-        reason: `Max iterations (${maxIterations}) reached`,
+        reason,
+        archiveId: archived.archiveId,
+        budgetExhausted: exhausted.budget,
       };
     }
 
     // Analyze progress before continuing
-    const progress = this.analyzeProgress();
+    const progress = this.analyzeProgress(state);
 
     // Continue loop - increment iteration
     const nextIteration = iteration + 1;
-    this.state.iteration = nextIteration;
-    this.saveState();
-    this.lastIterationStartTime = Date.now();
+    state.iteration = nextIteration;
+    state.lastIterationStartTime = Date.now();
+    if (state.trace) {
+      state.trace = { ...state.trace, iterationSpanId: newSpanId() };
+    }
+    this.saveState(state);
 
     return {
       completed: false,
       iteration: nextIteration,
       reason: `Iteration ${nextIteration} - continue loop`,
-      nextPrompt: prompt,
+      nextPrompt: state.feedbackPrompt
+        ? this.buildFeedbackPrompt(state, progress, budgetUsage)
+        : prompt,
       progress,
+      promiseRejected,
+      budgetWarnings: this.getBudgetWarnings(budgetUsage),
+      notes: this.getPromptNotes(state),
+      testDelta: historyEntry.testDelta,
+      rollback: historyEntry.rollback,
+      rollbackOffer: state.rollbackOffer,
+    };
+  }
+
+  /**
+   * Record the spans of a processed iteration: the iteration itself (from
+   * when it started) and the analysis that decided whether the loop continues
+   */
+  private traceIteration(
+    state: RalphLoopState,
+    trace: RalphLoopTrace,
+    analysisStart: number,
+    result: RalphIterationResult
+  ): void {
+    const entry = state.history[state.history.length - 1];
+    if (!this.tracer || !entry) {
+      return;
+    }
+
+    const end = Date.now();
+    const loopAttributes = { "ralph.loop.id": state.id, "ralph.iteration": entry.iteration };
+    this.tracer.recordSpan({
+      name: "ralph.iteration",
+      traceId: trace.traceId,
+      spanId: trace.iterationSpanId,
+      parentSpanId: trace.spanId,
+      startTime: analysisStart - (entry.duration ?? 0),
+      endTime: end,
+      attributes: {
+        ...loopAttributes,
+        "ralph.files_changed": entry.filesModified?.length ?? 0,
+        "ralph.commands_run": entry.commandsRun?.length ?? 0,
+        "ralph.errors": entry.errors?.length ?? 0,
+        "ralph.tool_runs": entry.externalToolsRun?.length ?? 0,
+        "ralph.git.commit": entry.gitCommit,
+        "ralph.completion_detected": entry.completionDetected,
+      },
+    });
+    this.tracer.recordSpan({
+      name: "ralph.analysis",
+      traceId: trace.traceId,
+      parentSpanId: trace.iterationSpanId,
+      startTime: analysisStart,
+      endTime: end,
+      attributes: {
+        ...loopAttributes,
+        "ralph.loop.completed": result.completed,
+        "ralph.promise_rejected": entry.promiseRejected !== undefined,
+        "ralph.stagnation_detected": result.progress?.stagnationDetected,
+        "ralph.convergence_rate": result.progress?.convergenceRate,
+        "ralph.repeated_errors": result.progress?.repeatedErrors.length,
+        "ralph.tests.regressions": result.testDelta?.newlyFailing.length,
+        "ralph.rollback.to_iteration": entry.rollback?.toIteration,
+      },
+    });
+  }
+
+  /**
+   * Build the next prompt in feedback mode: the base prompt plus what went
+   * wrong in the previous iteration, capped at FEEDBACK_MAX_CHARS.
+   */
+  private buildFeedbackPrompt(
+    state: RalphLoopState,
+    progress: RalphProgressMetrics,
+    budgetUsage: RalphBudgetUsage[]
+  ): string {
+    const lastEntry = state.history[state.history.length - 1];
+    const sections: string[] = [];
+
+    // Iteration and budget position
+    const position = [
+      `Iteration ${state.iteration}${
+        state.maxIterations > 0 ? ` of ${state.maxIterations}` : ""
+      }`,
+    ];
+    for (const usage of budgetUsage) {
+      position.push(this.formatBudgetUsage(usage));
+    }
+    sections.push(`Position: ${position.join(" | ")}`);
+
+    if (lastEntry?.promiseRejected) {
+      sections.push(`Completion promise rejected:\n${lastEntry.promiseRejected}`);
+    }
+
+    // Failing tool diagnostics from the previous iteration
+    const failingTools = (lastEntry?.externalToolsRun || []).filter(
+      (tool) => tool.exitCode !== 0
+    );
+    if (failingTools.length > 0) {
+      const diagnostics = failingTools.map((tool) => {
+        const tail = tool.output
+          .split("\n")
+          .filter((line) => line.trim())
+          .slice(-10)
+          .map((line) => `    ${line.substring(0, 200)}`);
+        return [`  ✗ ${tool.name} (exit code ${tool.exitCode})`, ...tail].join("\n");
+      });
+      sections.push(`Failing tools in the last iteration:\n${diagnostics.join("\n")}`);
+    }
+
+    if (lastEntry?.testDelta) {
+      sections.push(
+        `Test changes since iteration ${lastEntry.testDelta.since}:\n${formatTestDelta(lastEntry.testDelta).join("\n")}`
+      );
+    }
+
+    if (progress.oscillatingFiles.length > 0) {
+      sections.push(
+        `Files flipping back and forth between versions (pick one approach and keep it): ${progress.oscillatingFiles
+          .slice(0, 10)
+          .join(", ")}`
+      );
+    }
+
+    if (progress.repeatedErrors.length > 0) {
+      sections.push(
+        `Errors repeating across iterations (try a different approach):\n${progress.repeatedErrors
+          .slice(0, 5)
+          .map((cluster) => `  • ${formatErrorCluster(cluster, 200)}`)
+          .join("\n")}`
+      );
+    }
+
+    const filesTouched = new Set(state.history.flatMap((entry) => entry.filesModified || []));
+    if (filesTouched.size > 0) {
+      const files = Array.from(filesTouched);
+      sections.push(
+        `Files touched so far (${files.length}): ${files.slice(0, 30).join(", ")}${
+          files.length > 30 ? ", ..." : ""
+        }`
+      );
+    }
+
+    let feedback = sections.join("\n\n");
+    if (feedback.length > FEEDBACK_MAX_CHARS) {
+      feedback = `${feedback.substring(0, FEEDBACK_MAX_CHARS)}\n... (feedback truncated)`;
+    }
+
+    return [
+      state.prompt,
+      "",
+      `--- Feedback from iteration ${lastEntry?.iteration ?? state.iteration - 1} ---`,
+      "",
+      feedback,
+    ].join("\n");
+  }
+
+  /**
+   * Measure consumption of every budget configured on a loop
+   *
+   * @param now Point in time to measure wall-clock time up to (e.g. when an archived loop ended)
+   */
+  private getBudgetUsage(state: RalphLoopState, now: number = Date.now()): RalphBudgetUsage[] {
+    const budgets = state.budgets;
+    if (!budgets) {
+      return [];
+    }
+
+    // Wall-clock time excludes completed pauses and an ongoing one
+    const currentPauseMs =
+      state.paused && state.pausedAt ? now - Date.parse(state.pausedAt) : 0;
+    const elapsedMs =
+      now - Date.parse(state.startedAt) - (state.totalPausedMs || 0) - currentPauseMs;
+
+    let toolRuntimeMs = 0;
+    let tokens = 0;
+    let cost = 0;
+    for (const entry of state.history) {
+      for (const tool of entry.externalToolsRun || []) {
+        toolRuntimeMs += tool.duration;
+      }
+      tokens += entry.usage?.tokens || 0;
+      cost += entry.usage?.cost || 0;
+    }
+
+    const usage: RalphBudgetUsage[] = [];
+    const add = (budget: RalphBudgetUsage["budget"], used: number, limit?: number) => {
+      if (limit && limit > 0) {
+        usage.push({ budget, used, limit, percent: Math.floor((used / limit) * 100) });
+      }
     };
+    add("duration", Math.max(0, elapsedMs), budgets.maxDurationMs);
+    add("tool_runtime", toolRuntimeMs, budgets.maxToolRuntimeMs);
+    add("tokens", tokens, budgets.maxTokens);
+    add("cost", cost, budgets.maxCost);
+    return usage;
+  }
+
+  /**
+   * Format aggregated model usage, with averages over the iterations that
+   * reported usage
+   */
+  private formatUsageSummary(usage: RalphUsageSummary, totalIterations: number): string[] {
+    const lines: string[] = [];
+    const split =
+      usage.inputTokens > 0 || usage.outputTokens > 0
+        ? ` (input ${usage.inputTokens}, output ${usage.outputTokens})`
+        : "";
+    lines.push(`  Tokens: ${usage.tokens}${split}`);
+    lines.push(
+      `  Cost: ${formatCost(usage.cost)}${
+        usage.estimatedCost > 0 ? ` (${formatCost(usage.estimatedCost)} estimated from the price table)` : ""
+      }`
+    );
+    lines.push(
+      `  Per iteration: ${Math.round(usage.tokens / usage.iterations)} tokens, ${formatCost(
+        usage.cost / usage.iterations
+      )} avg${
+        usage.iterations < totalIterations
+          ? ` (${usage.iterations} of ${totalIterations} iterations reported usage)`
+          : ""
+      }`
+    );
+
+    const models = Object.entries(usage.models).sort((a, b) => b[1].cost - a[1].cost);
+    if (models.length > 0) {
+      lines.push(
+        `  Models: ${models
+          .map(([model, m]) => `${model} (${m.iterations} iter, ${m.tokens} tokens, ${formatCost(m.cost)})`)
+          .join(", ")}`
+      );
+    }
+    return lines;
+  }
+
+  /**
+   * Format a budget's consumption, e.g. "Wall-clock time: 120s of 300s (40%)"
+   */
+  private formatBudgetUsage(usage: RalphBudgetUsage): string {
+    switch (usage.budget) {
+      case "duration":
+        return `Wall-clock time: ${Math.floor(usage.used / 1000)}s of ${Math.floor(
+          usage.limit / 1000
+        )}s (${usage.percent}%)`;
+      case "tool_runtime":
+        return `Tool runtime: ${Math.floor(usage.used / 1000)}s of ${Math.floor(
+          usage.limit / 1000
+        )}s (${usage.percent}%)`;
+      case "tokens":
+        return `Tokens: ${usage.used} of ${usage.limit} (${usage.percent}%)`;
+      case "cost":
+        return `Cost: $${usage.used.toFixed(2)} of $${usage.limit.toFixed(2)} (${usage.percent}%)`;
+    }
+  }
+
+  /**
+   * Get warnings for budgets past the warning threshold
+   */
+  private getBudgetWarnings(usage: RalphBudgetUsage[]): string[] {
+    return usage
+      .filter((u) => u.percent >= BUDGET_WARNING_THRESHOLD)
+      .map((u) => this.formatBudgetUsage(u));
   }
 
   /**
    * Get formatted status string with progress insights (optimized with cached calculations)
    */
-  getStatus(): string {
-    if (!this.state || !this.state.active) {
-      return "No active Ralph loop";
+  getStatus(loopId?: string): string {
+    const state = this.resolveLoop(loopId);
+    if (!state || !state.active) {
+      return loopId ? `No active Ralph loop with ID ${loopId}` : "No active Ralph loop";
     }
 
     const {
+      id,
       iteration,
       maxIterations,
       completionPromise,
@@ -421,23 +2150,78 @@ export class RalphLoopManager {
       prompt,
       history,
       gitEnabled,
-    } = this.state;
+      paused,
+      pausedAt,
+      pauseReason,
+      totalPausedMs,
+    } = state;
 
     const lines: string[] = [];
     lines.push("🔄 Ralph Loop Status");
     lines.push("==================");
+    lines.push(`Loop ID: ${id}`);
     lines.push(`Active: Yes`);
+    if (paused) {
+      lines.push(`Paused: since ${pausedAt}${pauseReason ? ` - ${pauseReason}` : ""}`);
+    }
     lines.push(`Iteration: ${iteration}`);
     lines.push(
       `Max iterations: ${
         maxIterations > 0 ? maxIterations : "unlimited"
       }`
     );
-    lines.push(
-      `Completion promise: ${completionPromise || "none (runs forever)"}`
-    );
+    if (state.completionCondition) {
+      const completion = this.evaluateCompletion(state, history);
+      lines.push(`Completion condition: ${completion?.met ? "met" : "not met"}`);
+      if (completion) {
+        lines.push(...formatConditionStatus(completion));
+      }
+    } else {
+      lines.push(
+        `Completion promise: ${completionPromise || "none (runs forever)"}`
+      );
+    }
+    if (state.verifyWith && state.verifyWith.length > 0) {
+      lines.push(`Verified with: ${state.verifyWith.join(", ")}`);
+    }
     lines.push(`Started at: ${startedAt}`);
     lines.push(`Git integration: ${gitEnabled ? "enabled" : "disabled"}`);
+    if (totalPausedMs) {
+      lines.push(`Time paused: ${Math.floor(totalPausedMs / 1000)}s (excluded from durations)`);
+    }
+    if (state.notes && state.notes.length > 0) {
+      lines.push(`Notes: ${state.notes.length} (see ralph_note_list)`);
+    }
+    if (state.regressionPolicy) {
+      const { presets, iterations, mode } = state.regressionPolicy;
+      const rollbacks = history.filter((entry) => entry.rollback).length;
+      lines.push(
+        `Regression policy: ${mode} rollback after ${iterations} failing iteration(s) of ${presets.join(", ")}` +
+          (rollbacks > 0 ? ` (${rollbacks} rollback(s) so far)` : "")
+      );
+    }
+    if (state.rollbackOffer) {
+      lines.push(
+        `♻️  Rollback offered to iteration ${state.rollbackOffer.iteration} (accept with ralph_iterate rollback: true)`
+      );
+    }
+
+    const budgetUsage = this.getBudgetUsage(state);
+    if (budgetUsage.length > 0) {
+      lines.push("");
+      lines.push("💰 Budgets:");
+      for (const usage of budgetUsage) {
+        const warning = usage.percent >= BUDGET_WARNING_THRESHOLD ? "⚠️  " : "";
+        lines.push(`  ${warning}${this.formatBudgetUsage(usage)}`);
+      }
+    }
+
+    const usage = summarizeUsage(history);
+    if (usage.iterations > 0) {
+      lines.push("");
+      lines.push("💵 Usage:");
+      lines.push(...this.formatUsageSummary(usage, history.length));
+    }
 
     // Add history summary (optimized: single pass calculations)
     if (history.length > 0) {
@@ -481,7 +2265,19 @@ export class RalphLoopManager {
     }
 
     // Add progress analysis
-    const progress = this.analyzeProgress();
+    const progress = this.analyzeProgress(state);
+    if (progress.outputSimilarity !== undefined) {
+      const { outputThreshold, diffThreshold, window } = progress.similarityThresholds;
+      const diffPart =
+        progress.diffSimilarity !== undefined
+          ? `, diffs ${this.formatSimilarity(progress.diffSimilarity)} (threshold ${this.formatSimilarity(diffThreshold)})`
+          : "";
+      lines.push("");
+      lines.push(
+        `🔍 Similarity (last ${window}): outputs ${this.formatSimilarity(progress.outputSimilarity)} (threshold ${this.formatSimilarity(outputThreshold)})${diffPart}`
+      );
+    }
+
     if (progress.stagnationDetected) {
       lines.push("");
       lines.push("⚠️  Stagnation Detected:");
@@ -492,21 +2288,48 @@ export class RalphLoopManager {
           lines.push(`    • ${action}`);
         });
       }
+    } else if (progress.suggestedActions.length > 0) {
+      lines.push("");
+      lines.push("💡 Suggested actions:");
+      progress.suggestedActions.forEach((action) => {
+        lines.push(`  • ${action}`);
+      });
+    }
+
+    if (progress.oscillatingFiles.length > 0) {
+      lines.push("");
+      lines.push("🔀 Oscillating Files:");
+      progress.oscillatingFiles.forEach((file) => {
+        lines.push(`  • ${file}`);
+      });
     }
 
     if (progress.repeatedErrors.length > 0) {
       lines.push("");
       lines.push("🔁 Repeated Errors:");
-      progress.repeatedErrors.forEach((error) => {
-        lines.push(`  • ${error.substring(0, 100)}${error.length > 100 ? "..." : ""}`);
+      progress.repeatedErrors.forEach((cluster) => {
+        lines.push(`  • ${formatErrorCluster(cluster)}`);
       });
     }
 
-    if (progress.estimatedIterationsRemaining !== undefined) {
+    const testDelta = state.history[state.history.length - 1]?.testDelta;
+    if (testDelta) {
       lines.push("");
-      lines.push(
-        `📈 Estimated iterations remaining: ${progress.estimatedIterationsRemaining}`
-      );
+      lines.push(`🧪 Test changes in the last iteration (since iteration ${testDelta.since}):`);
+      lines.push(...formatTestDelta(testDelta));
+    }
+
+    if (progress.signals.length > 0) {
+      lines.push("");
+      lines.push(`📊 Progress signals (convergence ${(progress.convergenceRate * 100).toFixed(0)}%):`);
+      progress.signals.forEach((trend) => {
+        lines.push(`  • ${formatSignalTrend(trend)}`);
+      });
+    }
+
+    if (progress.eta) {
+      lines.push("");
+      lines.push(`📈 Estimated iterations remaining: ${formatEta(progress.eta)}`);
     }
 
     lines.push("");
@@ -519,8 +2342,9 @@ export class RalphLoopManager {
   /**
    * Get detailed history report
    */
-  getHistoryReport(): string {
-    const history = this.state?.history || [];
+  getHistoryReport(loopId?: string): string {
+    const state = this.resolveLoop(loopId);
+    const history = state ? this.getFullHistory(state) : [];
 
     if (history.length === 0) {
       return "No iteration history available.";
@@ -532,6 +2356,120 @@ export class RalphLoopManager {
     lines.push(`Total iterations: ${history.length}`);
     lines.push("");
 
+    this.formatHistoryEntries(history, lines);
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Search iteration history of live and (optionally) archived loops,
+   * oldest match first, with highlighted snippets of what matched
+   *
+   * @param query Filters; `limit` caps the matches shown (default 20)
+   */
+  searchHistory(query: RalphHistoryQuery): string {
+    const limit = query.limit ?? 20;
+    const matchEntry = createEntryMatcher(query);
+    const matches = this.storage.queryHistory({ ...query, limit: undefined });
+
+    const lines: string[] = [];
+    lines.push("🔎 History Search");
+    lines.push("=================");
+    lines.push(`Filters: ${this.describeHistoryQuery(query).join(", ")}`);
+
+    if (matches.length === 0) {
+      lines.push("");
+      lines.push("No matching iterations.");
+      return lines.join("\n");
+    }
+
+    const loops = new Set(matches.map((match) => match.archiveId ?? match.loopId));
+    const first = matches[0];
+    lines.push(`Matches: ${matches.length} iteration(s) in ${loops.size} loop(s)`);
+    lines.push(
+      `First match: loop ${first.loopId}, iteration ${first.entry.iteration} (${first.entry.timestamp})`
+    );
+    lines.push("");
+
+    for (const match of matches.slice(0, limit)) {
+      const { entry } = match;
+      lines.push(
+        `--- ${match.loopId} #${entry.iteration} · ${entry.timestamp}${
+          match.archiveId ? ` · archived as ${match.archiveId}` : ""
+        }${entry.completionDetected ? " · completed" : ""} ---`
+      );
+
+      const highlights = matchEntry(entry) || [];
+      for (const highlight of highlights.slice(0, 5)) {
+        lines.push(`  ${highlight.field}: ${this.formatSnippet(highlight)}`);
+      }
+      if (highlights.length > 5) {
+        lines.push(`  ... ${highlights.length - 5} more match(es)`);
+      }
+      if (highlights.length === 0) {
+        lines.push(`  output: ${entry.output.replace(/\s+/g, " ").trim().substring(0, 120)}`);
+      }
+      lines.push("");
+    }
+
+    if (matches.length > limit) {
+      lines.push(`Showing the first ${limit} of ${matches.length} matches - narrow the filters or raise limit.`);
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Describe the filters of a history query
+   */
+  private describeHistoryQuery(query: RalphHistoryQuery): string[] {
+    const filters: string[] = [];
+    if (query.loopId) filters.push(`loop ${query.loopId}`);
+    if (query.file) filters.push(`file ${query.file}`);
+    if (query.command) filters.push(`command "${query.command}"`);
+    if (query.errorText) filters.push(`error words "${query.errorText}"`);
+    if (query.errorSubstring) filters.push(`error "${query.errorSubstring}"`);
+    if (query.errorPattern) filters.push(`error /${query.errorPattern}/i`);
+    if (query.tool || query.toolStatus) {
+      filters.push(`tool ${[query.tool ?? "any", query.toolStatus].filter((part) => part).join(" ")}`);
+    }
+    if (query.completionDetected !== undefined) {
+      filters.push(query.completionDetected ? "completed" : "not completed");
+    }
+    if (query.fromIteration !== undefined || query.toIteration !== undefined) {
+      filters.push(`iterations ${query.fromIteration ?? 1}-${query.toIteration ?? ""}`);
+    }
+    if (query.since) filters.push(`since ${query.since}`);
+    if (query.until) filters.push(`until ${query.until}`);
+    filters.push(query.includeArchived ? "including archived loops" : "live loops only");
+    return filters;
+  }
+
+  /**
+   * Format a highlight as a one-line snippet with the match in bold
+   */
+  private formatSnippet(highlight: RalphHistoryHighlight): string {
+    const context = 40;
+    const flatten = (text: string) => text.replace(/\s+/g, " ");
+    const from = Math.max(0, highlight.start - context);
+    const to = Math.min(highlight.text.length, highlight.end + context);
+
+    return [
+      from > 0 ? "..." : "",
+      flatten(highlight.text.substring(from, highlight.start)),
+      `**${flatten(highlight.text.substring(highlight.start, highlight.end))}**`,
+      flatten(highlight.text.substring(highlight.end, to)),
+      to < highlight.text.length ? "..." : "",
+    ].join("");
+  }
+
+  /**
+   * Append formatted history entries to a report
+   */
+  private formatHistoryEntries(
+    history: RalphIterationHistoryEntry[],
+    lines: string[]
+  ): void {
     for (const entry of history) {
       lines.push(`--- Iteration ${entry.iteration} ---`);
       lines.push(`Time: ${entry.timestamp}`);
@@ -539,6 +2477,12 @@ export class RalphLoopManager {
         lines.push(`Duration: ${Math.floor(entry.duration / 1000)}s`);
       }
       lines.push(`Completion detected: ${entry.completionDetected}`);
+      if (entry.outputBlob) {
+        lines.push(`Full output: ${entry.outputBlob.substring(0, 12)}`);
+      }
+      if (entry.promiseRejected) {
+        lines.push(`Promise rejected: ${entry.promiseRejected.split("\n")[0]}`);
+      }
 
       if (entry.filesModified && entry.filesModified.length > 0) {
         lines.push(`Files modified: ${entry.filesModified.join(", ")}`);
@@ -565,12 +2509,199 @@ export class RalphLoopManager {
           lines.push(
             `  ${tool.name}: ${tool.exitCode === 0 ? "✓" : "✗"} (${Math.floor(
               tool.duration / 1000
-            )}s)`
+            )}s)${tool.outputBlob ? ` - full log: ${tool.outputBlob.substring(0, 12)}` : ""}`
           );
         });
       }
 
+      if (entry.artifacts && entry.artifacts.length > 0) {
+        lines.push(`Artifacts:`);
+        entry.artifacts.forEach((artifact) => {
+          lines.push(`  ${artifact.name}: ${artifact.hash.substring(0, 12)} (${artifact.size} bytes)`);
+        });
+      }
+
+      lines.push("");
+    }
+
+    const hasBlobs = history.some(
+      (entry) =>
+        entry.outputBlob ||
+        entry.artifacts?.length ||
+        entry.externalToolsRun?.some((tool) => tool.outputBlob)
+    );
+    if (hasBlobs) {
+      lines.push("Use ralph_get_artifact with a hash above to read full outputs, tool logs and artifacts.");
+    }
+  }
+
+  /**
+   * Get a short status label for a loop
+   */
+  private getLoopStatusLabel(state: RalphLoopState): string {
+    if (!state.active) {
+      return "inactive";
+    }
+    return state.paused ? "paused" : "active";
+  }
+
+  /**
+   * Get formatted overview of all loops
+   */
+  getLoopsReport(): string {
+    const loops = this.listLoops();
+
+    if (loops.length === 0) {
+      return "No Ralph loops found.";
+    }
+
+    const lines: string[] = [];
+    lines.push("🔄 Ralph Loops");
+    lines.push("==============");
+    lines.push("");
+
+    for (const loop of loops) {
+      const maxLabel = loop.maxIterations > 0 ? `/${loop.maxIterations}` : "";
+      lines.push(
+        `${loop.id} - ${this.getLoopStatusLabel(loop)} (iteration ${loop.iteration}${maxLabel})`
+      );
+      if (loop.paused && loop.pauseReason) {
+        lines.push(`  Pause reason: ${loop.pauseReason}`);
+      }
+      lines.push(`  Started at: ${loop.startedAt}`);
+      lines.push(
+        `  Prompt: ${loop.prompt.substring(0, 80)}${loop.prompt.length > 80 ? "..." : ""}`
+      );
+      lines.push("");
+    }
+
+    lines.push("Pass loop_id to ralph_iterate, ralph_status, ralph_history or ralph_cancel to target a loop.");
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Get formatted report of loops recovered from their history logs
+   */
+  getRecoveryReport(): string {
+    const recoveries = this.recoverLoops();
+
+    if (recoveries.length === 0) {
+      return "✅ Nothing to recover - all loop states are intact.";
+    }
+
+    const lines: string[] = [];
+    lines.push("🩹 Ralph Loop Recovery");
+    lines.push("======================");
+    lines.push("");
+
+    for (const recovery of recoveries) {
+      lines.push(
+        `${recovery.loopId} - ${recovery.restored ? "restored" : "NOT restored"}`
+      );
+      lines.push(`  Problem: ${recovery.reason}`);
+      if (recovery.restored) {
+        lines.push(`  Iterations restored from history: ${recovery.restoredEntries}`);
+        lines.push(`  Continues at iteration: ${recovery.iteration}`);
+      }
+      if (recovery.skippedLines > 0) {
+        lines.push(`  Unreadable history lines skipped: ${recovery.skippedLines}`);
+      }
+      if (recovery.corruptStateFile) {
+        lines.push(`  Damaged state file kept at: ${recovery.corruptStateFile}`);
+      }
+      lines.push("");
+    }
+
+    if (recoveries.some((r) => r.restored)) {
+      lines.push("Pause state and the current iteration's start time are not restored.");
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Get formatted list of archived loops
+   */
+  getArchivedLoopsReport(
+    filter: { loopId?: string; outcome?: RalphLoopOutcome } = {},
+    limit: number = 20
+  ): string {
+    const archived = this.listArchivedLoops(filter);
+
+    if (archived.length === 0) {
+      return "No archived Ralph loops found.";
+    }
+
+    const lines: string[] = [];
+    lines.push("🗄️  Archived Ralph Loops");
+    lines.push("=======================");
+    lines.push(`Showing ${Math.min(limit, archived.length)} of ${archived.length}`);
+    lines.push("");
+
+    for (const record of archived.slice(0, limit)) {
+      const { state } = record;
+      lines.push(`${record.archiveId}`);
+      lines.push(
+        `  ${record.outcome} after ${state.history.length} iteration(s) - ended ${record.endedAt}`
+      );
+      lines.push(
+        `  Prompt: ${state.prompt.substring(0, 80)}${state.prompt.length > 80 ? "..." : ""}`
+      );
+      lines.push("");
+    }
+
+    lines.push("Use ralph_show_archived with an archive_id for the full record.");
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Get formatted report of a single archived loop
+   */
+  getArchivedLoopReport(archiveId: string): string {
+    const record = this.getArchivedLoop(archiveId);
+    if (!record) {
+      return `Archived loop not found: ${archiveId}\n\nUse ralph_list_archived to see archived loops.`;
+    }
+
+    const { state } = record;
+    const lines: string[] = [];
+    lines.push(`🗄️  Archived Ralph Loop ${record.archiveId}`);
+    lines.push("==================================");
+    lines.push(`Loop ID: ${state.id}`);
+    lines.push(`Outcome: ${record.outcome}`);
+    lines.push(`Reason: ${record.reason}`);
+    lines.push(`Started at: ${state.startedAt}`);
+    lines.push(`Ended at: ${record.endedAt}`);
+    lines.push(`Iterations: ${state.history.length}`);
+    lines.push("");
+    lines.push("Settings:");
+    lines.push(
+      `  Max iterations: ${state.maxIterations > 0 ? state.maxIterations : "unlimited"}`
+    );
+    if (state.completionCondition) {
+      lines.push(`  Completion condition: ${describeCompletionCondition(state.completionCondition)}`);
+    } else {
+      lines.push(`  Completion promise: ${state.completionPromise || "none"}`);
+    }
+    if (state.verifyWith && state.verifyWith.length > 0) {
+      lines.push(`  Verified with: ${state.verifyWith.join(", ")}`);
+    }
+    lines.push(`  Git integration: ${state.gitEnabled ? "enabled" : "disabled"}`);
+    lines.push(`  Auto-commit: ${state.autoCommit ? "enabled" : "disabled"}`);
+    for (const usage of this.getBudgetUsage(state, Date.parse(record.endedAt))) {
+      lines.push(`  Budget - ${this.formatBudgetUsage(usage)}`);
+    }
+    lines.push("");
+    lines.push("Prompt:");
+    lines.push(state.prompt);
+    lines.push("");
+
+    if (state.history.length > 0) {
+      lines.push("📜 History");
       lines.push("");
+      this.formatHistoryEntries(state.history, lines);
     }
 
     return lines.join("\n");
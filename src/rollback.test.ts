@@ -0,0 +1,185 @@
+/**
+ * Regression Rollback Tests for Ralph Wiggum MCP Server
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { execSync } from "child_process";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { GitManager } from "./git.js";
+import { RalphLoopManager } from "./ralph.js";
+import type { RalphIterationHistoryEntry } from "./ralph.js";
+import { countPresetFailures, findRollbackCandidate, RalphRegressionPolicy } from "./rollback.js";
+
+const entry = (iteration: number, fields: Partial<RalphIterationHistoryEntry>): RalphIterationHistoryEntry => ({
+  iteration,
+  timestamp: new Date().toISOString(),
+  output: "",
+  completionDetected: false,
+  ...fields,
+});
+
+describe("Regression rollback", () => {
+  const policy: RalphRegressionPolicy = { presets: ["javascript-test", "build"], iterations: 2, mode: "auto" };
+
+  it("should count preset failures only when every preset ran", () => {
+    const test = (exitCode: number, output: string) => ({
+      name: "npm-test",
+      command: "npm test",
+      preset: "javascript-test",
+      exitCode,
+      output,
+      duration: 1,
+    });
+    const build = { name: "build", command: "npm run build", preset: "build", exitCode: 1, output: "", duration: 1 };
+
+    expect(countPresetFailures(policy.presets, [test(1, "Tests: 3 failed, 7 passed, 10 total")])).toBeUndefined();
+    expect(countPresetFailures(policy.presets, [test(1, "Tests: 3 failed, 7 passed, 10 total"), build])).toBe(4);
+    expect(countPresetFailures(policy.presets, [test(1, "Killed"), { ...build, exitCode: 0 }])).toBe(1);
+    expect(countPresetFailures(policy.presets, [test(0, "Tests: 10 passed"), { ...build, exitCode: 0 }])).toBe(0);
+  });
+
+  it("should roll back to the last green iteration after enough failing iterations", () => {
+    const history = [
+      entry(1, { presetFailures: 2, gitCommit: "aaaa111" }),
+      entry(2, { presetFailures: 0, gitCommit: "bbbb222" }),
+      entry(3, { gitCommit: "cccc333" }), // presets not run
+      entry(4, { presetFailures: 1, gitCommit: "dddd444" }),
+    ];
+
+    expect(findRollbackCandidate(history.slice(0, 3), policy, 4, 1)).toBeNull();
+    expect(findRollbackCandidate(history, policy, 5, 0)).toBeNull();
+    expect(findRollbackCandidate(history, policy, 5, 3)).toEqual({
+      iteration: 2,
+      commit: "bbbb222",
+      failingIterations: [4, 5],
+      failures: 3,
+    });
+
+    // A green iteration without changes rolls back to the commit before it
+    const unchanged = [entry(1, { presetFailures: 0, gitCommit: "aaaa111" }), entry(2, { presetFailures: 0 })];
+    expect(findRollbackCandidate(unchanged, { ...policy, iterations: 1 }, 3, 1)?.commit).toBe("aaaa111");
+
+    // The failing streak starts over after a rollback
+    const rolledBack = [
+      ...history,
+      entry(5, {
+        presetFailures: 3,
+        rollback: {
+          toIteration: 2,
+          commit: "bbbb222",
+          discardedCommits: [],
+          files: [],
+          failingIterations: [4, 5],
+          automatic: true,
+        },
+      }),
+    ];
+    expect(findRollbackCandidate(rolledBack, policy, 6, 1)).toBeNull();
+    expect(findRollbackCandidate([...rolledBack, entry(6, { presetFailures: 1 })], policy, 7, 1)?.failingIterations).toEqual([
+      6, 7,
+    ]);
+  });
+
+  describe("GitManager.rollback", () => {
+    let repo: string;
+    const git = (command: string) => execSync(`git ${command}`, { cwd: repo, encoding: "utf-8", stdio: "pipe" }).trim();
+
+    beforeEach(() => {
+      repo = mkdtempSync(join(tmpdir(), "ralph-rollback-test-"));
+      git("init -q");
+      git("config user.email ralph@example.com");
+      git("config user.name Ralph");
+      git("config commit.gpgsign false");
+    });
+
+    afterEach(() => {
+      rmSync(repo, { recursive: true, force: true });
+    });
+
+    it("should stash uncommitted work and hard reset to the commit", () => {
+      writeFileSync(join(repo, "a.txt"), "green\n");
+      git("add -A");
+      git("commit -qm green");
+      const green = git("rev-parse HEAD");
+
+      writeFileSync(join(repo, "a.txt"), "broken\n");
+      git("commit -qam broken");
+      const broken = git("rev-parse HEAD");
+      writeFileSync(join(repo, "a.txt"), "more broken\n");
+      writeFileSync(join(repo, "new.txt"), "untracked\n");
+
+      const manager = new GitManager(repo);
+      expect(manager.rollback("not-a-commit", "x").success).toBe(false);
+
+      const result = manager.rollback(green, "ralph rollback");
+      expect(result).toMatchObject({
+        success: true,
+        previousHead: broken,
+        discardedCommits: [broken],
+        files: ["a.txt", "new.txt"],
+      });
+      expect(readFileSync(join(repo, "a.txt"), "utf-8")).toBe("green\n");
+      expect(existsSync(join(repo, "new.txt"))).toBe(false);
+      expect(git("rev-parse HEAD")).toBe(green);
+      expect(git("rev-parse refs/stash")).toBe(result.stash);
+      expect(git("stash list")).toContain("ralph rollback");
+    });
+
+    it("should leave a state directory inside the repository alone through iterate, rollback and iterate", () => {
+      writeFileSync(join(repo, "a.txt"), "start\n");
+      git("add -A");
+      git("commit -qm start");
+
+      const manager = new RalphLoopManager(join(repo, ".REMOVED", "ralph-loops"));
+      const gitManager = new GitManager(repo, manager.getStoragePaths());
+      manager.startLoop("Task", {
+        loopId: "a",
+        autoCommit: true,
+        regressionPolicy: { presets: ["build"], iterations: 1, mode: "auto" },
+      });
+      const build = (exitCode: number) => [
+        { name: "build", command: "npm run build", preset: "build", exitCode, output: "", duration: 1 },
+      ];
+
+      // Iteration 1 is green; its commit holds the project files only
+      writeFileSync(join(repo, "a.txt"), "green\n");
+      const green = gitManager.createCommit("Iteration 1 (a)", 1).commit!;
+      expect(git(`show --name-only --format= ${green}`)).toBe("a.txt");
+      manager.processIteration("green", { gitCommit: green, externalToolsRun: build(0) }, "a", 1);
+
+      // Iteration 2 breaks the build and is rolled back under the lock
+      writeFileSync(join(repo, "a.txt"), "broken\n");
+      writeFileSync(join(repo, "b.txt"), "new\n");
+      const candidate = manager.getRollbackCandidate(build(1), "a")!;
+      const reset = manager.withLoopLock("a", 2, () => gitManager.rollback(candidate.commit, "ralph rollback"));
+      expect(reset).toMatchObject({ success: true, files: ["a.txt", "b.txt"] });
+      expect(readFileSync(join(repo, "a.txt"), "utf-8")).toBe("green\n");
+      expect(git("stash show --include-untracked --name-only stash@{0}").split("\n").sort()).toEqual(["a.txt", "b.txt"]);
+
+      manager.processIteration(
+        "broken",
+        {
+          externalToolsRun: build(1),
+          rollback: {
+            toIteration: candidate.iteration,
+            commit: candidate.commit,
+            discardedCommits: reset.discardedCommits,
+            files: reset.files,
+            failingIterations: candidate.failingIterations,
+            automatic: true,
+          },
+        },
+        "a",
+        2
+      );
+
+      // The loop's state survived the reset, so the next iteration goes through
+      expect(manager.processIteration("next", { externalToolsRun: build(0) }, "a", 3).iteration).toBe(4);
+      expect(manager.getHistory("a").map((h) => h.rollback?.toIteration)).toEqual([undefined, 1, undefined]);
+      expect(gitManager.isClean()).toBe(true);
+      expect(() => manager.withLoopLock("a", 3, () => "stale")).toThrow("Conflict: loop a is at iteration 4");
+    });
+  });
+});
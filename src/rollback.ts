@@ -0,0 +1,141 @@
+/**
+ * Regression Rollback for Ralph Wiggum Loops
+ *
+ * With a regression policy, the failures of a set of tool presets are counted
+ * every iteration they all run. Once they have failed for a number of
+ * iterations in a row after an iteration where they all passed (its "green"
+ * iteration), the loop offers - or, in auto mode, performs - a hard reset to
+ * that iteration's auto-commit. The broken work is stashed first.
+ */
+
+import type { ExternalToolResult, RalphIterationHistoryEntry } from "./ralph.js";
+import { getToolCategory, parseLintErrors, parseTestCounts } from "./progress.js";
+
+export interface RalphRegressionPolicy {
+  presets: string[]; // presets whose failures are counted
+  iterations: number; // failing iterations in a row before a rollback
+  mode: "offer" | "auto";
+}
+
+/**
+ * A green iteration the loop can be rolled back to
+ */
+export interface RalphRollbackCandidate {
+  iteration: number;
+  commit: string;
+  failingIterations: number[]; // iterations since, with more failures
+  failures: number; // preset failures in the latest of them
+}
+
+/**
+ * A rollback performed in an iteration, recorded in its history entry
+ */
+export interface RalphRollback {
+  toIteration: number;
+  commit: string;
+  previousHead?: string; // HEAD before the reset; its commits stay in the reflog
+  discardedCommits: string[]; // commits the reset removed from the branch
+  stash?: string; // stash commit holding the uncommitted work
+  files: string[]; // files that differed from the green iteration
+  failingIterations: number[];
+  automatic: boolean;
+}
+
+/**
+ * Count the failures of the policy's presets: failing tests, lint errors,
+ * and 1 for any other failing tool. Undefined unless every preset ran.
+ */
+export function countPresetFailures(presets: string[], tools: ExternalToolResult[] = []): number | undefined {
+  if (!presets.every((preset) => tools.some((tool) => tool.preset === preset))) {
+    return undefined;
+  }
+
+  let failures = 0;
+  for (const tool of tools.filter((t) => t.preset !== undefined && presets.includes(t.preset))) {
+    const category = getToolCategory(tool);
+    const counted =
+      category === "test"
+        ? parseTestCounts(tool.output)?.failed ?? 0
+        : category === "lint"
+          ? parseLintErrors(tool.output, tool.exitCode)
+          : 0;
+    // A failing tool counts at least once, even when its output says nothing
+    failures += tool.exitCode !== 0 ? Math.max(1, counted) : counted;
+  }
+  return failures;
+}
+
+/**
+ * Find the green iteration to roll back to, given the failures of the
+ * current iteration. Only iterations after the last rollback count towards
+ * the failing streak.
+ */
+export function findRollbackCandidate(
+  history: RalphIterationHistoryEntry[],
+  policy: RalphRegressionPolicy,
+  iteration: number,
+  failures: number | undefined
+): RalphRollbackCandidate | null {
+  if (failures === undefined || failures === 0) {
+    return null;
+  }
+
+  const reversed = [...history].reverse();
+  const green = reversed.find((entry) => entry.presetFailures === 0 && !entry.rollback);
+  if (!green) {
+    return null;
+  }
+
+  // The green iteration's tree: its commit, or the last commit (or rollback
+  // target) before it when it changed nothing
+  const commit = reversed
+    .filter((entry) => entry.iteration <= green.iteration)
+    .map((entry) => entry.gitCommit ?? entry.rollback?.commit)
+    .find((hash) => hash !== undefined);
+  if (!commit) {
+    return null;
+  }
+
+  const lastRollback = reversed.find((entry) => entry.rollback)?.iteration ?? 0;
+  const failingIterations = [
+    ...history
+      .filter(
+        (entry) =>
+          entry.iteration > Math.max(green.iteration, lastRollback) && entry.presetFailures !== undefined
+      )
+      .map((entry) => entry.iteration),
+    iteration,
+  ];
+  if (failingIterations.length < policy.iterations) {
+    return null;
+  }
+
+  return { iteration: green.iteration, commit, failingIterations, failures };
+}
+
+/**
+ * Describe a rollback for the loop's notes, so the agent knows what was discarded
+ */
+export function describeRollback(rollback: RalphRollback, presets: string[]): string {
+  const lines = [
+    `Rolled back to iteration ${rollback.toIteration} (commit ${rollback.commit.substring(0, 7)})${
+      rollback.automatic ? " automatically" : ""
+    }: ${presets.join(", ")} failed in iteration(s) ${rollback.failingIterations.join(", ")} after passing there.`,
+  ];
+  if (rollback.discardedCommits.length > 0) {
+    lines.push(
+      `Discarded ${rollback.discardedCommits.length} commit(s): ${rollback.discardedCommits
+        .map((commit) => commit.substring(0, 7))
+        .join(", ")} (recoverable from the reflog).`
+    );
+  }
+  if (rollback.stash) {
+    lines.push(`Uncommitted work was stashed as ${rollback.stash.substring(0, 7)}.`);
+  }
+  if (rollback.files.length > 0) {
+    const files = rollback.files.slice(0, 20).join(", ");
+    lines.push(`Files reverted: ${files}${rollback.files.length > 20 ? ", ..." : ""}`);
+  }
+  lines.push("Take a different approach to these changes.");
+  return lines.join("\n");
+}
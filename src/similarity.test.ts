@@ -0,0 +1,44 @@
+/**
+ * Similarity Tests for Ralph Wiggum MCP Server
+ *
+ * Tests for output and diff shingling and MinHash estimates.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { estimateSimilarity, minHash, shingleDiff, shingleOutput } from "./similarity.js";
+
+describe("Similarity", () => {
+  const similarity = (a: Set<string>, b: Set<string>) =>
+    estimateSimilarity(minHash(a), minHash(b));
+
+  it("should rate identical outputs as fully similar", () => {
+    const output = "Fixed the failing parser test by handling empty input";
+    expect(similarity(shingleOutput(output), shingleOutput(output.toUpperCase()))).toBe(1);
+  });
+
+  it("should rate unrelated outputs as dissimilar", () => {
+    const a = shingleOutput("Added pagination to the users endpoint and updated the schema");
+    const b = shingleOutput("Rewrote the build script so the docs are generated on release");
+    expect(similarity(a, b)).toBeLessThan(0.2);
+  });
+
+  it("should match repeated edits regardless of hunk offsets", () => {
+    const first = [
+      "diff --git a/src/a.ts b/src/a.ts",
+      "--- a/src/a.ts",
+      "+++ b/src/a.ts",
+      "@@ -10 +10 @@",
+      "-  return value;",
+      "+  return value ?? 0;",
+    ].join("\n");
+    const second = first.replace("@@ -10 +10 @@", "@@ -42 +42 @@");
+
+    expect(shingleDiff(first)).toEqual(new Set(["- return value;", "+ return value ?? 0;"]));
+    expect(similarity(shingleDiff(first), shingleDiff(second))).toBe(1);
+  });
+
+  it("should never treat empty content as similar", () => {
+    expect(minHash(new Set())).toEqual([]);
+    expect(similarity(shingleDiff(""), shingleDiff(""))).toBe(0);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Content Similarity for Ralph Wiggum Loops
+ *
+ * MinHash signatures over shingled text, used to spot iterations whose
+ * outputs or diffs are near-identical to the previous ones.
+ */
+
+const SIGNATURE_SIZE = 64;
+const OUTPUT_SHINGLE_SIZE = 3; // words per output shingle
+
+/**
+ * FNV-1a 32-bit string hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * MurmurHash3 finalizer, used to derive independent hash functions
+ */
+function fmix32(value: number): number {
+  let h = value;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => fmix32(i + 0x9e3779b9));
+
+/**
+ * Build the set of k-token shingles from a token list
+ */
+export function shingle(tokens: string[], size: number): Set<string> {
+  const shingles = new Set<string>();
+  if (tokens.length > 0 && tokens.length < size) {
+    shingles.add(tokens.join(" "));
+  }
+  for (let i = 0; i + size <= tokens.length; i++) {
+    shingles.add(tokens.slice(i, i + size).join(" "));
+  }
+  return shingles;
+}
+
+/**
+ * Shingle an iteration output into overlapping word triples
+ */
+export function shingleOutput(output: string): Set<string> {
+  const words = output.toLowerCase().split(/\s+/).filter((w) => w);
+  return shingle(words, OUTPUT_SHINGLE_SIZE);
+}
+
+/**
+ * Shingle a unified diff into its changed lines, so repeated edits to the
+ * same hunks produce overlapping sets regardless of hunk offsets
+ */
+export function shingleDiff(diff: string): Set<string> {
+  const shingles = new Set<string>();
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("+++") || line.startsWith("---")) continue;
+    if (line.startsWith("+") || line.startsWith("-")) {
+      const normalized = line.replace(/\s+/g, " ").trim();
+      if (normalized.length > 1) {
+        shingles.add(normalized);
+      }
+    }
+  }
+  return shingles;
+}
+
+/**
+ * Compute a MinHash signature for a set of shingles (empty set gives an empty signature)
+ */
+export function minHash(shingles: Set<string>): number[] {
+  if (shingles.size === 0) {
+    return [];
+  }
+
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const item of shingles) {
+    const base = fnv1a(item);
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = fmix32(base ^ SEEDS[i]);
+      if (value < signature[i]) {
+        signature[i] = value;
+      }
+    }
+  }
+  return signature;
+}
+
+/**
+ * Estimate Jaccard similarity (0-1) from two MinHash signatures. Empty
+ * content is never considered similar, so iterations without changes are
+ * not reported as repeated edits.
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) matches++;
+  }
+  return matches / a.length;
+}
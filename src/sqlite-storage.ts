@@ -0,0 +1,438 @@
+/**
+ * Embedded Database Storage for Ralph Wiggum Loops
+ *
+ * Keeps loop state, history and archives in a single SQLite file (via
+ * sql.js, so no native build is needed). History is stored one row per
+ * iteration, indexed by loop, iteration and time, with a full-text index
+ * over error messages. Blobs (full outputs and artifacts) are kept as files
+ * in `<path>.blobs/`, so they do not bloat the database, and lessons in
+ * `<path>.lessons.json`.
+ */
+
+import initSqlJs, { type BindParams, type Database, type SqlJsStatic } from "sql.js";
+import { existsSync, readFileSync, statSync } from "fs";
+import { BlobStore } from "./blobs.js";
+import { LessonsStore } from "./lessons.js";
+import { FileLock, writeFileAtomic } from "./locking.js";
+import {
+  RalphHistoryLog,
+  RalphHistoryMatch,
+  RalphHistoryQuery,
+  RalphHistoryRecord,
+  RalphStorage,
+  createEntryMatcher,
+  hasUnindexedFilters,
+  tokenizeText,
+} from "./storage.js";
+import type {
+  RalphArchivedLoop,
+  RalphHistoryStartRecord,
+  RalphIterationHistoryEntry,
+  RalphLoopState,
+} from "./ralph.js";
+
+const SCHEMA_VERSION = 1;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS loops (
+  id TEXT PRIMARY KEY,
+  state TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1
+);
+CREATE TABLE IF NOT EXISTS history (
+  seq INTEGER PRIMARY KEY,
+  loop_id TEXT NOT NULL,
+  archive_id TEXT,
+  iteration INTEGER,
+  timestamp TEXT NOT NULL,
+  record TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS history_by_loop ON history (loop_id, archive_id, iteration);
+CREATE INDEX IF NOT EXISTS history_by_archive ON history (archive_id, iteration);
+CREATE INDEX IF NOT EXISTS history_by_time ON history (timestamp);
+CREATE VIRTUAL TABLE IF NOT EXISTS history_errors USING fts4 (
+  history_seq, error, notindexed=history_seq, tokenize=unicode61
+);
+CREATE TABLE IF NOT EXISTS archives (
+  archive_id TEXT PRIMARY KEY,
+  loop_id TEXT NOT NULL,
+  outcome TEXT NOT NULL,
+  ended_at TEXT NOT NULL,
+  record TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS archives_by_loop ON archives (loop_id, ended_at);
+PRAGMA user_version = ${SCHEMA_VERSION};
+`;
+
+/**
+ * SQLite file storage
+ *
+ * The database is held in memory and written back to its file (atomically)
+ * when the lock is released. Every change runs under the lock, in one
+ * transaction per outermost `withLock`. Reads pick up changes made by
+ * other processes by reloading the file when it changes.
+ */
+export class SqliteStorage implements RalphStorage {
+  readonly description: string;
+  readonly paths: string[];
+  readonly blobs: BlobStore;
+  readonly lessons: LessonsStore;
+  private path: string;
+  private SQL: SqlJsStatic;
+  private db: Database;
+  private fileVersion: string | null = null;
+  private lock: FileLock;
+  private lockDepth = 0;
+  private dirty = false;
+
+  private constructor(path: string, SQL: SqlJsStatic) {
+    this.path = path;
+    this.SQL = SQL;
+    this.description = `database ${path}`;
+    this.paths = [path, `${path}.blobs`, `${path}.lessons.json`, `${path}.lock`];
+    this.blobs = new BlobStore(`${path}.blobs`);
+    this.lessons = new LessonsStore(`${path}.lessons.json`);
+    this.lock = new FileLock(`${path}.lock`);
+    this.db = this.loadDatabase();
+  }
+
+  /**
+   * Open (or create) a database file
+   */
+  static async open(path: string): Promise<SqliteStorage> {
+    const SQL = await initSqlJs();
+    return new SqliteStorage(path, SQL);
+  }
+
+  /**
+   * Close the in-memory database
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Identify the current version of the database file (null if missing)
+   */
+  private getFileVersion(): string | null {
+    try {
+      const stats = statSync(this.path);
+      return `${stats.ino}:${stats.size}:${stats.mtimeMs}`;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Read the database file (or start an empty database) and ensure the schema
+   */
+  private loadDatabase(): Database {
+    this.fileVersion = this.getFileVersion();
+    const db = new this.SQL.Database(existsSync(this.path) ? readFileSync(this.path) : null);
+    db.run(SCHEMA);
+    return db;
+  }
+
+  /**
+   * Reload the database if another process wrote it since we last did
+   */
+  private refresh(): void {
+    if (this.lockDepth > 0 || this.getFileVersion() === this.fileVersion) {
+      return;
+    }
+    this.db.close();
+    this.db = this.loadDatabase();
+  }
+
+  /**
+   * Write the database back to its file
+   */
+  private flush(): void {
+    writeFileAtomic(this.path, this.db.export());
+    this.fileVersion = this.getFileVersion();
+    this.dirty = false;
+  }
+
+  /**
+   * Run a statement that modifies the database (only called under the lock)
+   */
+  private execute(sql: string, params: BindParams = []): void {
+    this.db.run(sql, params);
+    this.dirty = true;
+  }
+
+  /**
+   * Run a query and return its rows
+   */
+  private query(sql: string, params: BindParams = []): Record<string, unknown>[] {
+    this.refresh();
+    const statement = this.db.prepare(sql, params);
+    const rows: Record<string, unknown>[] = [];
+    try {
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+    } finally {
+      statement.free();
+    }
+    return rows;
+  }
+
+  withLock<T>(fn: () => T): T {
+    return this.lock.withLock(() => {
+      if (this.lockDepth > 0) {
+        this.lockDepth++;
+        try {
+          return fn();
+        } finally {
+          this.lockDepth--;
+        }
+      }
+
+      this.refresh();
+      this.db.run("BEGIN");
+      this.lockDepth = 1;
+      try {
+        const result = fn();
+        this.db.run("COMMIT");
+        if (this.dirty) {
+          this.flush();
+        }
+        return result;
+      } catch (error) {
+        this.db.run("ROLLBACK");
+        this.dirty = false;
+        throw error;
+      } finally {
+        this.lockDepth = 0;
+      }
+    });
+  }
+
+  listLoopIds(): string[] {
+    return this.query("SELECT id FROM loops ORDER BY id").map((row) => row.id as string);
+  }
+
+  getStateVersion(loopId: string): string | null {
+    const [row] = this.query("SELECT version FROM loops WHERE id = ?", [loopId]);
+    return row ? String(row.version) : null;
+  }
+
+  readState(loopId: string): RalphLoopState | null {
+    const [row] = this.query("SELECT state FROM loops WHERE id = ?", [loopId]);
+    if (!row) {
+      return null;
+    }
+    const state: RalphLoopState = JSON.parse(row.state as string);
+    state.history = this.readEntries("loop_id = ? AND archive_id IS NULL", [loopId]).entries;
+    return state;
+  }
+
+  writeState(state: RalphLoopState): void {
+    // History lives in its own table
+    this.withLock(() =>
+      this.execute(
+        `INSERT INTO loops (id, state) VALUES (?, ?)
+         ON CONFLICT (id) DO UPDATE SET state = excluded.state, version = loops.version + 1`,
+        [state.id, JSON.stringify({ ...state, history: [] })]
+      )
+    );
+  }
+
+  setStateAside(): string | undefined {
+    // The unreadable row is replaced by the rebuilt state
+    return undefined;
+  }
+
+  appendHistory(loopId: string, record: RalphHistoryRecord): void {
+    this.withLock(() => this.insertHistory(loopId, null, record));
+  }
+
+  /**
+   * Insert one history record and index its errors
+   */
+  private insertHistory(
+    loopId: string,
+    archiveId: string | null,
+    record: RalphHistoryRecord
+  ): void {
+    const isStart = "event" in record;
+    this.execute(
+      "INSERT INTO history (loop_id, archive_id, iteration, timestamp, record) VALUES (?, ?, ?, ?, ?)",
+      [
+        loopId,
+        archiveId,
+        isStart ? null : record.iteration,
+        isStart ? record.state.startedAt : record.timestamp,
+        JSON.stringify(record),
+      ]
+    );
+
+    if (!isStart && record.errors?.length) {
+      const [{ seq }] = this.query("SELECT last_insert_rowid() AS seq");
+      for (const error of record.errors) {
+        this.execute("INSERT INTO history_errors (history_seq, error) VALUES (?, ?)", [
+          seq as number,
+          error,
+        ]);
+      }
+    }
+  }
+
+  /**
+   * Read history records matching a condition, oldest first
+   */
+  private readEntries(where: string, params: BindParams): RalphHistoryLog {
+    const log: RalphHistoryLog = { start: null, entries: [], skippedLines: 0 };
+    for (const row of this.query(
+      `SELECT record FROM history WHERE ${where} ORDER BY seq`,
+      params
+    )) {
+      try {
+        const record = JSON.parse(row.record as string);
+        if (record.event === "loop_started") {
+          log.start = record as RalphHistoryStartRecord;
+        } else {
+          log.entries.push(record as RalphIterationHistoryEntry);
+        }
+      } catch {
+        log.skippedLines++;
+      }
+    }
+    return log;
+  }
+
+  readHistoryLog(loopId: string): RalphHistoryLog | null {
+    const log = this.readEntries("loop_id = ? AND archive_id IS NULL", [loopId]);
+    return log.start || log.entries.length > 0 || log.skippedLines > 0 ? log : null;
+  }
+
+  /**
+   * Store an archive record; its history is kept in the history table
+   */
+  private insertArchive(archived: RalphArchivedLoop): void {
+    this.execute(
+      "INSERT INTO archives (archive_id, loop_id, outcome, ended_at, record) VALUES (?, ?, ?, ?, ?)",
+      [
+        archived.archiveId,
+        archived.state.id,
+        archived.outcome,
+        archived.endedAt,
+        JSON.stringify({ ...archived, state: { ...archived.state, history: [] } }),
+      ]
+    );
+  }
+
+  archiveLoop(archived: RalphArchivedLoop): void {
+    this.withLock(() => {
+      this.insertArchive(archived);
+      this.execute(
+        "UPDATE history SET archive_id = ? WHERE loop_id = ? AND archive_id IS NULL",
+        [archived.archiveId, archived.state.id]
+      );
+      this.execute("DELETE FROM loops WHERE id = ?", [archived.state.id]);
+    });
+  }
+
+  importArchived(archived: RalphArchivedLoop): void {
+    this.withLock(() => {
+      this.insertArchive(archived);
+      for (const entry of archived.state.history) {
+        this.insertHistory(archived.state.id, archived.archiveId, entry);
+      }
+    });
+  }
+
+  /**
+   * Rebuild an archived loop from its record and history rows
+   */
+  private toArchivedLoop(row: Record<string, unknown>): RalphArchivedLoop {
+    const archived: RalphArchivedLoop = JSON.parse(row.record as string);
+    archived.state.history = this.readEntries("archive_id = ?", [archived.archiveId]).entries;
+    return archived;
+  }
+
+  listArchived(): RalphArchivedLoop[] {
+    const archived: RalphArchivedLoop[] = [];
+    for (const row of this.query("SELECT archive_id, record FROM archives ORDER BY ended_at DESC")) {
+      try {
+        archived.push(this.toArchivedLoop(row));
+      } catch (error) {
+        console.error(`Failed to read archived loop ${row.archive_id}: ${error}`);
+      }
+    }
+    return archived;
+  }
+
+  getArchived(archiveId: string): RalphArchivedLoop | null {
+    const [row] = this.query("SELECT record FROM archives WHERE archive_id = ?", [archiveId]);
+    return row ? this.toArchivedLoop(row) : null;
+  }
+
+  queryHistory(query: RalphHistoryQuery): RalphHistoryMatch[] {
+    const conditions = ["iteration IS NOT NULL"];
+    const params: (string | number)[] = [];
+
+    if (query.loopId) {
+      conditions.push("loop_id = ?");
+      params.push(query.loopId);
+    }
+    if (!query.includeArchived) {
+      conditions.push("archive_id IS NULL");
+    }
+    if (query.fromIteration !== undefined) {
+      conditions.push("iteration >= ?");
+      params.push(query.fromIteration);
+    }
+    if (query.toIteration !== undefined) {
+      conditions.push("iteration <= ?");
+      params.push(query.toIteration);
+    }
+    if (query.since) {
+      conditions.push("timestamp >= ?");
+      params.push(query.since);
+    }
+    if (query.until) {
+      conditions.push("timestamp <= ?");
+      params.push(query.until);
+    }
+
+    const words = query.errorText ? tokenizeText(query.errorText) : [];
+    if (words.length > 0) {
+      // Phrase query over the full-text index; tokens contain no quotes
+      conditions.push("seq IN (SELECT history_seq FROM history_errors WHERE error MATCH ?)");
+      params.push(`"${words.join(" ")}"`);
+    }
+
+    // Filters on unindexed fields run on the rows read, so the limit must too
+    const filterRows = hasUnindexedFilters(query);
+    const matchEntry = createEntryMatcher(query);
+
+    let sql = `SELECT loop_id, archive_id, record FROM history WHERE ${conditions.join(
+      " AND "
+    )} ORDER BY timestamp, seq`;
+    if (query.limit !== undefined && !filterRows) {
+      sql += " LIMIT ?";
+      params.push(query.limit);
+    }
+
+    const matches: RalphHistoryMatch[] = [];
+    for (const row of this.query(sql, params)) {
+      let entry: RalphIterationHistoryEntry;
+      try {
+        entry = JSON.parse(row.record as string);
+      } catch {
+        continue; // Skip unreadable records
+      }
+      if (filterRows && !matchEntry(entry)) continue;
+
+      matches.push({
+        loopId: row.loop_id as string,
+        archiveId: (row.archive_id as string | null) ?? undefined,
+        entry,
+      });
+      if (query.limit !== undefined && matches.length >= query.limit) break;
+    }
+    return matches;
+  }
+}
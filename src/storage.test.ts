@@ -0,0 +1,284 @@
+/**
+ * Storage Tests for Ralph Wiggum MCP Server
+ *
+ * Runs the same checks against the file and database backends, plus the
+ * migration from files to the database.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, unlinkSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { RalphLoopManager } from "./ralph.js";
+import { FileStorage, RalphStorage, importLegacyState, migrateStorage } from "./storage.js";
+import { SqliteStorage } from "./sqlite-storage.js";
+
+const backends: [string, (dir: string) => Promise<RalphStorage>][] = [
+  ["file", async (dir) => new FileStorage(join(dir, "loops"))],
+  ["sqlite", (dir) => SqliteStorage.open(join(dir, "loops.db"))],
+];
+
+describe.each(backends)("%s storage", (_name, open) => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ralph-storage-test-"));
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should persist loops, history and archives", async () => {
+    const manager = new RalphLoopManager(await open(dir));
+    manager.startLoop("Fix the build", { loopId: "a", maxIterations: 5 });
+    manager.processIteration("first", { errors: ["TS2304: Cannot find name 'foo'"] }, "a");
+    manager.startLoop("Write docs", { loopId: "b" });
+    manager.processIteration("docs", {}, "b");
+    const archived = manager.cancelLoop("b");
+
+    const reopened = new RalphLoopManager(await open(dir));
+    expect(reopened.listLoops().map((loop) => loop.id)).toEqual(["a"]);
+    expect(reopened.getState("a")?.iteration).toBe(2);
+    expect(reopened.getHistory("a").map((entry) => entry.output)).toEqual(["first"]);
+    expect(reopened.getArchivedLoop(archived!.archiveId)?.state.history).toHaveLength(1);
+    expect(reopened.listArchivedLoops({ outcome: "cancelled" })).toHaveLength(1);
+  });
+
+  it("should query history by loop, iteration, error text and time range", async () => {
+    jest.useFakeTimers({ now: new Date("2026-03-01T10:00:00Z") });
+    const manager = new RalphLoopManager(await open(dir));
+    manager.startLoop("Fix the build", { loopId: "a" });
+    manager.processIteration("one", { errors: ["TypeError: Cannot read properties of undefined"] }, "a");
+    jest.advanceTimersByTime(60_000);
+    manager.processIteration("two", { errors: ["Error: Cannot find module './db'"] }, "a");
+    jest.advanceTimersByTime(60_000);
+    manager.processIteration("three", {}, "a");
+
+    manager.startLoop("Old work", { loopId: "b" });
+    manager.processIteration("archived", { errors: ["Cannot find module 'left-pad'"] }, "b");
+    manager.cancelLoop("b");
+
+    const iterations = (query: Parameters<RalphLoopManager["queryHistory"]>[0]) =>
+      manager.queryHistory(query).map((match) => `${match.loopId}:${match.entry.iteration}`);
+
+    expect(iterations({ loopId: "a" })).toEqual(["a:1", "a:2", "a:3"]);
+    expect(iterations({ loopId: "a", fromIteration: 2, toIteration: 2 })).toEqual(["a:2"]);
+    expect(iterations({ errorText: "find MODULE" })).toEqual(["a:2"]);
+    expect(iterations({ errorText: "find module", includeArchived: true })).toEqual(["a:2", "b:1"]);
+    expect(iterations({ errorText: "module find" })).toEqual([]);
+    expect(iterations({ since: "2026-03-01T10:00:30Z", until: "2026-03-01T10:01:30Z" })).toEqual(["a:2"]);
+    expect(iterations({ includeArchived: true, limit: 2 })).toEqual(["a:1", "a:2"]);
+    expect(manager.queryHistory({ loopId: "b", includeArchived: true })[0].archiveId).toMatch(/^b-/);
+  });
+
+  it("should filter by files, commands, errors, tools and completion", async () => {
+    const manager = new RalphLoopManager(await open(dir));
+    const jest_ = (exitCode: number) => ({ name: "jest", command: "npm test", exitCode, output: "", duration: 1 });
+    manager.startLoop("Fix auth", { loopId: "a" });
+    manager.processIteration("one", {
+      filesModified: ["src/auth.ts", "README.md"],
+      commandsRun: ["npm run build"],
+      errors: ["TypeError: Cannot read properties of undefined (reading 'token')"],
+      externalToolsRun: [jest_(1)],
+    }, "a");
+    manager.processIteration("two", {
+      filesModified: ["src/auth/session.test.ts"],
+      commandsRun: ["npx jest auth"],
+      externalToolsRun: [jest_(0)],
+    }, "a");
+    manager.startLoop("Done", { loopId: "b", completionPromise: "DONE" });
+    manager.processIteration("<promise>DONE</promise>", { filesModified: ["lib/auth.ts"] }, "b");
+
+    const iterations = (query: Parameters<RalphLoopManager["queryHistory"]>[0]) =>
+      manager
+        .queryHistory({ includeArchived: true, ...query })
+        .map((match) => `${match.loopId}:${match.entry.iteration}`);
+
+    expect(iterations({ file: "src/auth.ts" })).toEqual(["a:1"]);
+    expect(iterations({ file: "auth.ts" })).toEqual(["a:1", "b:1"]);
+    expect(iterations({ file: "src/**/*.ts" })).toEqual(["a:1", "a:2"]);
+    expect(iterations({ file: "*.test.ts" })).toEqual(["a:2"]);
+    expect(iterations({ command: "JEST" })).toEqual(["a:2"]);
+    expect(iterations({ errorSubstring: "reading 'tok" })).toEqual(["a:1"]);
+    expect(iterations({ errorPattern: "^TypeError: .*undefined" })).toEqual(["a:1"]);
+    expect(iterations({ tool: "jest", toolStatus: "failed" })).toEqual(["a:1"]);
+    expect(iterations({ toolStatus: "passed" })).toEqual(["a:2"]);
+    expect(iterations({ completionDetected: true })).toEqual(["b:1"]);
+    expect(iterations({ file: "*.ts", limit: 1 })).toEqual(["a:1"]);
+    expect(iterations({ file: "*.ts", includeArchived: false })).toEqual(["a:1", "a:2"]);
+    expect(() => iterations({ errorPattern: "(" })).toThrow("Invalid error pattern");
+  });
+
+  it("should share loops between managers on the same storage", async () => {
+    const first = new RalphLoopManager(await open(dir));
+    const second = new RalphLoopManager(await open(dir));
+
+    first.startLoop("Fix the build", { loopId: "a" });
+    second.processIteration("work", {}, "a");
+
+    expect(first.getState("a")?.iteration).toBe(2);
+    expect(() => first.processIteration("stale", {}, "a", 1)).toThrow("Conflict");
+  });
+});
+
+describe("Storage migration", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ralph-migrate-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should import file loops, archives and a legacy state file into the database", async () => {
+    const files = new RalphLoopManager(join(dir, "loops"));
+    files.startLoop("Fix the build", { loopId: "a" });
+    files.processIteration("first", { errors: ["Cannot find module './db'"] }, "a");
+    files.startLoop("Write docs", { loopId: "b" });
+    files.processIteration("docs", {}, "b");
+    files.cancelLoop("b");
+
+    const legacyFile = join(dir, "ralph-loop-state.json");
+    writeFileSync(
+      legacyFile,
+      JSON.stringify({
+        active: true,
+        iteration: 2,
+        maxIterations: 0,
+        completionPromise: null,
+        startedAt: "2025-01-01T00:00:00.000Z",
+        prompt: "Legacy loop",
+        history: [{ iteration: 1, timestamp: "2025-01-01T00:01:00.000Z", output: "old", completionDetected: false }],
+        gitEnabled: true,
+        autoCommit: false,
+      })
+    );
+
+    const database = await SqliteStorage.open(join(dir, "loops.db"));
+    const report = migrateStorage(new FileStorage(join(dir, "loops")), database, legacyFile);
+    expect(report).toEqual({ loops: 2, iterations: 3, archives: 1, skipped: [] });
+
+    const manager = new RalphLoopManager(database);
+    expect(manager.listLoops().map((loop) => loop.id).sort()).toEqual(["a", "default"]);
+    expect(manager.getHistory("default")[0].output).toBe("old");
+    expect(manager.queryHistory({ errorText: "find module" })).toHaveLength(1);
+    expect(manager.listArchivedLoops()[0].state.history).toHaveLength(1);
+
+    manager.processIteration("second", {}, "a");
+    expect(manager.getState("a")?.iteration).toBe(3);
+
+    const rerun = migrateStorage(new FileStorage(join(dir, "loops")), database, legacyFile);
+    expect(rerun.loops + rerun.archives).toBe(0);
+    expect(rerun.skipped).toHaveLength(3);
+  });
+
+  it("should import an active legacy state file when file storage opens", () => {
+    const legacyFile = join(dir, "ralph-loop-state.json");
+    const legacy = {
+      active: true,
+      iteration: 2,
+      maxIterations: 0,
+      completionPromise: null,
+      startedAt: "2025-01-01T00:00:00.000Z",
+      prompt: "Legacy loop",
+      history: [{ iteration: 1, timestamp: "2025-01-01T00:01:00.000Z", output: "old", completionDetected: false }],
+      gitEnabled: false,
+      autoCommit: false,
+    };
+    writeFileSync(legacyFile, JSON.stringify(legacy));
+
+    const storage = new FileStorage(join(dir, "loops"));
+    expect(importLegacyState(storage, legacyFile)).toContain('as loop "default"');
+    expect(existsSync(legacyFile)).toBe(false);
+    expect(importLegacyState(storage, legacyFile)).toBeNull();
+
+    const manager = new RalphLoopManager(storage);
+    expect(manager.getState("default")).toMatchObject({ iteration: 2, prompt: "Legacy loop" });
+    expect(manager.getHistory("default")[0].output).toBe("old");
+
+    // A second legacy loop is not imported over the first
+    writeFileSync(legacyFile, JSON.stringify(legacy));
+    expect(importLegacyState(storage, legacyFile)).toContain('loop "default" already exists');
+    expect(existsSync(legacyFile)).toBe(true);
+  });
+});
+
+describe("History rotation and compaction", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ralph-rotation-test-"));
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const runIterations = (manager: RalphLoopManager, count: number) => {
+    for (let i = 1; i <= count; i++) {
+      manager.processIteration(`iteration ${i} ${"detail ".repeat(100)}`, {
+        errors: i <= 3 ? ["ReferenceError: bar is not defined"] : [],
+      }, "a");
+    }
+  };
+
+  it("should rotate logs by size and keep reports working across segments", () => {
+    const storage = new FileStorage(join(dir, "loops"), { maxBytes: 4000, gzip: true });
+    const manager = new RalphLoopManager(storage, { fullHistoryEntries: 20 });
+    manager.startLoop("Fix the build", { loopId: "a" });
+    runIterations(manager, 30);
+
+    const files = readdirSync(join(dir, "loops", "a"));
+    expect(files.filter((file) => /^history\.\d+\.jsonl\.gz$/.test(file)).length).toBeGreaterThan(1);
+    expect(files).not.toContain("history.1.jsonl");
+    expect(storage.readHistoryLog("a")?.entries).toHaveLength(30);
+
+    // Older entries are summaries in the state file, recent ones are kept in full
+    const saved = JSON.parse(readFileSync(join(dir, "loops", "a", "state.json"), "utf-8"));
+    expect(saved.history).toHaveLength(30);
+    expect(saved.history[9].compacted).toBe(true);
+    expect(saved.history[9].output.length).toBeLessThan(210);
+    expect(saved.history[10].compacted).toBeUndefined();
+
+    const report = manager.getHistoryReport("a");
+    expect(report).toContain("Total iterations: 30");
+    expect(manager.getHistory("a")[0].output).toContain("detail ".repeat(100));
+    expect(manager.getStatus("a")).toContain("Same error(s) repeating");
+
+    // The whole log, including compressed segments, rebuilds a lost state
+    unlinkSync(join(dir, "loops", "a", "state.json"));
+    const recovered = new RalphLoopManager(new FileStorage(join(dir, "loops")));
+    expect(recovered.getState("a")?.iteration).toBe(31);
+    expect(recovered.getHistory("a")).toHaveLength(30);
+
+    const archived = recovered.cancelLoop("a")!;
+    expect(archived.state.history[0].compacted).toBeUndefined();
+    expect(archived.state.history).toHaveLength(30);
+    expect(readdirSync(join(dir, "loops", "_archive")).some((file) => file.endsWith(".gz"))).toBe(true);
+    expect(existsSync(join(dir, "loops", "a"))).toBe(false);
+  });
+
+  it("should rotate logs by age", () => {
+    jest.useFakeTimers({ now: new Date("2026-03-01T10:00:00Z") });
+    const storage = new FileStorage(join(dir, "loops"), { maxAgeMs: 24 * 60 * 60 * 1000 });
+    const manager = new RalphLoopManager(storage);
+    manager.startLoop("Fix the build", { loopId: "a" });
+    manager.processIteration("first", {}, "a");
+
+    jest.advanceTimersByTime(2 * 24 * 60 * 60 * 1000);
+    manager.processIteration("second", {}, "a");
+
+    expect(existsSync(join(dir, "loops", "a", "history.1.jsonl"))).toBe(true);
+    expect(readFileSync(join(dir, "loops", "a", "history.jsonl"), "utf-8").split("\n")).toHaveLength(2);
+    expect(manager.getHistory("a").map((entry) => entry.output)).toEqual(["first", "second"]);
+  });
+});
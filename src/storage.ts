@@ -0,0 +1,780 @@
+/**
+ * Storage Backends for Ralph Wiggum Loops
+ *
+ * Persistence for loop state, history logs and archived loops behind one
+ * interface. The file backend keeps the original layout:
+ *
+ *   <stateDir>/<loopId>/state.json      live state
+ *   <stateDir>/<loopId>/history.jsonl   append-only history log
+ *   <stateDir>/<loopId>/history.<n>.jsonl[.gz]  rotated history segments
+ *   <stateDir>/_archive/<archiveId>.json, <archiveId>.history*.jsonl
+ *   <stateDir>/_blobs/                  full outputs and artifacts (see blobs.ts)
+ *   <stateDir>/_lessons.json            resolved errors (see lessons.ts)
+ *
+ * The embedded database backend lives in sqlite-storage.ts.
+ */
+
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  readSync,
+  renameSync,
+  rmSync,
+  statSync,
+  unlinkSync,
+} from "fs";
+import { join } from "path";
+import { gunzipSync, gzipSync } from "zlib";
+import { BlobStore } from "./blobs.js";
+import { LessonsStore } from "./lessons.js";
+import { FileLock, writeFileAtomic } from "./locking.js";
+import type {
+  RalphArchivedLoop,
+  RalphHistoryStartRecord,
+  RalphIterationHistoryEntry,
+  RalphLoopState,
+} from "./ralph.js";
+
+export type RalphHistoryRecord = RalphIterationHistoryEntry | RalphHistoryStartRecord;
+
+export interface RalphHistoryLog {
+  start: RalphHistoryStartRecord | null;
+  entries: RalphIterationHistoryEntry[];
+  skippedLines: number; // records that could not be parsed
+}
+
+/**
+ * When the file backend starts a new history segment. Rotation is off
+ * unless a size or age limit is set.
+ */
+export interface RalphHistoryRotation {
+  maxBytes?: number; // rotate once the active log reaches this size
+  maxAgeMs?: number; // rotate once the active log's first record is this old
+  gzip?: boolean; // compress rotated segments
+}
+
+export interface RalphHistoryQuery {
+  loopId?: string;
+  fromIteration?: number;
+  toIteration?: number;
+  errorText?: string; // words that must appear, in order, in one of the iteration's errors
+  errorSubstring?: string; // case-insensitive
+  errorPattern?: string; // regular expression, case-insensitive
+  file?: string; // path or glob (*, **, ?) of a modified file; globs without "/" match file names
+  command?: string; // case-insensitive substring of a command run
+  tool?: string; // external tool name
+  toolStatus?: "passed" | "failed"; // with `tool`, status of that tool; otherwise of any tool
+  completionDetected?: boolean;
+  since?: string; // ISO timestamp, inclusive
+  until?: string; // ISO timestamp, inclusive
+  includeArchived?: boolean;
+  limit?: number;
+}
+
+/**
+ * Where an iteration matched a query, for highlighting
+ */
+export interface RalphHistoryHighlight {
+  field: "file" | "command" | "error" | "tool";
+  text: string;
+  start: number; // matched range within text
+  end: number;
+}
+
+export interface RalphHistoryMatch {
+  loopId: string;
+  archiveId?: string; // set for iterations of archived loops
+  entry: RalphIterationHistoryEntry;
+}
+
+/**
+ * Persistence used by RalphLoopManager. Methods throw on I/O errors; the
+ * manager decides which failures are fatal.
+ */
+export interface RalphStorage {
+  readonly description: string;
+  /** Files and directories the storage writes to, which git operations leave alone */
+  readonly paths: string[];
+  /** Full outputs, tool logs and artifacts referenced from history entries */
+  readonly blobs: BlobStore;
+  /** How errors were resolved, shared by all loops */
+  readonly lessons: LessonsStore;
+
+  /** Run a function while holding the cross-process lock (re-entrant) */
+  withLock<T>(fn: () => T): T;
+
+  /** IDs of all live loops, including ones whose state cannot be read */
+  listLoopIds(): string[];
+  /** Opaque version of a loop's stored state, to skip unchanged reloads */
+  getStateVersion(loopId: string): string | null;
+  /** Read a loop's state (null if missing; throws if unreadable) */
+  readState(loopId: string): RalphLoopState | null;
+  writeState(state: RalphLoopState): void;
+  /** Move an unreadable state out of the way, returning where it was kept */
+  setStateAside(loopId: string): string | undefined;
+
+  appendHistory(loopId: string, record: RalphHistoryRecord): void;
+  readHistoryLog(loopId: string): RalphHistoryLog | null;
+
+  /** Store a finished loop and remove its live state and history */
+  archiveLoop(archived: RalphArchivedLoop): void;
+  /** Store an archived loop without touching live loops (used by migration) */
+  importArchived(archived: RalphArchivedLoop): void;
+  listArchived(): RalphArchivedLoop[];
+  getArchived(archiveId: string): RalphArchivedLoop | null;
+
+  queryHistory(query: RalphHistoryQuery): RalphHistoryMatch[];
+}
+
+/**
+ * Split text into lowercase words, the way error text is searched
+ */
+export function tokenizeText(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((word) => word);
+}
+
+const MAX_ERROR_PATTERN_LENGTH = 200;
+
+/**
+ * Convert a file glob to a regular expression: `**` crosses directories,
+ * `*` and `?` do not
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*" && glob[i + 2] === "/") {
+      source += "(?:.*/)?"; // any number of directories, including none
+      i += 2;
+    } else if (char === "*" && glob[i + 1] === "*") {
+      source += ".*";
+      i++;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Build a matcher for a file path or glob, returning the matched range
+ */
+function createFileMatcher(pattern: string): (file: string) => [number, number] | null {
+  const normalized = pattern.replace(/^\.\//, "");
+  if (!/[*?]/.test(normalized)) {
+    // Plain path: the file itself, or a path ending in it
+    return (file) =>
+      file === normalized || file.endsWith(`/${normalized}`)
+        ? [file.length - normalized.length, file.length]
+        : null;
+  }
+
+  const regex = globToRegExp(normalized);
+  const matchName = !normalized.includes("/");
+  return (file) => {
+    const nameStart = matchName ? file.lastIndexOf("/") + 1 : 0;
+    return regex.test(file.substring(nameStart)) ? [nameStart, file.length] : null;
+  };
+}
+
+/**
+ * Build a matcher for an iteration, validating the query's patterns
+ * (SECURE: error patterns are length-limited, as they come from clients)
+ *
+ * @returns A function giving the highlights of a matching entry, or null
+ *   if the entry does not match
+ */
+export function createEntryMatcher(
+  query: RalphHistoryQuery
+): (entry: RalphIterationHistoryEntry) => RalphHistoryHighlight[] | null {
+  const errorMatchers: ((error: string) => [number, number] | null)[] = [];
+
+  const words = query.errorText ? tokenizeText(query.errorText) : [];
+  if (words.length > 0) {
+    // Tokens contain only letters and digits, so need no escaping
+    const phrase = new RegExp(
+      `(?<![\\p{L}\\p{N}])${words.join("[^\\p{L}\\p{N}]+")}(?![\\p{L}\\p{N}])`,
+      "iu"
+    );
+    errorMatchers.push((error) => {
+      const match = phrase.exec(error);
+      return match ? [match.index, match.index + match[0].length] : null;
+    });
+  }
+
+  if (query.errorSubstring) {
+    const needle = query.errorSubstring.toLowerCase();
+    errorMatchers.push((error) => {
+      const index = error.toLowerCase().indexOf(needle);
+      return index >= 0 ? [index, index + needle.length] : null;
+    });
+  }
+
+  if (query.errorPattern) {
+    if (query.errorPattern.length > MAX_ERROR_PATTERN_LENGTH) {
+      throw new Error(`Error pattern is too long (max ${MAX_ERROR_PATTERN_LENGTH} characters)`);
+    }
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(query.errorPattern, "i");
+    } catch (error) {
+      throw new Error(`Invalid error pattern: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    errorMatchers.push((error) => {
+      const match = pattern.exec(error);
+      return match ? [match.index, match.index + match[0].length] : null;
+    });
+  }
+
+  const fileMatcher = query.file ? createFileMatcher(query.file) : null;
+  const command = query.command?.toLowerCase();
+  const toolName = query.tool?.toLowerCase();
+
+  return (entry) => {
+    if (query.fromIteration !== undefined && entry.iteration < query.fromIteration) return null;
+    if (query.toIteration !== undefined && entry.iteration > query.toIteration) return null;
+    if (query.since && entry.timestamp < query.since) return null;
+    if (query.until && entry.timestamp > query.until) return null;
+    if (
+      query.completionDetected !== undefined &&
+      entry.completionDetected !== query.completionDetected
+    ) {
+      return null;
+    }
+
+    const highlights: RalphHistoryHighlight[] = [];
+
+    // Every error filter must match at least one error
+    for (const matcher of errorMatchers) {
+      let found = false;
+      for (const error of entry.errors || []) {
+        const range = matcher(error);
+        if (range) {
+          highlights.push({ field: "error", text: error, start: range[0], end: range[1] });
+          found = true;
+        }
+      }
+      if (!found) return null;
+    }
+
+    if (fileMatcher) {
+      let found = false;
+      for (const file of entry.filesModified || []) {
+        const range = fileMatcher(file);
+        if (range) {
+          highlights.push({ field: "file", text: file, start: range[0], end: range[1] });
+          found = true;
+        }
+      }
+      if (!found) return null;
+    }
+
+    if (command) {
+      let found = false;
+      for (const run of entry.commandsRun || []) {
+        const index = run.toLowerCase().indexOf(command);
+        if (index >= 0) {
+          highlights.push({ field: "command", text: run, start: index, end: index + command.length });
+          found = true;
+        }
+      }
+      if (!found) return null;
+    }
+
+    if (toolName || query.toolStatus) {
+      let found = false;
+      for (const tool of entry.externalToolsRun || []) {
+        if (toolName && tool.name.toLowerCase() !== toolName) continue;
+        if (query.toolStatus && (tool.exitCode === 0) !== (query.toolStatus === "passed")) continue;
+        const text = `${tool.name} ${tool.exitCode === 0 ? "passed" : "failed"} (exit code ${tool.exitCode})`;
+        highlights.push({ field: "tool", text, start: 0, end: tool.name.length });
+        found = true;
+      }
+      if (!found) return null;
+    }
+
+    return highlights;
+  };
+}
+
+/**
+ * Check whether a query filters on fields the database backend does not
+ * index, so results must be filtered after reading
+ */
+export function hasUnindexedFilters(query: RalphHistoryQuery): boolean {
+  return (
+    query.errorSubstring !== undefined ||
+    query.errorPattern !== undefined ||
+    query.file !== undefined ||
+    query.command !== undefined ||
+    query.tool !== undefined ||
+    query.toolStatus !== undefined ||
+    query.completionDetected !== undefined
+  );
+}
+
+const SEGMENT_PATTERN = /^history\.(\d+)\.jsonl(\.gz)?$/;
+
+/**
+ * File storage: JSON state files and JSONL history logs, rotated into
+ * numbered segments once they grow too large or too old
+ */
+export class FileStorage implements RalphStorage {
+  readonly description: string;
+  readonly paths: string[];
+  readonly blobs: BlobStore;
+  readonly lessons: LessonsStore;
+  private stateDir: string;
+  private lock: FileLock;
+  private rotation: RalphHistoryRotation;
+
+  constructor(stateDir: string, rotation: RalphHistoryRotation = {}) {
+    this.stateDir = stateDir;
+    this.description = `files in ${stateDir}`;
+    this.paths = [stateDir];
+    this.lock = new FileLock(join(stateDir, ".lock"));
+    this.blobs = new BlobStore(join(stateDir, "_blobs"));
+    this.lessons = new LessonsStore(join(stateDir, "_lessons.json"));
+    this.rotation = rotation;
+  }
+
+  /**
+   * Get the state file path for a loop
+   */
+  private getStateFilePath(loopId: string): string {
+    return join(this.stateDir, loopId, "state.json");
+  }
+
+  /**
+   * Get the history log path for a loop
+   */
+  private getHistoryFilePath(loopId: string): string {
+    return join(this.stateDir, loopId, "history.jsonl");
+  }
+
+  /**
+   * Get the archive directory. Loop IDs must start with a letter or digit,
+   * so the leading underscore keeps it (and `_blobs`) from clashing with a
+   * loop directory.
+   */
+  private getArchiveDir(): string {
+    return join(this.stateDir, "_archive");
+  }
+
+  withLock<T>(fn: () => T): T {
+    return this.lock.withLock(fn);
+  }
+
+  listLoopIds(): string[] {
+    if (!existsSync(this.stateDir)) {
+      return [];
+    }
+    return readdirSync(this.stateDir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && !entry.name.startsWith("_"))
+      .map((entry) => entry.name);
+  }
+
+  getStateVersion(loopId: string): string | null {
+    try {
+      const stats = statSync(this.getStateFilePath(loopId));
+      return `${stats.ino}:${stats.size}:${stats.mtimeMs}`;
+    } catch {
+      return null;
+    }
+  }
+
+  readState(loopId: string): RalphLoopState | null {
+    const stateFilePath = this.getStateFilePath(loopId);
+    if (!existsSync(stateFilePath)) {
+      return null;
+    }
+    return JSON.parse(readFileSync(stateFilePath, "utf-8"));
+  }
+
+  writeState(state: RalphLoopState): void {
+    // Atomic, so other processes never read a partial file
+    writeFileAtomic(this.getStateFilePath(state.id), JSON.stringify(state, null, 2));
+  }
+
+  setStateAside(loopId: string): string | undefined {
+    const stateFilePath = this.getStateFilePath(loopId);
+    if (!existsSync(stateFilePath)) {
+      return undefined;
+    }
+    const corruptStateFile = `${stateFilePath}.corrupt-${Date.now()}`;
+    renameSync(stateFilePath, corruptStateFile);
+    return corruptStateFile;
+  }
+
+  appendHistory(loopId: string, record: RalphHistoryRecord): void {
+    const historyFilePath = this.getHistoryFilePath(loopId);
+    const dir = join(this.stateDir, loopId);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    this.rotateHistory(loopId);
+
+    // Append as JSONL (one JSON object per line)
+    appendFileSync(historyFilePath, JSON.stringify(record) + "\n");
+  }
+
+  /**
+   * Start a new history segment if the active log exceeds the size or age
+   * limit. The log is renamed before it is compressed, and a compressed
+   * segment is written atomically, so a crash never loses records.
+   */
+  private rotateHistory(loopId: string): void {
+    const { maxBytes, maxAgeMs, gzip } = this.rotation;
+    if (!maxBytes && !maxAgeMs) {
+      return;
+    }
+
+    const historyFilePath = this.getHistoryFilePath(loopId);
+    let size: number;
+    try {
+      size = statSync(historyFilePath).size;
+    } catch {
+      return;
+    }
+    if (size === 0) {
+      return;
+    }
+
+    const tooLarge = maxBytes !== undefined && maxBytes > 0 && size >= maxBytes;
+    const tooOld =
+      maxAgeMs !== undefined &&
+      maxAgeMs > 0 &&
+      Date.now() - this.getFirstRecordTime(historyFilePath) >= maxAgeMs;
+    if (!tooLarge && !tooOld) {
+      return;
+    }
+
+    const segments = this.listSegments(loopId);
+    const number = (segments[segments.length - 1]?.number ?? 0) + 1;
+    const segmentPath = join(this.stateDir, loopId, `history.${number}.jsonl`);
+    renameSync(historyFilePath, segmentPath);
+
+    if (gzip) {
+      writeFileAtomic(`${segmentPath}.gz`, gzipSync(readFileSync(segmentPath)));
+      unlinkSync(segmentPath);
+    }
+  }
+
+  /**
+   * Time of the first record in a log (NaN if it cannot be read), read
+   * without loading the whole file
+   */
+  private getFirstRecordTime(path: string): number {
+    const buffer = Buffer.alloc(64 * 1024);
+    const fd = openSync(path, "r");
+    let length: number;
+    try {
+      length = readSync(fd, buffer, 0, buffer.length, 0);
+    } finally {
+      closeSync(fd);
+    }
+
+    try {
+      const firstLine = buffer.subarray(0, length).toString("utf-8").split("\n")[0];
+      const record = JSON.parse(firstLine);
+      return Date.parse(record.event === "loop_started" ? record.state.startedAt : record.timestamp);
+    } catch {
+      return NaN;
+    }
+  }
+
+  /**
+   * List rotated segments for a log prefix, oldest first. If a crash left a
+   * segment both plain and compressed, the compressed copy is complete.
+   */
+  private listSegments(loopId: string): { number: number; path: string }[] {
+    const dir = join(this.stateDir, loopId);
+    if (!existsSync(dir)) {
+      return [];
+    }
+
+    const segments = new Map<number, string>();
+    for (const file of readdirSync(dir)) {
+      const match = SEGMENT_PATTERN.exec(file);
+      if (!match) continue;
+      const number = Number(match[1]);
+      if (match[2] || !segments.has(number)) {
+        segments.set(number, join(dir, file));
+      }
+    }
+
+    return Array.from(segments.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([number, path]) => ({ number, path }));
+  }
+
+  readHistoryLog(loopId: string): RalphHistoryLog | null {
+    const paths = this.listSegments(loopId).map((segment) => segment.path);
+    const historyFilePath = this.getHistoryFilePath(loopId);
+    if (existsSync(historyFilePath)) {
+      paths.push(historyFilePath);
+    }
+    if (paths.length === 0) {
+      return null;
+    }
+
+    const log: RalphHistoryLog = { start: null, entries: [], skippedLines: 0 };
+    for (const path of paths) {
+      this.readHistoryFile(path, log);
+    }
+    return log;
+  }
+
+  /**
+   * Read one JSONL history segment into a log, skipping lines that cannot
+   * be parsed
+   */
+  private readHistoryFile(path: string, log: RalphHistoryLog): void {
+    const data = readFileSync(path);
+    const text = (path.endsWith(".gz") ? gunzipSync(data) : data).toString("utf-8");
+
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line);
+        if (record.event === "loop_started") {
+          log.start = record;
+        } else {
+          log.entries.push(record);
+        }
+      } catch {
+        log.skippedLines++;
+      }
+    }
+  }
+
+  archiveLoop(archived: RalphArchivedLoop): void {
+    const loopId = archived.state.id;
+    try {
+      this.importArchived(archived);
+
+      // Keep the raw JSONL log and its segments next to the archive so a
+      // reused loop ID starts fresh
+      for (const segment of this.listSegments(loopId)) {
+        renameSync(
+          segment.path,
+          join(
+            this.getArchiveDir(),
+            `${archived.archiveId}.history.${segment.number}.jsonl${segment.path.endsWith(".gz") ? ".gz" : ""}`
+          )
+        );
+      }
+      const historyFilePath = this.getHistoryFilePath(loopId);
+      if (existsSync(historyFilePath)) {
+        renameSync(
+          historyFilePath,
+          join(this.getArchiveDir(), `${archived.archiveId}.history.jsonl`)
+        );
+      }
+    } finally {
+      rmSync(join(this.stateDir, loopId), { recursive: true, force: true });
+    }
+  }
+
+  importArchived(archived: RalphArchivedLoop): void {
+    writeFileAtomic(
+      join(this.getArchiveDir(), `${archived.archiveId}.json`),
+      JSON.stringify(archived, null, 2)
+    );
+  }
+
+  listArchived(): RalphArchivedLoop[] {
+    const archiveDir = this.getArchiveDir();
+    if (!existsSync(archiveDir)) {
+      return [];
+    }
+
+    const archived: RalphArchivedLoop[] = [];
+    for (const file of readdirSync(archiveDir)) {
+      if (!file.endsWith(".json")) continue;
+
+      try {
+        archived.push(JSON.parse(readFileSync(join(archiveDir, file), "utf-8")));
+      } catch (error) {
+        console.error(`Failed to read archived loop ${file}: ${error}`);
+      }
+    }
+    return archived;
+  }
+
+  getArchived(archiveId: string): RalphArchivedLoop | null {
+    const archivePath = join(this.getArchiveDir(), `${archiveId}.json`);
+    if (!existsSync(archivePath)) {
+      return null;
+    }
+    return JSON.parse(readFileSync(archivePath, "utf-8"));
+  }
+
+  /**
+   * Search history by scanning every log (no index; use the database backend
+   * for large histories)
+   */
+  queryHistory(query: RalphHistoryQuery): RalphHistoryMatch[] {
+    const matchEntry = createEntryMatcher(query);
+    const matches: RalphHistoryMatch[] = [];
+
+    for (const loopId of this.listLoopIds()) {
+      if (query.loopId && loopId !== query.loopId) continue;
+      for (const entry of this.readHistoryLog(loopId)?.entries || []) {
+        if (matchEntry(entry)) {
+          matches.push({ loopId, entry });
+        }
+      }
+    }
+
+    if (query.includeArchived) {
+      for (const archived of this.listArchived()) {
+        const loopId = archived.state.id;
+        if (query.loopId && loopId !== query.loopId) continue;
+        for (const entry of archived.state.history) {
+          if (matchEntry(entry)) {
+            matches.push({ loopId, archiveId: archived.archiveId, entry });
+          }
+        }
+      }
+    }
+
+    matches.sort((a, b) => a.entry.timestamp.localeCompare(b.entry.timestamp));
+    return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+  }
+}
+
+/**
+ * Write a loop's state and history log into a storage (the entries of the
+ * state itself when there is no log)
+ *
+ * @returns Number of history entries written
+ */
+function writeImportedLoop(target: RalphStorage, state: RalphLoopState, log: RalphHistoryLog | null): number {
+  target.writeState(state);
+  target.appendHistory(state.id, log?.start || {
+    event: "loop_started",
+    state: { ...state, history: [] },
+  });
+  const entries = log?.entries.length ? log.entries : state.history;
+  for (const entry of entries) {
+    target.appendHistory(state.id, entry);
+  }
+  return entries.length;
+}
+
+/**
+ * Import an active loop from the single-loop state file of version 2.x as
+ * loop `default`. The file is renamed to `<file>.imported` afterwards, so
+ * it is imported only once.
+ *
+ * @returns A message for the server log, or null if there was nothing to import
+ */
+export function importLegacyState(storage: RalphStorage, legacyStateFile: string): string | null {
+  if (!existsSync(legacyStateFile)) {
+    return null;
+  }
+
+  return storage.withLock(() => {
+    try {
+      const legacy = JSON.parse(readFileSync(legacyStateFile, "utf-8"));
+      if (!legacy.active) {
+        return null;
+      }
+      if (storage.listLoopIds().includes("default")) {
+        return `Not importing the active loop in ${legacyStateFile}: loop "default" already exists. Finish or cancel it, then restart the server.`;
+      }
+
+      writeImportedLoop(storage, { ...legacy, id: "default" }, null);
+      renameSync(legacyStateFile, `${legacyStateFile}.imported`);
+      return `Imported the active loop in ${legacyStateFile} as loop "default" (the file was renamed to ${legacyStateFile}.imported)`;
+    } catch (error) {
+      return `Failed to import ${legacyStateFile}: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  });
+}
+
+export interface RalphMigrationReport {
+  loops: number;
+  iterations: number;
+  archives: number;
+  skipped: string[]; // already present in the target, or unreadable
+}
+
+/**
+ * Copy live loops (state and history log) and archived loops from one
+ * storage into another. Loops and archives already in the target are
+ * skipped, so a migration can be re-run safely.
+ *
+ * @param legacyStateFile Optional single-loop state file from version 2.x
+ *   (`.REMOVED/ralph-loop-state.json`), imported as loop `default`
+ */
+export function migrateStorage(
+  source: RalphStorage,
+  target: RalphStorage,
+  legacyStateFile?: string
+): RalphMigrationReport {
+  const report: RalphMigrationReport = { loops: 0, iterations: 0, archives: 0, skipped: [] };
+
+  target.withLock(() => {
+    const existingLoops = new Set(target.listLoopIds());
+
+    const importLoop = (state: RalphLoopState, log: RalphHistoryLog | null) => {
+      if (existingLoops.has(state.id)) {
+        report.skipped.push(`loop ${state.id} (already in target)`);
+        return;
+      }
+      report.iterations += writeImportedLoop(target, state, log);
+      existingLoops.add(state.id);
+      report.loops++;
+    };
+
+    for (const loopId of source.listLoopIds()) {
+      try {
+        const state = source.readState(loopId);
+        if (!state) {
+          report.skipped.push(`loop ${loopId} (no state; run ralph_recover first)`);
+          continue;
+        }
+        importLoop({ ...state, id: loopId }, source.readHistoryLog(loopId));
+      } catch (error) {
+        report.skipped.push(`loop ${loopId} (${error instanceof Error ? error.message : String(error)})`);
+      }
+    }
+
+    if (legacyStateFile && existsSync(legacyStateFile)) {
+      try {
+        const legacy = JSON.parse(readFileSync(legacyStateFile, "utf-8"));
+        if (legacy.active) {
+          importLoop({ ...legacy, id: "default" }, null);
+        } else {
+          report.skipped.push(`${legacyStateFile} (loop not active)`);
+        }
+      } catch (error) {
+        report.skipped.push(`${legacyStateFile} (${error instanceof Error ? error.message : String(error)})`);
+      }
+    }
+
+    for (const archived of source.listArchived()) {
+      if (target.getArchived(archived.archiveId)) {
+        report.skipped.push(`archive ${archived.archiveId} (already in target)`);
+        continue;
+      }
+      target.importArchived(archived);
+      report.archives++;
+      report.iterations += archived.state.history.length;
+    }
+  });
+
+  return report;
+}
@@ -0,0 +1,115 @@
+/**
+ * Per-Test Results Tests for Ralph Wiggum MCP Server
+ */
+
+import { describe, it, expect, afterEach } from "@jest/globals";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { computeTestDelta, formatTestDelta, getFailedTests, getPassedTests, parseFailedTests } from "./test-results.js";
+import { ToolsManager } from "./tools.js";
+
+// What `jest --verbose` writes to stderr for one failing and one passing test
+const JEST_STDERR = [
+  "FAIL ./math.test.js",
+  "  Math",
+  "    ✕ adds numbers (4 ms)",
+  "    ✓ subtracts (1 ms)",
+  "",
+  "  ● Math › adds numbers",
+  "",
+  "    expect(received).toBe(expected) // Object.is equality",
+  "",
+  "Test Suites: 1 failed, 1 total",
+  "Tests:       1 failed, 1 passed, 2 total",
+  "Snapshots:   0 total",
+  "Time:        0.388 s",
+  "Ran all test suites.",
+  "",
+].join("\n");
+
+describe("Per-test results", () => {
+  let projectDir: string | undefined;
+
+  afterEach(() => {
+    if (projectDir) rmSync(projectDir, { recursive: true, force: true });
+    projectDir = undefined;
+  });
+
+  it("should extract failing test names from each runner's output", () => {
+    expect(
+      parseFailedTests(
+        [
+          "FAIL src/math.test.ts",
+          "  ● Math › adds numbers",
+          "  ● Math › divides by zero",
+          "Tests:       2 failed, 5 passed, 7 total",
+          "  ● Math › adds numbers",
+        ].join("\n")
+      )
+    ).toEqual(["Math › adds numbers", "Math › divides by zero"]);
+    expect(parseFailedTests(" FAIL  src/a.test.ts > parser > handles tabs 12ms")).toEqual([
+      "src/a.test.ts > parser > handles tabs",
+    ]);
+    expect(
+      parseFailedTests("tests/test_api.py::test_login FAILED [ 50%]\nFAILED tests/test_api.py::test_login - assert 1 == 2")
+    ).toEqual(["tests/test_api.py::test_login"]);
+    expect(parseFailedTests("test parser::tests::empty ... FAILED\ntest parser::tests::ok ... ok")).toEqual([
+      "parser::tests::empty",
+    ]);
+    expect(parseFailedTests("=== RUN   TestSum\n--- FAIL: TestSum (0.00s)\n    --- FAIL: TestSum/negative (0.00s)")).toEqual([
+      "TestSum",
+      "TestSum/negative",
+    ]);
+    expect(getPassedTests([{ name: "pytest", command: "python -m pytest -v", preset: "python-test", exitCode: 0, output: "tests/test_api.py::test_login PASSED [100%]", duration: 1 }])).toEqual(["tests/test_api.py::test_login"]);
+    expect(getPassedTests([{ name: "vitest", command: "npx vitest", exitCode: 0, output: " ✓ src/a.test.ts > parser > handles tabs 3ms", duration: 1 }])).toEqual(["src/a.test.ts > parser > handles tabs"]);
+
+    // Only test tools count; a failing run without test names is one failure
+    expect(getFailedTests([{ name: "eslint", command: "npx eslint", exitCode: 1, output: "", duration: 1 }])).toBeUndefined();
+    expect(
+      getFailedTests([{ name: "pytest", command: "python -m pytest", preset: "python-test", exitCode: 2, output: "ImportError", duration: 1 }])
+    ).toEqual(["pytest (exit code 2)"]);
+    expect(getFailedTests([{ name: "go-test", command: "go test", exitCode: 0, output: "ok", duration: 1 }])).toEqual([]);
+  });
+
+  it("should read failing and passing tests from npm test run through the tools manager", async () => {
+    // npm prints its banner on stdout while Jest reports on stderr
+    projectDir = mkdtempSync(join(tmpdir(), "ralph-npm-test-"));
+    writeFileSync(join(projectDir, "fake-jest.js"), `process.stderr.write(${JSON.stringify(JEST_STDERR)}), process.exit(1)`);
+    writeFileSync(
+      join(projectDir, "package.json"),
+      JSON.stringify({ name: "fixture", version: "1.0.0", scripts: { test: "node fake-jest.js" } })
+    );
+
+    const results = await new ToolsManager(projectDir).runPreset("javascript-test");
+    expect(results[0].exitCode).not.toBe(0);
+    expect(results[0].output).toContain("> node fake-jest.js");
+    expect(getFailedTests(results)).toEqual(["Math › adds numbers"]);
+    expect(getPassedTests(results)).toEqual(["subtracts"]);
+  });
+
+  it("should split failing tests into newly failing, newly passing and still failing", () => {
+    const delta = computeTestDelta(["a", "b", "S › c"], ["b", "d"], 6, ["a", "c"]);
+    expect(delta).toEqual({
+      since: 6,
+      newlyPassing: ["a", "S › c"],
+      newlyFailing: ["d"],
+      stillFailing: ["b"],
+      noLongerFailing: [],
+    });
+    expect(formatTestDelta(delta, 1)).toEqual([
+      "  🚨 Newly failing (1): d",
+      "  ✅ Newly passing (2): a, +1 more",
+      "  ❌ Still failing (1): b",
+    ]);
+  });
+
+  it("should not report tests that disappeared from the output as passing", () => {
+    // "c" was renamed to "e"; without a passing list nothing counts as fixed
+    const delta = computeTestDelta(["a", "c"], ["e"], 2, ["a"]);
+    expect(delta.newlyPassing).toEqual(["a"]);
+    expect(delta.noLongerFailing).toEqual(["c"]);
+    expect(formatTestDelta(delta)).toContain("  ❔ No longer failing, not seen passing (renamed, removed or not run) (1): c");
+    expect(computeTestDelta(["a"], [], 2).noLongerFailing).toEqual(["a"]);
+  });
+});
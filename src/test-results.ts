@@ -0,0 +1,148 @@
+/**
+ * Per-Test Results for Ralph Wiggum Loops
+ *
+ * Extracts the names of failing tests from test runner output (Jest, Vitest,
+ * pytest, cargo test, go test), so iterations can be compared test by test:
+ * which tests an iteration fixed, which it broke, and which still fail. A
+ * test that no longer fails counts as fixed only when the output shows it
+ * passing; otherwise it may have been renamed or removed.
+ */
+
+import type { ExternalToolResult } from "./ralph.js";
+import { getToolCategory } from "./progress.js";
+
+const MAX_TEST_NAMES = 200; // per list stored with an iteration
+
+/**
+ * How an iteration's failing tests differ from the last iteration that ran tests
+ */
+export interface RalphTestDelta {
+  since: number; // iteration compared with
+  newlyPassing: string[]; // failed then, pass now
+  newlyFailing: string[]; // regressions: did not fail then, fail now
+  stillFailing: string[];
+  noLongerFailing: string[]; // failed then, neither fail nor were seen passing now (renamed, removed or not run)
+}
+
+// One pattern per runner; the first group is the test name
+const FAILED_TEST_PATTERNS: RegExp[] = [
+  /^\s*● (.+ › .+)$/gm, // Jest: "● Suite › test"
+  /^\s*(?:FAIL|×|✕)\s+(\S+ > .+?)(?: \d+ms)?$/gm, // Vitest: "FAIL src/a.test.ts > suite > test"
+  /^FAILED (\S+::\S+)/gm, // pytest short summary
+  /^(\S+::\S+) FAILED\b/gm, // pytest -v
+  /^test (\S+) \.\.\. FAILED$/gm, // cargo test
+  /^\s*--- FAIL: (\S+)/gm, // go test
+];
+
+// Passing tests, where the runner lists them (Jest and Vitest only in verbose mode)
+const PASSED_TEST_PATTERNS: RegExp[] = [
+  /^\s*[✓√]\s+(\S+ > .+?)(?: \d+ms)?$/gm, // Vitest: "✓ src/a.test.ts > suite > test"
+  /^\s*[✓√] (?!\S+ > )(.+?)(?: \(\d+ ms\))?$/gm, // Jest: "✓ test (3 ms)", the test's own title only
+  /^(\S+::\S+) PASSED\b/gm, // pytest -v
+  /^test (\S+) \.\.\. ok$/gm, // cargo test
+  /^\s*--- PASS: (\S+)/gm, // go test
+];
+
+function matchNames(output: string, patterns: RegExp[]): string[] {
+  const names = new Set<string>();
+  for (const pattern of patterns) {
+    for (const match of output.matchAll(pattern)) {
+      names.add(match[1].trim());
+    }
+  }
+  return [...names].sort();
+}
+
+/**
+ * Extract the names of failing tests from a test runner's output
+ */
+export function parseFailedTests(output: string): string[] {
+  return matchNames(output, FAILED_TEST_PATTERNS);
+}
+
+/**
+ * Extract the names of passing tests from a test runner's output
+ */
+export function parsePassedTests(output: string): string[] {
+  return matchNames(output, PASSED_TEST_PATTERNS);
+}
+
+/**
+ * Get the failing tests of an iteration's test runs (undefined when no test
+ * tool ran). A failing run without recognizable test names counts as one
+ * failure named after the tool, so a broken run is never mistaken for a clean one.
+ */
+export function getFailedTests(tools: ExternalToolResult[] = []): string[] | undefined {
+  const testRuns = tools.filter((tool) => getToolCategory(tool) === "test");
+  if (testRuns.length === 0) {
+    return undefined;
+  }
+
+  const names = new Set<string>();
+  for (const tool of testRuns) {
+    const failed = parseFailedTests(tool.output);
+    if (failed.length === 0 && tool.exitCode !== 0) {
+      names.add(`${tool.name} (exit code ${tool.exitCode})`);
+    }
+    failed.forEach((name) => names.add(name));
+  }
+  return [...names].sort().slice(0, MAX_TEST_NAMES);
+}
+
+/**
+ * Get the passing tests listed in an iteration's test runs
+ */
+export function getPassedTests(tools: ExternalToolResult[] = []): string[] {
+  const names = new Set<string>();
+  for (const tool of tools.filter((t) => getToolCategory(t) === "test")) {
+    parsePassedTests(tool.output).forEach((name) => names.add(name));
+  }
+  return [...names].sort();
+}
+
+/**
+ * Compare an iteration's failing tests with those of an earlier iteration.
+ * A test that no longer fails is newly passing only if it is among the
+ * passing tests (Jest lists a passing test by its own title, without the
+ * suites before " › ").
+ */
+export function computeTestDelta(
+  previous: string[],
+  current: string[],
+  since: number,
+  passed: string[] = []
+): RalphTestDelta {
+  const before = new Set(previous);
+  const now = new Set(current);
+  const passing = new Set(passed);
+  const isPassing = (name: string) => passing.has(name) || passing.has(name.split(" › ").pop()!);
+  const fixed = previous.filter((name) => !now.has(name));
+  return {
+    since,
+    newlyPassing: fixed.filter(isPassing),
+    newlyFailing: current.filter((name) => !before.has(name)),
+    stillFailing: current.filter((name) => before.has(name)),
+    noLongerFailing: fixed.filter((name) => !isPassing(name)),
+  };
+}
+
+/**
+ * Format a delta as one line per change, e.g. "🚨 Newly failing (1): a.test.ts > adds"
+ */
+export function formatTestDelta(delta: RalphTestDelta, maxNames: number = 10): string[] {
+  const row = (label: string, names: string[]): string => {
+    const shown = names.slice(0, maxNames).join(", ");
+    const more = names.length > maxNames ? `, +${names.length - maxNames} more` : "";
+    return `  ${label} (${names.length}): ${names.length > 0 ? shown + more : "-"}`;
+  };
+  const rows = [
+    row("🚨 Newly failing", delta.newlyFailing),
+    row("✅ Newly passing", delta.newlyPassing),
+    row("❌ Still failing", delta.stillFailing),
+  ];
+  // Older history entries have no such list
+  if (delta.noLongerFailing?.length > 0) {
+    rows.push(row("❔ No longer failing, not seen passing (renamed, removed or not run)", delta.noLongerFailing));
+  }
+  return rows;
+}
@@ -0,0 +1,33 @@
+/**
+ * External Tools Tests for Ralph Wiggum MCP Server
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { ToolsManager } from "./tools.js";
+
+describe("ToolsManager.runTool", () => {
+  const tools = new ToolsManager();
+
+  it("should keep output beyond spawnSync's default buffer and the exit code", async () => {
+    // 2 MiB on stdout, well past spawnSync's 1 MiB default
+    const result = await tools.runTool({
+      name: "verbose",
+      command: "node",
+      args: ["-e", "process.stdout.write(Buffer.alloc(2097152, 120).toString())"],
+    });
+    expect(result.exitCode).toBe(0);
+    expect(result.output).toHaveLength(2097152);
+  });
+
+  it("should keep the output of a tool that timed out and count it as failed", async () => {
+    const result = await tools.runTool({
+      name: "slow",
+      command: "node",
+      args: ["-e", "console.log(42), setTimeout(Date.now, 10000)"],
+      timeout: 1000,
+    });
+    expect(result.exitCode).toBe(1);
+    expect(result.output).toContain("42");
+    expect(result.output).toContain("slow timed out after 1000ms");
+  });
+});
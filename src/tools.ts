@@ -7,7 +7,9 @@
 
 import { spawnSync } from "child_process";
 import { existsSync } from "fs";
-import { ExternalToolResult } from "./ralph.js";
+import { ExternalToolResult, RalphVerificationResult } from "./ralph.js";
+
+const MAX_TOOL_OUTPUT_BYTES = 64 * 1024 * 1024; // per stream; verbose test suites print a lot
 
 export interface ToolConfig {
   name: string;
@@ -174,15 +176,34 @@ export class ToolsManager {
       );
 
       // Use spawnSync with separate arguments to prevent shell injection
+      const timeout = config.timeout || 30000;
       const result = spawnSync(sanitizedCommand, sanitizedArgs, {
         cwd: config.cwd || this.workingDir,
         encoding: "utf-8",
         stdio: "pipe",
-        timeout: config.timeout || 30000,
+        timeout,
+        maxBuffer: MAX_TOOL_OUTPUT_BYTES,
       });
 
-      exitCode = result.status || 0;
-      output = result.stdout || result.stderr || "";
+      // A tool that could not be started at all has no output to keep
+      const errorCode = (result.error as NodeJS.ErrnoException | undefined)?.code;
+      if (result.error && result.stdout == null && result.stderr == null) {
+        throw result.error;
+      }
+
+      // Keep what the tool printed even when it timed out or exceeded the
+      // buffer. A timeout, a non-zero exit or being killed by a signal counts
+      // as failed; an exceeded buffer only cuts off the output.
+      exitCode =
+        errorCode === "ETIMEDOUT" ? 1 : result.status ?? (errorCode === "ENOBUFS" ? 0 : 1);
+      // Runners split their output between the streams (npm's banner on
+      // stdout, Jest's results on stderr), so keep both
+      output = [result.stdout, result.stderr].filter(Boolean).join("\n");
+      if (errorCode === "ETIMEDOUT") {
+        output += `\n${config.name} timed out after ${timeout}ms`;
+      } else if (errorCode === "ENOBUFS") {
+        output += `\n${config.name} output was cut off at ${MAX_TOOL_OUTPUT_BYTES} bytes`;
+      }
     } catch (error: any) {
       exitCode = error.status || 1;
       output = error.stdout || error.stderr || String(error);
@@ -194,7 +215,8 @@ export class ToolsManager {
       name: config.name,
       command: config.command,
       exitCode,
-      output: output.substring(0, 5000), // Limit output size
+      output, // full log; history keeps a preview and stores the rest as a blob
+      startTime,
       duration,
     };
   }
@@ -211,12 +233,70 @@ export class ToolsManager {
     const results: ExternalToolResult[] = [];
     for (const tool of preset.tools) {
       const result = await this.runTool(tool);
-      results.push(result);
+      results.push({ ...result, preset: presetName });
     }
 
     return results;
   }
 
+  /**
+   * Run presets to verify a completion claim. Every tool in every preset must
+   * exit cleanly; failures are returned as diagnostics.
+   *
+   * @param presetNames Presets to run
+   * @param previousResults Results of presets already run this iteration, reused instead of re-running
+   */
+  async verifyPresets(
+    presetNames: string[],
+    previousResults: Map<string, ExternalToolResult[]> = new Map()
+  ): Promise<RalphVerificationResult> {
+    const results: ExternalToolResult[] = [];
+    const diagnostics: string[] = [];
+    let passed = true;
+
+    for (const presetName of presetNames) {
+      try {
+        const presetResults =
+          previousResults.get(presetName) || (await this.runPreset(presetName));
+        results.push(...presetResults);
+
+        const analysis = this.analyzeResults(presetResults, presetName);
+        if (analysis.success) continue;
+
+        passed = false;
+        diagnostics.push(`${presetName}: ${analysis.summary.split("\n").join("; ")}`);
+        analysis.errors.slice(0, 5).forEach((error) => {
+          diagnostics.push(`  ${error.substring(0, 200)}`);
+        });
+
+        // Fall back to the tail of the output when the parser found nothing specific
+        if (analysis.errors.length === 0) {
+          for (const result of presetResults.filter((r) => r.exitCode !== 0)) {
+            const tail = result.output
+              .split("\n")
+              .filter((line) => line.trim())
+              .slice(-5);
+            tail.forEach((line) => diagnostics.push(`  ${line.substring(0, 200)}`));
+          }
+        }
+      } catch (error) {
+        passed = false;
+        diagnostics.push(
+          `${presetName}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    return { passed, presets: presetNames, results, diagnostics };
+  }
+
+  /**
+   * Check if a preset exists
+   */
+  hasPreset(presetName: string): boolean {
+    return this.presets.has(presetName);
+  }
+
   /**
    * Get available presets
    */
@@ -0,0 +1,138 @@
+/**
+ * Tracing Tests for Ralph Wiggum MCP Server
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { RalphLoopManager } from "./ralph.js";
+import { Tracer } from "./tracing.js";
+
+interface OtlpAttribute {
+  key: string;
+  value: Record<string, unknown>;
+}
+
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpAttribute[];
+  status: { code: number; message?: string };
+}
+
+/**
+ * One line of the trace file: an OTLP/JSON ExportTraceServiceRequest
+ */
+interface OtlpTraceRequest {
+  resourceSpans: {
+    resource: { attributes: OtlpAttribute[] };
+    scopeSpans: { scope: { name: string; version: string }; spans: OtlpSpan[] }[];
+  }[];
+}
+
+/**
+ * Read every span from an OTLP JSON lines file
+ */
+function readSpans(file: string): OtlpSpan[] {
+  return readFileSync(file, "utf-8")
+    .trim()
+    .split("\n")
+    .flatMap((line) => (JSON.parse(line) as OtlpTraceRequest).resourceSpans)
+    .flatMap((resource) => resource.scopeSpans)
+    .flatMap((scope) => scope.spans);
+}
+
+function attribute(span: OtlpSpan, key: string): unknown {
+  return span.attributes.find((a) => a.key === key)?.value;
+}
+
+describe("Tracing", () => {
+  let dir: string;
+  let traceFile: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ralph-tracing-test-"));
+    traceFile = join(dir, "traces", "ralph.jsonl");
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should record a loop span with iteration and analysis children", () => {
+    jest.useFakeTimers({ now: new Date("2026-03-01T10:00:00Z") });
+    const tracer = new Tracer(traceFile);
+    const manager = new RalphLoopManager(join(dir, "loops"), { tracer });
+    const state = manager.startLoop("Task", { loopId: "traced", completionPromise: "DONE" });
+
+    jest.advanceTimersByTime(30_000);
+    manager.processIteration("working", { filesModified: ["a.ts", "b.ts"] }, "traced");
+    tracer.flush();
+    expect(readSpans(traceFile).map((span) => span.name)).toEqual(["ralph.iteration", "ralph.analysis"]);
+
+    jest.advanceTimersByTime(10_000);
+    manager.processIteration("<promise>DONE</promise>", undefined, "traced");
+    tracer.flush();
+
+    const spans = readSpans(traceFile);
+    const root = spans.find((span) => span.name === "ralph.loop")!;
+    const iterations = spans.filter((span) => span.name === "ralph.iteration");
+    const analyses = spans.filter((span) => span.name === "ralph.analysis");
+
+    expect(new Set(spans.map((span) => span.traceId))).toEqual(new Set([state.trace!.traceId]));
+    expect(root.spanId).toBe(state.trace!.spanId);
+    expect(root.parentSpanId).toBe("");
+    expect(root.status.code).toBe(1);
+    expect(attribute(root, "ralph.outcome")).toEqual({ stringValue: "completed" });
+    expect(root.startTimeUnixNano).toBe(String(Date.parse("2026-03-01T10:00:00Z") * 1_000_000));
+    expect(root.endTimeUnixNano).toBe(String(Date.parse("2026-03-01T10:00:40Z") * 1_000_000));
+
+    expect(iterations).toHaveLength(2);
+    expect(iterations[0].spanId).not.toBe(iterations[1].spanId);
+    expect(iterations.every((span) => span.parentSpanId === root.spanId)).toBe(true);
+    expect(iterations[0].startTimeUnixNano).toBe(root.startTimeUnixNano);
+    expect(attribute(iterations[0], "ralph.files_changed")).toEqual({ intValue: "2" });
+    expect(attribute(iterations[1], "ralph.completion_detected")).toEqual({ boolValue: true });
+    expect(analyses.map((span) => span.parentSpanId)).toEqual(iterations.map((span) => span.spanId));
+  });
+
+  it("should mark failed spans and skip unset attributes", () => {
+    const tracer = new Tracer(traceFile, "ralph-wiggum-mcp", "2.0.0");
+    const parent = { traceId: "a".repeat(32), spanId: "b".repeat(16) };
+    const span = tracer.startSpan("ralph.tool", parent, {
+      "ralph.tool.name": "npm test",
+      "ralph.tool.preset": undefined,
+    });
+    span.setAttributes({ "ralph.tool.exit_code": 1, "ralph.convergence_rate": 0.5 });
+    span.setError("exit code 1");
+    span.end();
+    span.end();
+
+    expect(existsSync(traceFile)).toBe(false);
+    tracer.flush();
+
+    const request = JSON.parse(readFileSync(traceFile, "utf-8"));
+    expect(request.resourceSpans[0].resource.attributes).toContainEqual({
+      key: "service.version",
+      value: { stringValue: "2.0.0" },
+    });
+    const spans = readSpans(traceFile);
+    expect(spans).toHaveLength(1);
+    expect(spans[0].parentSpanId).toBe(parent.spanId);
+    expect(spans[0].spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(spans[0].status).toEqual({ code: 2, message: "exit code 1" });
+    expect(spans[0].attributes.map((a) => a.key)).toEqual([
+      "ralph.tool.name",
+      "ralph.tool.exit_code",
+      "ralph.convergence_rate",
+    ]);
+    expect(attribute(spans[0], "ralph.convergence_rate")).toEqual({ doubleValue: 0.5 });
+  });
+});
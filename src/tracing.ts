@@ -0,0 +1,255 @@
+/**
+ * Trace Spans for Ralph Wiggum Loops
+ *
+ * Records a root span per loop, a child span per iteration, and grandchild
+ * spans for tool runs, git steps and iteration analysis. Finished spans are
+ * appended to a local file as OTLP JSON lines (one ExportTraceServiceRequest
+ * per line, as written by the OpenTelemetry Collector's file exporter), so
+ * they can be loaded into trace viewers offline.
+ */
+
+import { randomBytes } from "crypto";
+import { appendFileSync, existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+
+// OTLP span kind and status codes
+const SPAN_KIND_INTERNAL = 1;
+const STATUS_CODE_OK = 1;
+const STATUS_CODE_ERROR = 2;
+
+export type RalphSpanAttributeValue = string | number | boolean | string[];
+export type RalphSpanAttributes = Record<string, RalphSpanAttributeValue | undefined>;
+
+/**
+ * Identifies a span that new spans can be parented to
+ */
+export interface RalphTraceContext {
+  traceId: string; // 32 hex digits
+  spanId: string; // 16 hex digits
+}
+
+/**
+ * Span IDs kept in the loop state, so every process shares the same trace
+ */
+export interface RalphLoopTrace extends RalphTraceContext {
+  iterationSpanId: string; // span ID reserved for the current iteration
+}
+
+interface FinishedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  startTime: number; // epoch ms
+  endTime: number;
+  attributes: RalphSpanAttributes;
+  error?: string;
+}
+
+export function newTraceId(): string {
+  return randomBytes(16).toString("hex");
+}
+
+export function newSpanId(): string {
+  return randomBytes(8).toString("hex");
+}
+
+/**
+ * Create the trace IDs for a new loop
+ */
+export function newLoopTrace(): RalphLoopTrace {
+  return { traceId: newTraceId(), spanId: newSpanId(), iterationSpanId: newSpanId() };
+}
+
+/**
+ * A span being timed; nothing is recorded until it ends
+ */
+export class RalphSpan {
+  readonly context: RalphTraceContext;
+  private tracer: Tracer;
+  private name: string;
+  private parentSpanId?: string;
+  private startTime: number;
+  private attributes: RalphSpanAttributes;
+  private error?: string;
+  private ended = false;
+
+  constructor(
+    tracer: Tracer,
+    name: string,
+    parent: RalphTraceContext,
+    attributes: RalphSpanAttributes = {},
+    startTime: number = Date.now()
+  ) {
+    this.tracer = tracer;
+    this.name = name;
+    this.context = { traceId: parent.traceId, spanId: newSpanId() };
+    this.parentSpanId = parent.spanId;
+    this.attributes = { ...attributes };
+    this.startTime = startTime;
+  }
+
+  setAttributes(attributes: RalphSpanAttributes): void {
+    Object.assign(this.attributes, attributes);
+  }
+
+  /**
+   * Mark the span as failed
+   */
+  setError(message: string): void {
+    this.error = message;
+  }
+
+  end(endTime: number = Date.now()): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.tracer.record({
+      traceId: this.context.traceId,
+      spanId: this.context.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      startTime: this.startTime,
+      endTime,
+      attributes: this.attributes,
+      error: this.error,
+    });
+  }
+}
+
+/**
+ * Buffers finished spans and appends them to a trace file on flush
+ */
+export class Tracer {
+  readonly file: string;
+  private serviceName: string;
+  private serviceVersion: string;
+  private pending: FinishedSpan[] = [];
+
+  constructor(file: string, serviceName: string = "ralph-wiggum-mcp", serviceVersion: string = "") {
+    this.file = file;
+    this.serviceName = serviceName;
+    this.serviceVersion = serviceVersion;
+  }
+
+  /**
+   * Start timing a span under a parent
+   */
+  startSpan(
+    name: string,
+    parent: RalphTraceContext,
+    attributes: RalphSpanAttributes = {},
+    startTime?: number
+  ): RalphSpan {
+    return new RalphSpan(this, name, parent, attributes, startTime);
+  }
+
+  /**
+   * Record a span timed elsewhere, with a fixed span ID (e.g. one reserved
+   * in the loop state) or a new one
+   */
+  recordSpan(span: {
+    name: string;
+    traceId: string;
+    spanId?: string;
+    parentSpanId?: string;
+    startTime: number;
+    endTime: number;
+    attributes?: RalphSpanAttributes;
+    error?: string;
+  }): void {
+    this.record({ ...span, spanId: span.spanId ?? newSpanId(), attributes: span.attributes ?? {} });
+  }
+
+  /** @internal */
+  record(span: FinishedSpan): void {
+    this.pending.push(span);
+  }
+
+  /**
+   * Append buffered spans to the trace file. Failures are logged and the
+   * spans dropped, so tracing never breaks a tool call.
+   */
+  flush(): void {
+    if (this.pending.length === 0) {
+      return;
+    }
+    const spans = this.pending;
+    this.pending = [];
+
+    try {
+      const dir = dirname(this.file);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+      appendFileSync(this.file, JSON.stringify(this.toOtlp(spans)) + "\n");
+    } catch (error) {
+      console.error(`Failed to write Ralph trace spans to ${this.file}: ${error}`);
+    }
+  }
+
+  /**
+   * Build an OTLP/JSON ExportTraceServiceRequest
+   */
+  private toOtlp(spans: FinishedSpan[]): object {
+    const resourceAttributes: RalphSpanAttributes = { "service.name": this.serviceName };
+    if (this.serviceVersion) {
+      resourceAttributes["service.version"] = this.serviceVersion;
+    }
+
+    return {
+      resourceSpans: [
+        {
+          resource: { attributes: toOtlpAttributes(resourceAttributes) },
+          scopeSpans: [
+            {
+              scope: { name: this.serviceName, version: this.serviceVersion },
+              spans: spans.map((span) => ({
+                traceId: span.traceId,
+                spanId: span.spanId,
+                parentSpanId: span.parentSpanId ?? "",
+                name: span.name,
+                kind: SPAN_KIND_INTERNAL,
+                startTimeUnixNano: toUnixNano(span.startTime),
+                endTimeUnixNano: toUnixNano(Math.max(span.startTime, span.endTime)),
+                attributes: toOtlpAttributes(span.attributes),
+                status:
+                  span.error !== undefined
+                    ? { code: STATUS_CODE_ERROR, message: span.error }
+                    : { code: STATUS_CODE_OK },
+              })),
+            },
+          ],
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Convert epoch milliseconds to a nanosecond string (64-bit values are
+ * strings in OTLP/JSON)
+ */
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms)) * 1_000_000n).toString();
+}
+
+function toOtlpValue(value: RalphSpanAttributeValue): object {
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map((item) => ({ stringValue: item })) } };
+  }
+  if (typeof value === "boolean") {
+    return { boolValue: value };
+  }
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+function toOtlpAttributes(attributes: RalphSpanAttributes): object[] {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({ key, value: toOtlpValue(value!) }));
+}
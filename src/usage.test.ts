@@ -0,0 +1,62 @@
+/**
+ * Usage Accounting Tests for Ralph Wiggum MCP Server
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { findModelPrice, formatCost, loadPriceTable, priceUsage } from "./usage.js";
+
+describe("Usage accounting", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ralph-usage-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should match models exactly, then by the longest prefix", () => {
+    const prices = {
+      "gpt-4o": { input: 2.5, output: 10 },
+      "gpt-4o-mini": { input: 0.15, output: 0.6 },
+    };
+    expect(findModelPrice("gpt-4o", prices)).toBe(prices["gpt-4o"]);
+    expect(findModelPrice("gpt-4o-mini-2024-07-18", prices)).toBe(prices["gpt-4o-mini"]);
+    expect(findModelPrice("claude-sonnet-4", prices)).toBeUndefined();
+    expect(findModelPrice("toString", prices)).toBeUndefined();
+  });
+
+  it("should keep reported costs and only estimate missing ones", () => {
+    const prices = { "claude-haiku": { input: 1, output: 5 } };
+    expect(priceUsage({ inputTokens: 2_000, outputTokens: 1_000, model: "claude-haiku", cost: 0.5 }, prices)).toEqual({
+      inputTokens: 2_000,
+      outputTokens: 1_000,
+      tokens: 3_000,
+      model: "claude-haiku",
+      cost: 0.5,
+    });
+    expect(priceUsage({ inputTokens: 2_000, outputTokens: 1_000, model: "claude-haiku" }, prices)).toMatchObject({
+      cost: 0.007,
+      costEstimated: true,
+    });
+    expect(priceUsage({ tokens: 3_000, model: "claude-haiku" }, prices).cost).toBeUndefined();
+    expect(priceUsage({ inputTokens: 10, model: "unknown" }, prices).cost).toBeUndefined();
+    expect(formatCost(0.007)).toBe("$0.0070");
+    expect(formatCost(12.5)).toBe("$12.50");
+  });
+
+  it("should load and validate a price table", () => {
+    const valid = join(dir, "prices.json");
+    writeFileSync(valid, JSON.stringify({ "claude-sonnet-4": { input: 3, output: 15 } }));
+    expect(loadPriceTable(valid)).toEqual({ "claude-sonnet-4": { input: 3, output: 15 } });
+
+    const invalid = join(dir, "invalid.json");
+    writeFileSync(invalid, JSON.stringify({ "claude-sonnet-4": { input: 3 } }));
+    expect(() => loadPriceTable(invalid)).toThrow('claude-sonnet-4 needs non-negative "input" and "output" prices');
+    expect(() => loadPriceTable(join(dir, "missing.json"))).toThrow("Failed to read price table");
+  });
+});
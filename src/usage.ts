@@ -0,0 +1,147 @@
+/**
+ * Model Usage Accounting for Ralph Wiggum Loops
+ *
+ * Token counts and costs reported with each iteration. When a client reports
+ * tokens but no cost, the cost is estimated from a configurable price table.
+ * Usage is aggregated per loop, and per template across loops.
+ */
+
+import { readFileSync } from "fs";
+import type { RalphIterationHistoryEntry, RalphIterationUsage } from "./ralph.js";
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface RalphModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Prices by model name. A model without an exact entry uses the longest
+ * entry it starts with, e.g. "claude-sonnet-4" prices "claude-sonnet-4-20250514".
+ */
+export type RalphPriceTable = Record<string, RalphModelPrice>;
+
+export interface RalphModelUsage {
+  iterations: number;
+  tokens: number;
+  cost: number;
+}
+
+export interface RalphUsageSummary {
+  iterations: number; // iterations that reported usage
+  inputTokens: number;
+  outputTokens: number;
+  tokens: number;
+  cost: number;
+  estimatedCost: number; // part of the cost estimated from the price table
+  models: Record<string, RalphModelUsage>;
+}
+
+/**
+ * Read and validate a price table from a JSON file
+ */
+export function loadPriceTable(path: string): RalphPriceTable {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw new Error(`Failed to read price table ${path}: ${error}`);
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Price table ${path} must be an object of model prices`);
+  }
+
+  const prices: RalphPriceTable = {};
+  for (const [model, price] of Object.entries(parsed)) {
+    const { input, output } = (price ?? {}) as Record<string, unknown>;
+    for (const value of [input, output]) {
+      if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+        throw new Error(
+          `Price table ${path}: ${model} needs non-negative "input" and "output" prices per million tokens`
+        );
+      }
+    }
+    prices[model] = { input: input as number, output: output as number };
+  }
+  return prices;
+}
+
+/**
+ * Find the price of a model (exact name first, then the longest prefix)
+ */
+export function findModelPrice(model: string, prices: RalphPriceTable): RalphModelPrice | undefined {
+  if (Object.prototype.hasOwnProperty.call(prices, model)) {
+    return prices[model];
+  }
+  const prefix = Object.keys(prices)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix !== undefined ? prices[prefix] : undefined;
+}
+
+/**
+ * Complete reported usage: total tokens from input and output tokens, and a
+ * cost from the price table when none was reported
+ */
+export function priceUsage(usage: RalphIterationUsage, prices: RalphPriceTable): RalphIterationUsage {
+  const priced: RalphIterationUsage = { ...usage };
+  if (
+    priced.tokens === undefined &&
+    (priced.inputTokens !== undefined || priced.outputTokens !== undefined)
+  ) {
+    priced.tokens = (priced.inputTokens || 0) + (priced.outputTokens || 0);
+  }
+
+  if (priced.cost === undefined && priced.model) {
+    const price = findModelPrice(priced.model, prices);
+    if (price && (priced.inputTokens !== undefined || priced.outputTokens !== undefined)) {
+      priced.cost =
+        ((priced.inputTokens || 0) * price.input + (priced.outputTokens || 0) * price.output) / 1_000_000;
+      priced.costEstimated = true;
+    }
+  }
+  return priced;
+}
+
+/**
+ * Aggregate the usage of a loop's iterations
+ */
+export function summarizeUsage(history: RalphIterationHistoryEntry[]): RalphUsageSummary {
+  const summary: RalphUsageSummary = {
+    iterations: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    tokens: 0,
+    cost: 0,
+    estimatedCost: 0,
+    models: {},
+  };
+
+  for (const { usage } of history) {
+    if (!usage) continue;
+    summary.iterations++;
+    summary.inputTokens += usage.inputTokens || 0;
+    summary.outputTokens += usage.outputTokens || 0;
+    summary.tokens += usage.tokens || 0;
+    summary.cost += usage.cost || 0;
+    if (usage.costEstimated) {
+      summary.estimatedCost += usage.cost || 0;
+    }
+    if (usage.model) {
+      const model = (summary.models[usage.model] ??= { iterations: 0, tokens: 0, cost: 0 });
+      model.iterations++;
+      model.tokens += usage.tokens || 0;
+      model.cost += usage.cost || 0;
+    }
+  }
+  return summary;
+}
+
+/**
+ * Format a cost in USD, with more digits for small amounts
+ */
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost !== 0 && Math.abs(cost) < 1 ? 4 : 2)}`;
+}